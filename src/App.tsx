@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import './App.css';
 import SmartArt from './components/SmartArt';
 
@@ -25,12 +25,15 @@ const nodes = [
 ];
 
 function App() {
+  // Keep the diagram content in the app so edits can be saved
+  const [diagramNodes, setDiagramNodes] = useState(nodes);
+
   return (
     <div className="App">
       <header className="App-header">
       </header>
       <main>
-        <SmartArt nodes={nodes} />
+        <SmartArt nodes={diagramNodes} onNodesChange={setDiagramNodes} />
       </main>
     </div>
   );
@@ -0,0 +1,91 @@
+/**
+ * Asset stores keep picture data out of the diagram's nodes.
+ *
+ * Nodes hold a reference instead of a raw object URL: `asset:<id>` for pictures
+ * kept by an in-memory or IndexedDB store, or a regular URL when a host uploader
+ * has put the file on a server. References are resolved to displayable URLs at
+ * render time, so they survive saving, reloading and undo.
+ */
+export const ASSET_REF_PREFIX = 'asset:';
+
+export interface AssetPutOptions {
+  name?: string;
+  signal?: AbortSignal;
+}
+
+export interface AssetStore {
+  id: string;
+  // Stores the picture and returns the reference to keep on the node
+  put: (blob: Blob, options?: AssetPutOptions) => Promise<string>;
+  // URL an <img> can display for a reference; pair each call with `release`
+  resolve: (ref: string) => Promise<string>;
+  // Frees what `resolve` created (object URLs); the stored data is kept for undo
+  release?: (ref: string) => void;
+  delete?: (ref: string) => Promise<void>;
+  // References of everything the store holds, for `collectUnusedAssets`
+  list?: () => Promise<string[]>;
+}
+
+export const isAssetRef = (src: string) => src.startsWith(ASSET_REF_PREFIX);
+
+export const createAssetRef = (id: string) => `${ASSET_REF_PREFIX}${id}`;
+
+export const getAssetId = (ref: string) => ref.slice(ASSET_REF_PREFIX.length);
+
+// Picture references held by nodes, including pictures stashed by layouts that don't show them
+export const getNodeAssetRefs = (nodes: { image?: string; stashed?: { image?: string } }[]) =>
+  nodes.flatMap(node => [node.image, node.stashed?.image])
+    .filter((src): src is string => !!src && isAssetRef(src));
+
+/**
+ * Deletes every stored picture whose reference isn't in `refsInUse`, and returns the
+ * deleted references. Stores are shared by every diagram on the page (and IndexedDB
+ * across visits), so only the host knows what is still needed: pass the references
+ * of all saved documents plus each open editor's `getAssetRefs()`, which includes
+ * the pictures its undo history can bring back. Stores without `list` and `delete`
+ * are left alone.
+ */
+export const collectUnusedAssets = async (store: AssetStore, refsInUse: Iterable<string>) => {
+  const { list, delete: deleteAsset } = store;
+  if (!list || !deleteAsset) return [];
+  const used = new Set(refsInUse);
+  const unused = (await list()).filter(ref => !used.has(ref));
+  await Promise.all(unused.map(ref => deleteAsset(ref)));
+  return unused;
+};
+
+export const createAssetId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Object URLs for blobs, shared by the stores that keep blobs locally. Each
+ * `acquire` needs a matching `release`; the URL is revoked when the last user
+ * lets go, so two diagrams showing the same picture don't break each other.
+ */
+export const createObjectUrlCache = () => {
+  const entries = new Map<string, { url: string; users: number }>();
+
+  const revoke = (id: string) => {
+    const entry = entries.get(id);
+    if (entry) {
+      URL.revokeObjectURL(entry.url);
+      entries.delete(id);
+    }
+  };
+
+  return {
+    acquire: (id: string, blob: Blob) => {
+      const entry = entries.get(id) ?? { url: URL.createObjectURL(blob), users: 0 };
+      entry.users += 1;
+      entries.set(id, entry);
+      return entry.url;
+    },
+    release: (id: string) => {
+      const entry = entries.get(id);
+      if (!entry) return;
+      entry.users -= 1;
+      if (entry.users <= 0) revoke(id);
+    },
+    revoke,
+  };
+};
@@ -0,0 +1,10 @@
+import { AssetStore } from './assetStore';
+import { createIndexedDBAssetStore } from './indexedDBAssetStore';
+
+let defaultStore: AssetStore | null = null;
+
+// Shared IndexedDB store used when the host doesn't pass `assetStore`
+export const getDefaultAssetStore = () => {
+  if (!defaultStore) defaultStore = createIndexedDBAssetStore();
+  return defaultStore;
+};
@@ -0,0 +1,108 @@
+import {
+  AssetStore,
+  createAssetId,
+  createAssetRef,
+  createObjectUrlCache,
+  getAssetId,
+  isAssetRef,
+} from './assetStore';
+
+interface IndexedDBAssetStoreOptions {
+  databaseName?: string;
+  storeName?: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Persists pictures in IndexedDB so `asset:` references still resolve after a
+ * reload. If the database can't be opened (private browsing, old browsers) the
+ * store keeps working for the current page from memory.
+ */
+export const createIndexedDBAssetStore = ({
+  databaseName = 'smartart-assets',
+  storeName = 'assets',
+}: IndexedDBAssetStoreOptions = {}): AssetStore => {
+  // Blobs seen this session, so resolving doesn't hit the database every render
+  const blobs = new Map<string, Blob>();
+  const objectUrls = createObjectUrlCache();
+  let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+  const openDatabase = () => {
+    if (!databasePromise) {
+      databasePromise = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Asset database unavailable, pictures will only last for this session:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return databasePromise;
+  };
+
+  const getBlob = async (id: string) => {
+    const cached = blobs.get(id);
+    if (cached) return cached;
+    const database = await openDatabase();
+    if (!database) return undefined;
+    const blob = await requestToPromise<Blob | undefined>(
+      database.transaction(storeName, 'readonly').objectStore(storeName).get(id)
+    );
+    if (blob) blobs.set(id, blob);
+    return blob;
+  };
+
+  return {
+    id: 'indexeddb',
+    put: async (blob) => {
+      const id = createAssetId();
+      blobs.set(id, blob);
+      const database = await openDatabase();
+      if (database) {
+        await requestToPromise(database.transaction(storeName, 'readwrite').objectStore(storeName).put(blob, id));
+      }
+      return createAssetRef(id);
+    },
+    resolve: async (ref) => {
+      if (!isAssetRef(ref)) return ref;
+      const id = getAssetId(ref);
+      const blob = await getBlob(id);
+      if (!blob) throw new Error(`Unknown asset ${ref}`);
+      return objectUrls.acquire(id, blob);
+    },
+    release: (ref) => {
+      if (isAssetRef(ref)) objectUrls.release(getAssetId(ref));
+    },
+    delete: async (ref) => {
+      if (!isAssetRef(ref)) return;
+      const id = getAssetId(ref);
+      objectUrls.revoke(id);
+      blobs.delete(id);
+      const database = await openDatabase();
+      if (database) {
+        await requestToPromise(database.transaction(storeName, 'readwrite').objectStore(storeName).delete(id));
+      }
+    },
+    list: async () => {
+      const ids = new Set(blobs.keys());
+      const database = await openDatabase();
+      if (database) {
+        const keys = await requestToPromise(database.transaction(storeName, 'readonly').objectStore(storeName).getAllKeys());
+        keys.forEach(key => ids.add(String(key)));
+      }
+      return Array.from(ids, createAssetRef);
+    },
+  };
+};
+
+export default createIndexedDBAssetStore;
@@ -0,0 +1,45 @@
+import {
+  AssetStore,
+  createAssetId,
+  createAssetRef,
+  createObjectUrlCache,
+  getAssetId,
+  isAssetRef,
+} from './assetStore';
+
+/**
+ * Keeps pictures in memory for the lifetime of the page. Useful for tests and
+ * for hosts that read the blobs back out before saving.
+ */
+export const createMemoryAssetStore = (): AssetStore & { getBlob: (ref: string) => Blob | undefined } => {
+  const blobs = new Map<string, Blob>();
+  const objectUrls = createObjectUrlCache();
+
+  return {
+    id: 'memory',
+    put: async (blob) => {
+      const id = createAssetId();
+      blobs.set(id, blob);
+      return createAssetRef(id);
+    },
+    resolve: async (ref) => {
+      if (!isAssetRef(ref)) return ref;
+      const id = getAssetId(ref);
+      const blob = blobs.get(id);
+      if (!blob) throw new Error(`Unknown asset ${ref}`);
+      return objectUrls.acquire(id, blob);
+    },
+    release: (ref) => {
+      if (isAssetRef(ref)) objectUrls.release(getAssetId(ref));
+    },
+    delete: async (ref) => {
+      if (!isAssetRef(ref)) return;
+      objectUrls.revoke(getAssetId(ref));
+      blobs.delete(getAssetId(ref));
+    },
+    list: async () => Array.from(blobs.keys(), createAssetRef),
+    getBlob: (ref) => blobs.get(getAssetId(ref)),
+  };
+};
+
+export default createMemoryAssetStore;
@@ -0,0 +1,196 @@
+import React from 'react';
+import styled from 'styled-components';
+import { usePopoverDismiss } from '../hooks/usePopoverDismiss';
+import { COLOR_SCHEMES, ColorScheme, ColorSchemeKind, getNodeColor } from '../utils/colorSchemes';
+
+// Shared popover shell for both pickers
+const PickerPopover = styled.div`
+  position: absolute;
+  top: calc(100% + 6px);
+  left: 0;
+  background: white;
+  border-radius: 8px;
+  padding: 8px;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 8px 16px 0px rgba(0, 0, 0, 0.14);
+  z-index: 950;
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  cursor: default;
+`;
+
+const SectionLabel = styled.div`
+  font-size: 12px;
+  font-weight: 600;
+  color: #616161;
+  padding: 6px 4px 4px 4px;
+`;
+
+const SchemeRow = styled.div`
+  display: flex;
+  gap: 4px;
+`;
+
+const SchemeOption = styled.button<{ $selected: boolean }>`
+  display: flex;
+  gap: 2px;
+  padding: 4px;
+  border-radius: 4px;
+  border: 1px solid ${props => props.$selected ? '#3498db' : 'transparent'};
+  background: ${props => props.$selected ? '#EBF5FB' : 'none'};
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: #f5f5f5;
+    outline: none;
+  }
+`;
+
+const Swatch = styled.span<{ $color: string }>`
+  display: block;
+  width: 12px;
+  height: 20px;
+  border-radius: 2px;
+  background: ${props => props.$color};
+`;
+
+const SwatchButton = styled.button<{ $color: string; $selected: boolean }>`
+  width: 20px;
+  height: 20px;
+  border-radius: 50%;
+  padding: 0;
+  background: ${props => props.$color};
+  border: 2px solid ${props => props.$selected ? '#242424' : 'white'};
+  box-shadow: 0 0 0 1px #D1D1D1;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 2px;
+  }
+`;
+
+const SwatchGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(5, 20px);
+  gap: 8px;
+  padding: 4px;
+`;
+
+const ResetButton = styled.button`
+  width: 100%;
+  margin-top: 6px;
+  padding: 6px 8px;
+  border: none;
+  border-radius: 4px;
+  background: none;
+  font-family: inherit;
+  font-size: 13px;
+  color: #242424;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: #f5f5f5;
+    outline: none;
+  }
+`;
+
+const SECTIONS: { kind: ColorSchemeKind; label: string }[] = [
+  { kind: 'default', label: 'Default' },
+  { kind: 'primary', label: 'Primary' },
+  { kind: 'colorful', label: 'Colorful' },
+  { kind: 'gradient', label: 'Gradient' },
+  { kind: 'monochrome', label: 'Monochrome' },
+];
+
+interface ColorSchemePickerProps {
+  selectedId: string;
+  onSelect: (scheme: ColorScheme) => void;
+  onClose: () => void;
+}
+
+/**
+ * ColorSchemePicker - Popover gallery of diagram color schemes
+ *
+ * Each option previews the first five cards in that scheme.
+ */
+const ColorSchemePicker: React.FC<ColorSchemePickerProps> = ({ selectedId, onSelect, onClose }) => {
+  const popoverRef = usePopoverDismiss(onClose);
+
+  return (
+    <PickerPopover
+      ref={popoverRef}
+      role="radiogroup"
+      aria-label="Color scheme"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {SECTIONS.map(section => (
+        <div key={section.kind}>
+          <SectionLabel>{section.label}</SectionLabel>
+          <SchemeRow>
+            {COLOR_SCHEMES.filter(scheme => scheme.kind === section.kind).map(scheme => (
+              <SchemeOption
+                key={scheme.id}
+                role="radio"
+                aria-checked={scheme.id === selectedId}
+                aria-label={scheme.name}
+                title={scheme.name}
+                $selected={scheme.id === selectedId}
+                onClick={() => onSelect(scheme)}
+              >
+                {[0, 1, 2, 3, 4].map(index => (
+                  <Swatch key={index} $color={getNodeColor(scheme, index, 5) || '#BDBDBD'} aria-hidden="true" />
+                ))}
+              </SchemeOption>
+            ))}
+          </SchemeRow>
+        </div>
+      ))}
+    </PickerPopover>
+  );
+};
+
+interface ColorSwatchPickerProps {
+  colors: string[];
+  selectedColor?: string;
+  onSelect: (color: string | undefined) => void;
+  onClose: () => void;
+}
+
+/**
+ * ColorSwatchPicker - Popover for overriding one card's color
+ *
+ * "Use theme color" clears the override so the card follows the diagram scheme again.
+ */
+const ColorSwatchPicker: React.FC<ColorSwatchPickerProps> = ({ colors, selectedColor, onSelect, onClose }) => {
+  const popoverRef = usePopoverDismiss(onClose);
+
+  return (
+    <PickerPopover
+      ref={popoverRef}
+      role="radiogroup"
+      aria-label="Card color"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <SwatchGrid>
+        {colors.map(color => (
+          <SwatchButton
+            key={color}
+            role="radio"
+            aria-checked={color === selectedColor?.toLowerCase()}
+            aria-label={color}
+            title={color}
+            $color={color}
+            $selected={color === selectedColor?.toLowerCase()}
+            onClick={() => onSelect(color)}
+          />
+        ))}
+      </SwatchGrid>
+      <ResetButton onClick={() => onSelect(undefined)}>Use theme color</ResetButton>
+    </PickerPopover>
+  );
+};
+
+export { ColorSchemePicker, ColorSwatchPicker };
+export default ColorSchemePicker;
@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import {
+  CommentAction,
+  CommentAnchor,
+  CommentThread,
+  createComment,
+  createThread,
+  isAnchoredTo,
+} from '../utils/comments';
+
+const PanelContainer = styled.div`
+  position: absolute;
+  top: 0;
+  left: calc(100% + 16px);
+  width: 280px;
+  max-height: 100%;
+  display: flex;
+  flex-direction: column;
+  background: white;
+  border-radius: 8px;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 4px 8px 0px rgba(0, 0, 0, 0.14);
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  z-index: 25;
+  text-align: left;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 8px 8px 8px 12px;
+  border-bottom: 1px solid #ECECEC;
+  font-size: 14px;
+  font-weight: 600;
+  color: #242424;
+`;
+
+const HeaderButton = styled.button`
+  height: 24px;
+  min-width: 24px;
+  border: none;
+  border-radius: 4px;
+  background: none;
+  font-family: inherit;
+  font-size: 12px;
+  color: #424242;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: #f5f5f5;
+    outline: none;
+  }
+`;
+
+const ThreadList = styled.div`
+  flex: 1;
+  overflow-y: auto;
+  padding: 8px 12px;
+`;
+
+const ThreadCard = styled.div<{ $resolved: boolean; $orphaned: boolean }>`
+  border: 1px ${props => props.$orphaned ? 'dashed #BDBDBD' : 'solid #ECECEC'};
+  border-radius: 6px;
+  padding: 8px;
+  margin-bottom: 8px;
+  opacity: ${props => props.$resolved ? 0.6 : 1};
+`;
+
+const AnchorLabel = styled.div`
+  font-size: 11px;
+  color: #757575;
+  margin-bottom: 4px;
+`;
+
+const CommentMeta = styled.div`
+  display: flex;
+  justify-content: space-between;
+  font-size: 12px;
+  color: #616161;
+
+  & > strong {
+    color: #242424;
+  }
+`;
+
+const CommentText = styled.div`
+  font-size: 13px;
+  color: #242424;
+  margin: 2px 0 6px 0;
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+const Reply = styled.div`
+  border-left: 2px solid #ECECEC;
+  padding-left: 8px;
+  margin: 4px 0 4px 4px;
+`;
+
+const ThreadActions = styled.div`
+  display: flex;
+  gap: 4px;
+  margin-top: 4px;
+`;
+
+const ActionButton = styled.button`
+  border: none;
+  border-radius: 4px;
+  background: none;
+  padding: 2px 6px;
+  font-family: inherit;
+  font-size: 12px;
+  color: #3498db;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: #EBF5FB;
+    outline: none;
+  }
+
+  &:disabled {
+    color: #BDBDBD;
+    background: none;
+    cursor: default;
+  }
+`;
+
+const Composer = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  padding: 8px 12px 12px 12px;
+  border-top: 1px solid #ECECEC;
+`;
+
+const ComposerInput = styled.textarea`
+  width: 100%;
+  min-height: 48px;
+  resize: vertical;
+  box-sizing: border-box;
+  border: 1px solid #D1D1D1;
+  border-radius: 4px;
+  padding: 6px;
+  font-family: inherit;
+  font-size: 13px;
+
+  &:focus {
+    outline: none;
+    border-color: #3498db;
+  }
+`;
+
+const EmptyState = styled.div`
+  font-size: 13px;
+  color: #757575;
+  padding: 8px 0;
+`;
+
+const formatTimestamp = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  // Where new comments go; a node anchor also limits the list to that card
+  anchor: CommentAnchor;
+  currentUser: string;
+  // Undefined for deleted cards, whose threads are shown as orphaned
+  getNodeTitle: (nodeId: number) => string | undefined;
+  onAction: (action: CommentAction) => void;
+  onClose: () => void;
+}
+
+/**
+ * CommentsPanel - Threaded comments on the diagram or one of its cards
+ *
+ * Opened for the whole diagram it lists every thread, labelled with the card it
+ * belongs to; opened from a card it only shows that card's threads. Threads whose
+ * card was deleted are marked as orphaned in the diagram's list, so they can
+ * still be resolved or deleted. Resolved threads are hidden until "Show resolved"
+ * is turned on.
+ */
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  threads,
+  anchor,
+  currentUser,
+  getNodeTitle,
+  onAction,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    composerRef.current?.focus();
+  }, [anchor]);
+
+  const visibleThreads = threads.filter(thread =>
+    (anchor.type === 'diagram' || isAnchoredTo(thread, anchor)) && (showResolved || !thread.resolved)
+  );
+  const resolvedCount = threads.filter(thread =>
+    thread.resolved && (anchor.type === 'diagram' || isAnchoredTo(thread, anchor))
+  ).length;
+
+  const isOrphaned = (thread: CommentThread) =>
+    thread.anchor.type === 'node' && getNodeTitle(thread.anchor.nodeId) === undefined;
+
+  const getAnchorLabel = (thread: CommentThread) => {
+    if (thread.anchor.type === 'diagram') return 'Diagram';
+    return isOrphaned(thread) ? 'Deleted card' : `Card: ${getNodeTitle(thread.anchor.nodeId)}`;
+  };
+
+  const submitThread = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onAction({ type: 'create', thread: createThread(anchor, currentUser, text) });
+    setDraft('');
+  };
+
+  const submitReply = (threadId: string) => {
+    const text = (replyDrafts[threadId] || '').trim();
+    if (!text) return;
+    onAction({ type: 'reply', threadId, reply: createComment(currentUser, text) });
+    setReplyDrafts(prev => ({ ...prev, [threadId]: '' }));
+  };
+
+  // Ctrl/Cmd+Enter submits; Escape closes the panel
+  const handleComposerKeyDown = (event: React.KeyboardEvent, submit: () => void) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      submit();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  const title = anchor.type === 'node'
+    ? `Comments on ${getNodeTitle(anchor.nodeId) ?? 'card'}`
+    : 'Comments';
+
+  return (
+    <PanelContainer
+      role="complementary"
+      aria-label={title}
+      data-native-undo
+      onClick={(e) => e.stopPropagation()}
+    >
+      <PanelHeader>
+        {title}
+        <div>
+          {resolvedCount > 0 && (
+            <HeaderButton aria-pressed={showResolved} onClick={() => setShowResolved(!showResolved)}>
+              {showResolved ? 'Hide resolved' : `Show resolved (${resolvedCount})`}
+            </HeaderButton>
+          )}
+          <HeaderButton aria-label="Close comments" title="Close" onClick={onClose}>×</HeaderButton>
+        </div>
+      </PanelHeader>
+
+      <ThreadList>
+        {visibleThreads.length === 0 && <EmptyState>No comments yet.</EmptyState>}
+        {visibleThreads.map(thread => (
+          <ThreadCard
+            key={thread.id}
+            $resolved={thread.resolved}
+            $orphaned={isOrphaned(thread)}
+            role="article"
+            aria-label={`Comment by ${thread.author}${isOrphaned(thread) ? ' on a deleted card' : ''}`}
+          >
+            {anchor.type === 'diagram' && <AnchorLabel>{getAnchorLabel(thread)}</AnchorLabel>}
+            <CommentMeta>
+              <strong>{thread.author}</strong>
+              <span>{thread.resolved ? 'Resolved' : formatTimestamp(thread.createdAt)}</span>
+            </CommentMeta>
+            <CommentText>{thread.text}</CommentText>
+
+            {thread.replies.map(reply => (
+              <Reply key={reply.id}>
+                <CommentMeta>
+                  <strong>{reply.author}</strong>
+                  <span>{formatTimestamp(reply.createdAt)}</span>
+                </CommentMeta>
+                <CommentText>{reply.text}</CommentText>
+              </Reply>
+            ))}
+
+            {!thread.resolved && (
+              <ComposerInput
+                value={replyDrafts[thread.id] || ''}
+                placeholder="Reply"
+                aria-label={`Reply to ${thread.author}`}
+                onChange={(e) => setReplyDrafts(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                onKeyDown={(e) => handleComposerKeyDown(e, () => submitReply(thread.id))}
+                style={{ minHeight: '32px' }}
+              />
+            )}
+            <ThreadActions>
+              {!thread.resolved && (
+                <ActionButton disabled={!(replyDrafts[thread.id] || '').trim()} onClick={() => submitReply(thread.id)}>
+                  Reply
+                </ActionButton>
+              )}
+              <ActionButton onClick={() => onAction({ type: thread.resolved ? 'reopen' : 'resolve', threadId: thread.id })}>
+                {thread.resolved ? 'Reopen' : 'Resolve'}
+              </ActionButton>
+              <ActionButton onClick={() => onAction({ type: 'delete', threadId: thread.id })}>
+                Delete
+              </ActionButton>
+            </ThreadActions>
+          </ThreadCard>
+        ))}
+      </ThreadList>
+
+      <Composer>
+        <ComposerInput
+          ref={composerRef}
+          value={draft}
+          placeholder={anchor.type === 'node' ? 'Comment on this card' : 'Comment on the diagram'}
+          aria-label="New comment"
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => handleComposerKeyDown(e, submitThread)}
+        />
+        <ActionButton disabled={!draft.trim()} onClick={submitThread} style={{ alignSelf: 'flex-end' }}>
+          Comment
+        </ActionButton>
+      </Composer>
+    </PanelContainer>
+  );
+};
+
+export { CommentsPanel };
+export default CommentsPanel;
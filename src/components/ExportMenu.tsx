@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { usePopoverDismiss } from '../hooks/usePopoverDismiss';
+
+export type ExportFormat = 'png' | 'jpeg' | 'svg' | 'pptx';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // Pixel density for raster formats; ignored when `width` is set
+  scale: number;
+  width?: number;
+  transparent: boolean;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'pptx', label: 'PPTX' },
+];
+
+const SCALES = [1, 2, 4];
+
+const MenuPopover = styled.div`
+  position: absolute;
+  top: calc(100% + 6px);
+  left: 0;
+  width: 220px;
+  background: white;
+  border-radius: 8px;
+  padding: 8px;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 8px 16px 0px rgba(0, 0, 0, 0.14);
+  z-index: 950;
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  font-size: 13px;
+  color: #242424;
+  text-align: left;
+  cursor: default;
+`;
+
+const SectionLabel = styled.div`
+  font-size: 12px;
+  font-weight: 600;
+  color: #616161;
+  padding: 6px 4px 4px 4px;
+`;
+
+const OptionRow = styled.div`
+  display: flex;
+  gap: 4px;
+  padding: 0 4px;
+`;
+
+const OptionButton = styled.button<{ $selected: boolean }>`
+  flex: 1;
+  padding: 4px 0;
+  border-radius: 4px;
+  border: 1px solid ${props => props.$selected ? '#3498db' : '#D1D1D1'};
+  background: ${props => props.$selected ? '#EBF5FB' : 'white'};
+  color: ${props => props.$selected ? '#1E6FA8' : '#424242'};
+  font-family: inherit;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 1px;
+  }
+`;
+
+const WidthInput = styled.input`
+  width: 100%;
+  box-sizing: border-box;
+  margin: 6px 4px 0 4px;
+  padding: 4px 6px;
+  border: 1px solid #D1D1D1;
+  border-radius: 4px;
+  font-family: inherit;
+  font-size: 12px;
+
+  &:focus {
+    outline: none;
+    border-color: #3498db;
+  }
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 4px 4px 4px;
+`;
+
+const ExportButton = styled.button`
+  width: 100%;
+  margin-top: 8px;
+  padding: 6px 0;
+  border: 1px solid #3498db;
+  border-radius: 4px;
+  background: #3498db;
+  color: white;
+  font-family: inherit;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 2px;
+  }
+`;
+
+interface ExportMenuProps {
+  // True while an export is running
+  busy?: boolean;
+  onExport: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+/**
+ * ExportMenu - Popover for saving the diagram as a picture or a slide
+ *
+ * Picks the format, the size (1x/2x/4x or an exact pixel width) and whether the
+ * background is transparent. JPEG and PowerPoint slides have no transparency and
+ * SVG and PPTX have no pixel size, so those options are disabled when they don't apply.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ busy = false, onExport, onClose }) => {
+  const popoverRef = usePopoverDismiss(onClose);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [scale, setScale] = useState<number | 'width'>(2);
+  const [widthText, setWidthText] = useState('1920');
+  const [transparent, setTransparent] = useState(false);
+
+  const isRaster = format === 'png' || format === 'jpeg';
+  const canBeTransparent = format === 'png' || format === 'svg';
+  const width = Number.parseInt(widthText, 10);
+  const widthValid = Number.isFinite(width) && width > 0;
+
+  const handleExport = () => {
+    onExport({
+      format,
+      scale: scale === 'width' ? 1 : scale,
+      width: isRaster && scale === 'width' ? width : undefined,
+      transparent: transparent && canBeTransparent,
+    });
+  };
+
+  return (
+    <MenuPopover
+      ref={popoverRef}
+      role="dialog"
+      aria-label="Export"
+      data-native-undo
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <SectionLabel id="export-format-label">Format</SectionLabel>
+      <OptionRow role="radiogroup" aria-labelledby="export-format-label">
+        {FORMATS.map(option => (
+          <OptionButton
+            key={option.value}
+            role="radio"
+            aria-checked={format === option.value}
+            $selected={format === option.value}
+            onClick={() => setFormat(option.value)}
+          >
+            {option.label}
+          </OptionButton>
+        ))}
+      </OptionRow>
+
+      <SectionLabel id="export-size-label">Size</SectionLabel>
+      <OptionRow role="radiogroup" aria-labelledby="export-size-label">
+        {SCALES.map(option => (
+          <OptionButton
+            key={option}
+            role="radio"
+            aria-checked={isRaster && scale === option}
+            disabled={!isRaster}
+            $selected={isRaster && scale === option}
+            onClick={() => setScale(option)}
+          >
+            {option}x
+          </OptionButton>
+        ))}
+        <OptionButton
+          role="radio"
+          aria-checked={isRaster && scale === 'width'}
+          disabled={!isRaster}
+          $selected={isRaster && scale === 'width'}
+          onClick={() => setScale('width')}
+        >
+          Width
+        </OptionButton>
+      </OptionRow>
+      {isRaster && scale === 'width' && (
+        <OptionRow>
+          <WidthInput
+            type="number"
+            min={1}
+            value={widthText}
+            aria-label="Width in pixels"
+            aria-invalid={!widthValid}
+            onChange={(e) => setWidthText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && widthValid && !busy) handleExport();
+            }}
+          />
+        </OptionRow>
+      )}
+
+      <CheckboxLabel>
+        <input
+          type="checkbox"
+          checked={transparent && canBeTransparent}
+          disabled={!canBeTransparent}
+          onChange={(e) => setTransparent(e.target.checked)}
+        />
+        Transparent background
+      </CheckboxLabel>
+
+      <ExportButton disabled={busy || (isRaster && scale === 'width' && !widthValid)} onClick={handleExport}>
+        {busy ? 'Exporting…' : 'Export'}
+      </ExportButton>
+    </MenuPopover>
+  );
+};
+
+export { ExportMenu };
+export default ExportMenu;
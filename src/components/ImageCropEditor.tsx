@@ -0,0 +1,298 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import styled from 'styled-components';
+import {
+  ASPECT_PRESETS,
+  DEFAULT_IMAGE_CROP,
+  ImageCrop,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  clampImageCrop,
+  getImageCropStyle,
+} from '../utils/imageCrop';
+
+// Focal point change per arrow key press
+const KEYBOARD_PAN_STEP = 0.05;
+
+const CropSurface = styled.div`
+  position: absolute;
+  inset: 0;
+  overflow: hidden;
+  cursor: grab;
+  touch-action: none;
+  z-index: 16;
+  outline: 2px solid #3498db;
+  outline-offset: -2px;
+
+  &:active {
+    cursor: grabbing;
+  }
+
+  &:focus-visible {
+    outline-width: 3px;
+  }
+
+  & > img {
+    width: 100%;
+    height: 100%;
+    display: block;
+    pointer-events: none;
+    user-select: none;
+  }
+`;
+
+// Rule-of-thirds guides over the picture while cropping
+const CropGrid = styled.div`
+  position: absolute;
+  inset: 0;
+  pointer-events: none;
+  background-image:
+    linear-gradient(to right, transparent calc(33.33% - 0.5px), rgba(255, 255, 255, 0.7) calc(33.33% - 0.5px), rgba(255, 255, 255, 0.7) calc(33.33% + 0.5px), transparent calc(33.33% + 0.5px), transparent calc(66.66% - 0.5px), rgba(255, 255, 255, 0.7) calc(66.66% - 0.5px), rgba(255, 255, 255, 0.7) calc(66.66% + 0.5px), transparent calc(66.66% + 0.5px)),
+    linear-gradient(to bottom, transparent calc(33.33% - 0.5px), rgba(255, 255, 255, 0.7) calc(33.33% - 0.5px), rgba(255, 255, 255, 0.7) calc(33.33% + 0.5px), transparent calc(33.33% + 0.5px), transparent calc(66.66% - 0.5px), rgba(255, 255, 255, 0.7) calc(66.66% - 0.5px), rgba(255, 255, 255, 0.7) calc(66.66% + 0.5px), transparent calc(66.66% + 0.5px));
+`;
+
+// Rendered in a portal like the insert-picture menu, since the picture frame clips its content
+const ControlsPopover = styled.div`
+  position: fixed;
+  width: 220px;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 8px;
+  background: white;
+  border-radius: 8px;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 8px 16px 0px rgba(0, 0, 0, 0.14);
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  font-size: 12px;
+  color: #424242;
+  z-index: 1000;
+  cursor: default;
+`;
+
+const ControlRow = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+
+  & > input {
+    flex: 1;
+  }
+`;
+
+const PresetRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px;
+`;
+
+const PresetButton = styled.button<{ $selected: boolean }>`
+  padding: 2px 6px;
+  border-radius: 4px;
+  border: 1px solid ${props => props.$selected ? '#3498db' : '#D1D1D1'};
+  background: ${props => props.$selected ? '#EBF5FB' : 'white'};
+  font-family: inherit;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 1px;
+  }
+`;
+
+const ActionRow = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 4px;
+`;
+
+const ActionButton = styled.button<{ $primary?: boolean }>`
+  padding: 4px 10px;
+  border-radius: 4px;
+  border: 1px solid ${props => props.$primary ? '#3498db' : '#D1D1D1'};
+  background: ${props => props.$primary ? '#3498db' : 'white'};
+  color: ${props => props.$primary ? 'white' : '#242424'};
+  font-family: inherit;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 1px;
+  }
+`;
+
+interface ImageCropEditorProps {
+  // Undefined while a stored picture is still loading
+  src?: string;
+  alt: string;
+  crop?: ImageCrop;
+  // Called with the draft on every change so the card can preview its frame
+  onPreview: (crop: ImageCrop) => void;
+  onDone: (crop: ImageCrop) => void;
+  onCancel: () => void;
+}
+
+/**
+ * ImageCropEditor - In-place crop mode for a card picture
+ *
+ * Drag (or use the arrow keys) to move the focal point, the slider to zoom and
+ * the presets to change the frame's aspect ratio. Enter or Done saves, Escape
+ * or Cancel restores the previous crop.
+ */
+const ImageCropEditor: React.FC<ImageCropEditorProps> = ({ src, alt, crop, onPreview, onDone, onCancel }) => {
+  const [draft, setDraft] = useState<ImageCrop>(crop ?? DEFAULT_IMAGE_CROP);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<{ pointerId: number; x: number; y: number; start: ImageCrop } | null>(null);
+  const [surfaceRect, setSurfaceRect] = useState<DOMRect | null>(null);
+
+  useEffect(() => {
+    surfaceRef.current?.focus();
+  }, []);
+
+  // Follow the frame as aspect presets change its height
+  useLayoutEffect(() => {
+    setSurfaceRect(surfaceRef.current?.getBoundingClientRect() ?? null);
+  }, [draft.aspect]);
+
+  const update = (next: ImageCrop) => {
+    const clamped = clampImageCrop(next);
+    setDraft(clamped);
+    onPreview(clamped);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    panRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, start: draft };
+  };
+
+  // Dragging moves the picture with the pointer, so the focal point moves the other way
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    if (!pan || pan.pointerId !== event.pointerId || !rect) return;
+    const deltaX = (event.clientX - pan.x) / (rect.width * pan.start.zoom);
+    const deltaY = (event.clientY - pan.y) / (rect.height * pan.start.zoom);
+    update({ ...pan.start, focalX: pan.start.focalX - deltaX, focalY: pan.start.focalY - deltaY });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (panRef.current?.pointerId === event.pointerId) {
+      panRef.current = null;
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Keep card shortcuts (delete, move, undo, ...) from firing while cropping
+    event.stopPropagation();
+    const step = event.shiftKey ? KEYBOARD_PAN_STEP * 2 : KEYBOARD_PAN_STEP;
+    switch (event.key) {
+      case 'ArrowLeft':
+        update({ ...draft, focalX: draft.focalX - step });
+        break;
+      case 'ArrowRight':
+        update({ ...draft, focalX: draft.focalX + step });
+        break;
+      case 'ArrowUp':
+        update({ ...draft, focalY: draft.focalY - step });
+        break;
+      case 'ArrowDown':
+        update({ ...draft, focalY: draft.focalY + step });
+        break;
+      case '+':
+      case '=':
+        update({ ...draft, zoom: draft.zoom + 0.1 });
+        break;
+      case '-':
+        update({ ...draft, zoom: draft.zoom - 0.1 });
+        break;
+      case 'Enter':
+        onDone(draft);
+        break;
+      case 'Escape':
+        onCancel();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  // Slider and buttons keep their own arrow/Enter behavior; only Escape is shared
+  const handleControlsKeyDown = (event: React.KeyboardEvent) => {
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <>
+      <CropSurface
+        ref={surfaceRef}
+        tabIndex={0}
+        role="application"
+        aria-label="Crop picture. Drag or use arrow keys to reposition, plus and minus to zoom, Enter to save, Escape to cancel"
+        data-native-undo
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <img src={src} alt={alt} draggable={false} style={getImageCropStyle(draft)} />
+        <CropGrid aria-hidden="true" />
+      </CropSurface>
+
+      {surfaceRect && ReactDOM.createPortal(
+        <ControlsPopover
+          style={{ left: surfaceRect.left + surfaceRect.width / 2 - 110, top: surfaceRect.bottom + 6 }}
+          role="group"
+          aria-label="Crop options"
+          data-native-undo
+          onPointerDown={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={handleControlsKeyDown}
+        >
+          <ControlRow>
+            Zoom
+            <input
+              type="range"
+              min={MIN_ZOOM}
+              max={MAX_ZOOM}
+              step={0.05}
+              value={draft.zoom}
+              onChange={(e) => update({ ...draft, zoom: Number(e.target.value) })}
+            />
+          </ControlRow>
+          <PresetRow role="radiogroup" aria-label="Aspect ratio">
+            {ASPECT_PRESETS.map(preset => (
+              <PresetButton
+                key={preset.label}
+                role="radio"
+                aria-checked={draft.aspect === preset.aspect}
+                $selected={draft.aspect === preset.aspect}
+                onClick={() => update({ ...draft, aspect: preset.aspect })}
+              >
+                {preset.label}
+              </PresetButton>
+            ))}
+          </PresetRow>
+          <ActionRow>
+            <ActionButton onClick={() => update(DEFAULT_IMAGE_CROP)}>Reset</ActionButton>
+            <ActionButton onClick={onCancel}>Cancel</ActionButton>
+            <ActionButton $primary onClick={() => onDone(draft)}>Done</ActionButton>
+          </ActionRow>
+        </ControlsPopover>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export { ImageCropEditor };
+export default ImageCropEditor;
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { usePopoverDismiss } from '../hooks/usePopoverDismiss';
+import { DocumentNode, DocumentStyles, LayoutType, createDocument } from '../document/smartArtDocument';
+import { getLayouts } from '../layouts';
+import { buildScene } from '../export/scene';
+import { renderSceneToSVG } from '../export/exportSVG';
+
+const GalleryPopover = styled.div`
+  position: absolute;
+  top: calc(100% + 6px);
+  left: 0;
+  background: white;
+  border-radius: 8px;
+  padding: 8px;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 8px 16px 0px rgba(0, 0, 0, 0.14);
+  z-index: 950;
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  cursor: default;
+`;
+
+const SectionLabel = styled.div`
+  font-size: 12px;
+  font-weight: 600;
+  color: #616161;
+  padding: 6px 4px 4px 4px;
+`;
+
+const LayoutGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(2, 112px);
+  gap: 4px;
+`;
+
+const LayoutOption = styled.button<{ $selected: boolean }>`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 4px;
+  padding: 6px;
+  border-radius: 4px;
+  border: 1px solid ${props => props.$selected ? '#3498db' : 'transparent'};
+  background: ${props => props.$selected ? '#EBF5FB' : 'none'};
+  font-family: inherit;
+  font-size: 12px;
+  color: #242424;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: #f5f5f5;
+    outline: none;
+  }
+`;
+
+const Thumbnail = styled.div`
+  width: 100px;
+  height: 64px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  border: 1px solid #E0E0E0;
+  border-radius: 2px;
+  background: white;
+
+  & > img {
+    max-width: 100%;
+    max-height: 100%;
+  }
+`;
+
+interface LayoutGalleryProps {
+  nodes: DocumentNode[];
+  styles: DocumentStyles;
+  selectedId: LayoutType;
+  onSelect: (layout: LayoutType) => void;
+  onClose: () => void;
+}
+
+/**
+ * LayoutGallery - Popover for showing the diagram in another layout
+ *
+ * Each option is a thumbnail of the current nodes drawn in that layout, rebuilt
+ * whenever the nodes, colors or arrangement change. Pictures are left as placeholders
+ * so the thumbnails don't have to load them.
+ */
+const LayoutGallery: React.FC<LayoutGalleryProps> = ({ nodes, styles, selectedId, onSelect, onClose }) => {
+  const popoverRef = usePopoverDismiss(onClose);
+  const [thumbnails, setThumbnails] = useState<Partial<Record<LayoutType, string>>>({});
+  const layouts = getLayouts();
+  const { colorScheme, orientation, columns } = styles;
+
+  useEffect(() => {
+    let cancelled = false;
+    const contentNodes = nodes.map(({ image: _image, imageCrop: _imageCrop, stashed: _stashed, ...node }) => node);
+    const thumbnailStyles: DocumentStyles = { colorScheme, orientation, columns };
+
+    Promise.all(getLayouts().map(async layout => {
+      const scene = await buildScene(createDocument(layout.id, contentNodes, { styles: thumbnailStyles }));
+      return [layout.id, `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderSceneToSVG(scene))}`] as const;
+    })).then(entries => {
+      if (!cancelled) setThumbnails(Object.fromEntries(entries));
+    }).catch((error: unknown) => {
+      console.warn('Could not draw layout thumbnails:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [nodes, colorScheme, orientation, columns]);
+
+  return (
+    <GalleryPopover
+      ref={popoverRef}
+      role="radiogroup"
+      aria-label="Layout"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <SectionLabel>Layout</SectionLabel>
+      <LayoutGrid>
+        {layouts.map(layout => (
+          <LayoutOption
+            key={layout.id}
+            role="radio"
+            aria-checked={layout.id === selectedId}
+            $selected={layout.id === selectedId}
+            onClick={() => onSelect(layout.id)}
+          >
+            <Thumbnail aria-hidden="true">
+              {thumbnails[layout.id] && <img src={thumbnails[layout.id]} alt="" />}
+            </Thumbnail>
+            {layout.name}
+          </LayoutOption>
+        ))}
+      </LayoutGrid>
+    </GalleryPopover>
+  );
+};
+
+export { LayoutGallery };
+export default LayoutGallery;
@@ -1,8 +1,70 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, forwardRef, useImperativeHandle, useId } from 'react';
 import ReactDOM from 'react-dom';
 import styled from 'styled-components';
-// Import the CycleSmartArt component
-import { CycleSmartArt } from './CycleSmartArt';
+import { useControllableNodes } from '../hooks/useControllableNodes';
+import { useNodesHistory, getHistoryShortcut, SmartArtHandle } from '../hooks/useNodesHistory';
+import { useAnnouncer } from '../hooks/useAnnouncer';
+import { useDragReorder } from '../hooks/useDragReorder';
+import { useDragReparent } from '../hooks/useDragReparent';
+import { useResizeDrag, DiagramSize, ResizeHandlePosition } from '../hooks/useResizeDrag';
+import { ColorSchemePicker, ColorSwatchPicker } from './ColorSchemePicker';
+import { TextPanel } from './TextPanel';
+import { CommentsPanel } from './CommentsPanel';
+import { CommentAction, CommentAnchor, CommentThread, applyCommentAction, countOpenThreads } from '../utils/comments';
+import commentBaseIcon from '../assets/icons/comment-base.svg';
+import { DEFAULT_COLOR_SCHEME_ID, getColorScheme, getNodeColor, getSwatchColors } from '../utils/colorSchemes';
+import { VisuallyHidden } from './VisuallyHidden';
+import { ImageAttribution, ImageProvider, ImageResult, isAbortError } from '../imageProviders/imageProvider';
+import { useImageProvider } from '../imageProviders/ImageProviderContext';
+import { StockCatalogSource, StockImage, getDefaultStockCatalog } from '../imageProviders/stockCatalog';
+import { StockImagesDialog, formatAttribution } from './StockImagesDialog';
+import { ImageCropEditor } from './ImageCropEditor';
+import { ImageCrop, getImageCropStyle, isDefaultImageCrop } from '../utils/imageCrop';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  getImageSources,
+  hasDroppableImage,
+  loadImage,
+  partitionImageFiles,
+} from '../utils/imageFiles';
+import { downscaleImage } from '../utils/downscaleImage';
+import { AssetStore, getNodeAssetRefs } from '../assetStores/assetStore';
+import { getDefaultAssetStore } from '../assetStores/defaultAssetStore';
+import { useResolvedImages } from '../hooks/useResolvedImages';
+import { useAvailableWidth } from '../hooks/useAvailableWidth';
+import { CONTAINER_PADDING } from '../utils/listLayout';
+import {
+  DocumentMetadata,
+  DocumentNode,
+  DocumentStyles,
+  LayoutType,
+  ListOrientation,
+  SmartArtDocument,
+  SmartArtDocumentHandle,
+  StashedNodeFields,
+  createDocument,
+} from '../document/smartArtDocument';
+import { SmartArtLayout, convertNodesForLayout, getLayout } from '../layouts';
+import { LayoutGallery } from './LayoutGallery';
+import { ExportMenu, ExportSettings } from './ExportMenu';
+import { exportSVG } from '../export/exportSVG';
+import { exportRaster } from '../export/exportRaster';
+import { exportPPTX } from '../export/exportPPTX';
+import { downloadFile } from '../export/download';
+import { markdownToNodes, nodesToMarkdown } from '../utils/markdownOutline';
+import {
+  getChildren,
+  getDescendantIds,
+  getParentMap,
+  getTreeNeighbour,
+  getVisibleNodes,
+  indentNode,
+  moveAmongSiblings,
+  outdentNode,
+  removeTreeNode,
+  reparentNode,
+  withParent,
+} from '../utils/nodeTree';
 
 // Types for the component props
 interface Node {
@@ -10,12 +72,26 @@ interface Node {
   title: string;
   body: string;
   image: string;
+  // Overrides the color scheme for this card
+  color?: string;
+  // Credit for stock or searched pictures
+  imageAttribution?: ImageAttribution;
+  // Focal point, zoom and frame aspect of the picture
+  imageCrop?: ImageCrop;
+  // Picture fields kept while the diagram is in a layout without pictures
+  stashed?: StashedNodeFields;
+  // Parent card in the hierarchy layout, and whether its children are hidden
+  parentId?: number;
+  collapsed?: boolean;
 }
 
 /**
- * ListSmartArt - A SmartArt component that displays a horizontal list of nodes/cards
+ * SmartArt - The diagram editor, shared by every layout
  * 
- * This component renders a series of cards in a horizontal layout, where each card contains:
+ * `layout` picks an arrangement from the layout registry (`list` by default,
+ * `cycle`, or `hierarchy`). The layout decides where the nodes go and what is drawn around them;
+ * everything else below works the same in every layout. In the list layout each
+ * card contains:
  * - An image (with AI-generation capabilities)
  * - A title (editable)
  * - A description/body text (editable)
@@ -25,28 +101,119 @@ interface Node {
  * - AI-powered image generation based on title
  * - Editable text fields
  * - Add/remove card functionality
+ * - Undo/redo of every change (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z)
+ * - Keyboard navigation: arrows/Home/End select cards, Enter or F2 edits the title,
+ *   Tab moves to the body, Escape steps back out, Alt+Arrow reorders, Delete removes,
+ *   Ctrl/Cmd+Enter inserts a card after (add Shift to insert before)
+ * - Drag-and-drop reordering with the pointer (where the layout allows it), or Space to pick up a card,
+ *   arrows to choose a position and Space again to drop it
+ * - In the hierarchy layout: arrows follow the tree, Alt+Up/Down moves a card up or down
+ *   a level, Alt+Left/Right among its siblings, dragging a card onto another makes it
+ *   that card's child, and branches collapse from the toggle under their parent
+ * - Resize handles that scale cards, images and text (Shift keeps the aspect ratio)
+ * - Adapts to the width of its container until it is resized
+ * - Color schemes from the Color toolbar button, with per-card overrides
+ * - Text Panel outline editor kept in two-way sync with the cards
+ * - Threaded comments on the diagram or individual cards, with resolve/reopen
  * - Interactive hover states and focus management
  * 
+ * Works in two modes:
+ * - Controlled: pass `nodes` together with `onNodesChange`; every edit, add, move,
+ *   delete and image change is reported to the parent, which owns the array.
+ *   Passing back the array it received keeps the undo history; any other array
+ *   (loading another record, say) starts a fresh one.
+ * - Uncontrolled: pass `defaultNodes` (or `nodes` without `onNodesChange`) and the
+ *   component manages its own copy. `onNodesChange` is still called if provided.
+ *
+ * @param layout - Id of the registered layout (controlled, with `onLayoutChange`); defaults to `list`
+ * @param defaultLayout - Initial layout when the component manages its own
+ * @param onLayoutChange - Called with the layout picked from the Layout gallery; the
+ *   converted nodes arrive through `onNodesChange` as usual
+ * @param orientation - How the list layout arranges its cards: `auto` (the default) shrinks,
+ *   wraps and stacks them to fit the page; `horizontal`, `vertical`, `grid`, or `wrap`
+ *   to start new rows when the page runs out of room. Without it, the orientation of
+ *   the last loaded document is used.
+ * @param columns - Cards per row in the `grid` orientation (3 by default)
  * @param nodes - Array of node objects containing id, title, body and image properties
+ * @param defaultNodes - Initial nodes when the component manages its own state
+ * @param onNodesChange - Called with the full updated array after every change
+ * @param onHistoryChange - Called whenever undo/redo availability changes
+ * @param size - Diagram size set with the resize handles (controlled, with `onSizeChange`)
+ * @param defaultSize - Initial size when the component manages its own size
+ * @param onSizeChange - Called with the new size when a resize drag ends
+ * @param colorScheme - Id of the color scheme (controlled, with `onColorSchemeChange`)
+ * @param defaultColorScheme - Initial color scheme id when the component manages its own
+ * @param onColorSchemeChange - Called with the scheme id picked from the Color button
+ * @param comments - Comment threads (controlled, with `onCommentsChange`)
+ * @param defaultComments - Initial threads when the component manages its own
+ * @param onCommentsChange - Called with the full thread list after every comment change
+ * @param onCommentAction - Called with each individual create/reply/resolve/reopen/delete,
+ *   for hosts that persist comments one action at a time
+ * @param currentUser - Author name recorded on new comments
+ * @param imageProvider - Searches for and generates card pictures; defaults to the
+ *   provider from `ImageProviderScope`, or one configured from the environment
+ * @param stockCatalog - Catalog behind the Stock Images browser; defaults to the bundled catalog
+ * @param assetStore - Where local and generated pictures are kept; nodes store `asset:`
+ *   references (or the host's URLs) instead of object URLs. Defaults to IndexedDB.
+ *
+ * A ref exposes `canUndo`, `canRedo`, `undo()` and `redo()` to the host.
  */
 interface SmartArtProps {
-  nodes: Node[];
+  layout?: LayoutType;
+  defaultLayout?: LayoutType;
+  onLayoutChange?: (layout: LayoutType) => void;
+  orientation?: ListOrientation;
+  columns?: number;
+  nodes?: Node[];
+  defaultNodes?: Node[];
+  onNodesChange?: (nodes: Node[]) => void;
+  onHistoryChange?: (state: { canUndo: boolean; canRedo: boolean }) => void;
+  size?: DiagramSize;
+  defaultSize?: DiagramSize;
+  onSizeChange?: (size: DiagramSize) => void;
+  colorScheme?: string;
+  defaultColorScheme?: string;
+  onColorSchemeChange?: (colorScheme: string) => void;
+  comments?: CommentThread[];
+  defaultComments?: CommentThread[];
+  onCommentsChange?: (comments: CommentThread[]) => void;
+  onCommentAction?: (action: CommentAction) => void;
+  currentUser?: string;
+  imageProvider?: ImageProvider;
+  stockCatalog?: StockCatalogSource;
+  assetStore?: AssetStore;
 }
 
+// Every other card field rides along, so switching to a layout with pictures or
+// parents and back loses nothing
+interface CycleNode extends Omit<Node, 'body' | 'image'> {
+  description: string;
+  image?: string;
+}
+
+/**
+ * Same contract as `SmartArt` with the cycle layout, for hosts that store steps as
+ * `CycleNode`s: `nodes`, `defaultNodes` and `onNodesChange` use `description` for
+ * the step text instead of `body`.
+ */
+interface CycleSmartArtProps extends Omit<SmartArtProps, 'layout' | 'defaultLayout' | 'nodes' | 'defaultNodes' | 'onNodesChange'> {
+  nodes?: CycleNode[];
+  defaultNodes?: CycleNode[];
+  onNodesChange?: (nodes: CycleNode[]) => void;
+}
+
+const RESIZE_HANDLE_POSITIONS: ResizeHandlePosition[] = [
+  'top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'
+];
+
 // Styled components for the SmartArt
-const SmartArtContainer = styled.div<{ $isActive?: boolean; $nodeCount?: number; $menuOpen?: boolean }>`
+const SmartArtContainer = styled.div<{ $isActive?: boolean; $contentWidth: number; $menuOpen?: boolean; $dropActive?: boolean }>`
   display: flex;
   justify-content: center;
   padding: 20px;
   pointer-events: ${props => props.$menuOpen ? 'none' : 'auto'};
-  width: ${props => {
-    const nodeCount = props.$nodeCount || 1; // Default to 1 if not provided
-    const nodeWidth = 200; // Width of each node
-    const nodeGap = 24; // Gap between nodes
-    const padding = 40; // 20px * 2 for container padding
-    // Calculate width based on number of nodes
-    return (nodeCount * nodeWidth) + ((nodeCount - 1) * nodeGap) + padding;
-  }}px;
+  /* Width of the arranged nodes from the layout, plus the container padding on both sides */
+  width: ${props => props.$contentWidth + CONTAINER_PADDING * 2}px;
   margin: 0 auto;
   border: 1px solid transparent;
   border-radius: 8px;
@@ -55,33 +222,146 @@ const SmartArtContainer = styled.div<{ $isActive?: boolean; $nodeCount?: number;
   &:hover {
     border: ${props => props.$isActive ? '1px solid transparent' : '1px dashed #3498db'};
   }
+  
+  &:focus {
+    outline: none;
+  }
+  
+  &:focus-visible {
+    border: 1px dashed #3498db;
+  }
+
+  ${props => props.$dropActive ? `
+    &, &:hover {
+      border: 2px dashed #3498db;
+      background: rgba(52, 152, 219, 0.04);
+    }
+  ` : ''}
 `;
 
-const NodesRow = styled.div`
+// Message for pictures that couldn't be inserted
+const ImageErrorNotice = styled.div`
+  position: absolute;
+  bottom: calc(100% + 8px);
+  left: 50%;
+  transform: translateX(-50%);
+  max-width: 480px;
   display: flex;
-  gap: 24px;
+  align-items: flex-start;
+  gap: 8px;
+  padding: 8px 8px 8px 12px;
+  border-radius: 6px;
+  background: #FDF3F4;
+  border: 1px solid #EEACB2;
+  color: #751D1F;
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  font-size: 13px;
+  text-align: left;
+  z-index: 30;
+
+  & > button {
+    border: none;
+    background: none;
+    color: inherit;
+    font-size: 16px;
+    line-height: 1;
+    cursor: pointer;
+  }
+`;
+
+// Nodes as the layout arranged them; add buttons are positioned relative to this box
+const DiagramCanvas = styled.div`
   position: relative;
 `;
 
-const NodeContainer = styled.div<{ $isPressed?: boolean }>`
+// Open-comment badge in the corner of a card
+const CommentBadge = styled.button`
+  position: absolute;
+  top: -10px;
+  right: -10px;
+  height: 22px;
+  min-width: 22px;
+  display: flex;
+  align-items: center;
+  gap: 2px;
+  padding: 0 5px;
+  border: 1px solid #e0e0e0;
+  border-radius: 11px;
+  background: white;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 1px 2px 0px rgba(0, 0, 0, 0.14);
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  font-size: 11px;
+  color: #242424;
+  cursor: pointer;
+  z-index: 15;
+
+  & > img {
+    width: 12px;
+    height: 12px;
+  }
+
+  &:hover, &:focus-visible {
+    border-color: #37A660;
+    outline: none;
+  }
+`;
+
+// Insertion marker shown between cards while dragging; the hook positions and sizes it
+const DropIndicator = styled.div`
+  position: absolute;
+  background: #3498db;
+  border-radius: 1px;
+  pointer-events: none;
+  z-index: 30;
+`;
+
+const NodeContainer = styled.div<{ $isPressed?: boolean; $isDragging?: boolean; $isLifted?: boolean; $isDropTarget?: boolean; $accentColor?: string; $stacked?: boolean }>`
   display: flex;
   flex-direction: column;
-  width: 200px;
-  min-height: 304px;
+  width: calc(200px * var(--smartart-scale, 1));
+  min-height: var(--smartart-card-min-height, 304px);
+  /* Layouts that line cards up by their edges give them a fixed height */
+  height: var(--smartart-card-height, auto);
   position: relative;
   border-radius: 4px;
-  border: ${props => props.$isPressed ? '1px solid #DC816A' : '1px solid transparent'};
+  border: ${props => {
+    if (props.$isPressed) return '1px solid #DC816A';
+    return props.$accentColor ? `1px solid ${props.$accentColor}` : '1px solid transparent';
+  }};
   padding: 8px;
   box-sizing: border-box;
-  transition: transform 0.2s ease, border 0.2s ease;
+  transition: ${props => props.$isDragging ? 'none' : 'transform 0.2s ease, border 0.2s ease'};
+  /* Touch drags along the cards reorder them; drags across still scroll the page */
+  touch-action: ${props => props.$stacked ? 'pan-x' : 'pan-y'};
+  opacity: ${props => props.$isDragging ? 0.7 : 1};
+  z-index: ${props => props.$isDragging ? 40 : 'auto'};
+  cursor: ${props => props.$isDragging ? 'grabbing' : 'auto'};
+  ${props => props.$isLifted && `
+    border: 1px dashed #3498db;
+  `}
+  ${props => props.$isDropTarget && `
+    outline: 2px dashed #3498db;
+    outline-offset: 2px;
+  `}
   
   &:hover {
     transform: translateY(-2px);
   }
+  
+  &:focus {
+    outline: none;
+  }
+  
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 2px;
+  }
 `;
 
-const ImageContainer = styled.div<{ $isHovered?: boolean }>`
-  height: 150px;
+const ImageContainer = styled.div<{ $isHovered?: boolean; $aspect?: number; $dropTarget?: boolean }>`
+  height: var(--smartart-image-height, 150px);
+  ${props => props.$aspect ? `height: auto; aspect-ratio: ${props.$aspect};` : ''}
+  ${props => props.$dropTarget ? 'outline: 2px dashed #3498db; outline-offset: 2px;' : ''}
   background-color: #F0F0F0;
   border-radius: 4px;
   overflow: hidden;
@@ -115,6 +395,12 @@ const InsertPictureOverlay = styled.div<{ $show: boolean }>`
   z-index: 850; // Above overlay but below menu
   /* Even when parent has pointer-events: none, this should still receive events */
   pointer-events: ${props => props.$show ? 'auto' : 'none'};
+  
+  /* Keep the button visible for keyboard users */
+  &:focus-within {
+    opacity: 1;
+    pointer-events: auto;
+  }
 `;
 
 const InsertButton = styled.button`
@@ -172,18 +458,21 @@ const InsertIcon = styled.div`
 `;
 
 const TextContainer = styled.div<{ $isPressed?: boolean }>`
-  text-align: left;
+  text-align: var(--smartart-text-align, left);
   position: relative;
+  /* Text that doesn't fit a fixed-height card is cut off */
+  min-height: 0;
+  overflow: var(--smartart-text-overflow, visible);
 `;
 
-const Title = styled.div<{ $isPressed?: boolean; $isEditing?: boolean }>`
+const Title = styled.div<{ $isPressed?: boolean; $isEditing?: boolean; $accentColor?: string }>`
   margin: 0 0 8px 0;
-  color: ${props => props.$isPressed && props.$isEditing ? '#BDBDBD' : '#242424'};
+  color: ${props => props.$isPressed && props.$isEditing ? '#BDBDBD' : (props.$accentColor || '#242424')};
   font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
-  font-size: 16px;
-  font-weight: 700;
+  font-size: calc(var(--smartart-title-size, 16px) * var(--smartart-scale, 1));
+  font-weight: var(--smartart-title-weight, 700);
   line-height: 1.375;
-  text-align: left;
+  text-align: inherit;
   position: relative;
   cursor: text;
   user-select: none;
@@ -202,7 +491,7 @@ const Title = styled.div<{ $isPressed?: boolean; $isEditing?: boolean }>`
       left: 4px;
       top: 2px;
       width: 1px;
-      height: 22px;
+      height: calc(22px * var(--smartart-scale, 1));
       background: black;
       animation: blink 1s infinite;
     }
@@ -214,15 +503,16 @@ const Title = styled.div<{ $isPressed?: boolean; $isEditing?: boolean }>`
   `}
 `;
 
-const TitleInput = styled.input<{ $isPressed?: boolean }>`
+const TitleInput = styled.input<{ $isPressed?: boolean; $accentColor?: string }>`
   background: transparent;
   border: none;
   outline: none;
   font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
-  font-size: 16px;
-  font-weight: 700;
+  font-size: calc(var(--smartart-title-size, 16px) * var(--smartart-scale, 1));
+  font-weight: var(--smartart-title-weight, 700);
   line-height: 1.375;
-  color: #242424;
+  text-align: inherit;
+  color: ${props => props.$accentColor || '#242424'};
   width: 100%;
   display: ${props => props.$isPressed ? 'block' : 'none'};
   border-radius: 2px;
@@ -233,12 +523,12 @@ const TitleInput = styled.input<{ $isPressed?: boolean }>`
 
 const Body = styled.div<{ $isPressed?: boolean }>`
   margin: -2px -4px;
-  color: #000000;
+  color: var(--smartart-body-color, #000000);
   font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
-  font-size: 14px;
+  font-size: calc(14px * var(--smartart-scale, 1));
   font-weight: 400;
   line-height: 1.429;
-  text-align: left;
+  text-align: inherit;
   cursor: text;
   user-select: none;
   border-radius: 2px;
@@ -254,10 +544,11 @@ const BodyInput = styled.textarea<{ $isPressed?: boolean }>`
   border: none;
   outline: none;
   font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
-  font-size: 14px;
+  font-size: calc(14px * var(--smartart-scale, 1));
   font-weight: 400;
   line-height: 1.429;
-  color: #000000;
+  text-align: inherit;
+  color: var(--smartart-body-color, #000000);
   width: 100%;
   min-height: auto;
   max-height: none;
@@ -303,6 +594,12 @@ const ToolbarButton = styled.button`
   &:hover {
     background: #f5f5f5;
   }
+  
+  &:disabled {
+    opacity: 0.4;
+    cursor: default;
+    background: none;
+  }
 `;
 
 const ToolbarIcon = styled.div<{ icon: 'arrow-left' | 'arrow-right' | 'delete' }>`
@@ -377,19 +674,25 @@ const ContainerFloatingToolbar = styled.div<{ $show: boolean }>`
 `;
 
 // Container toolbar icon component
-const ContainerToolbarIcon = styled.div<{ icon: 'copilot' | 'color' | 'text-panel' | 'comment' }>`
+const ContainerToolbarIcon = styled.div<{ icon: 'copilot' | 'layout' | 'color' | 'text-panel' | 'comment' | 'crop' | 'export' }>`
   width: 20px;
   height: 20px;
   background-image: ${props => {
     switch (props.icon) {
       case 'copilot':
         return `url("data:image/svg+xml,%3Csvg width='19' height='16' viewBox='0 0 19 16' fill='none' xmlns='http://www.w3.org/2000/svg'%3E%3Cpath d='M4.9282 0H11.14C12.1934 0 13.1209 0.693927 13.4183 1.70449L13.8874 3.29881C14.0482 3.84522 14.5272 4.23174 15.0866 4.28042H15.3756C16.2632 4.28042 16.9483 4.53205 17.4027 5.04801C17.8453 5.5505 17.9916 6.218 18.0013 6.88665C18.0204 8.20751 17.5037 9.84836 17.092 11.1548C16.7338 12.2916 16.2735 13.4721 15.6557 14.3769C15.0405 15.2779 14.2005 15.9996 13.0736 15.9996H6.87588L6.86799 15.9996H6.86168C5.80827 15.9996 4.88075 15.3056 4.58341 14.2951L4.1143 12.7008C3.9536 12.1546 3.47493 11.7682 2.91585 11.7192H2.62618C1.73863 11.7192 1.05349 11.4676 0.599088 10.9516C0.156543 10.4491 0.0101817 9.78164 0.00051422 9.11298C-0.0185829 7.79212 0.498085 6.15127 0.909787 4.84487C1.26806 3.70803 1.7283 2.52756 2.3461 1.62278C2.96134 0.721738 3.80131 0 4.9282 0ZM1.86349 5.14543C1.43603 6.50184 0.984076 7.97304 1.00035 9.09852C1.00837 9.65304 1.13069 10.0423 1.3495 10.2907C1.55646 10.5257 1.92535 10.7193 2.62618 10.7193H5.25327C5.8625 10.7193 6.39922 10.3189 6.57318 9.7346C7.04275 8.15748 7.83892 5.49596 8.46732 3.45913L8.50031 3.35212C8.64945 2.86823 8.79377 2.40001 8.94918 1.98463C9.08157 1.63078 9.22975 1.29327 9.41044 0.999939H4.9282C4.28431 0.999939 3.70766 1.402 3.17189 2.18664C2.63868 2.96756 2.21353 4.03468 1.86349 5.14543ZM4.73563 11.7192C4.88309 11.928 4.99845 12.1632 5.07358 12.4185L5.54268 14.0128C5.71483 14.5979 6.25181 14.9996 6.86168 14.9996H6.88782C7.24677 14.996 7.49055 14.8266 7.64166 14.6217C7.80878 14.3951 7.96133 14.0783 8.11611 13.6646C8.2607 13.2781 8.39662 12.8373 8.54874 12.3439L8.579 12.2457C8.64401 12.035 8.71082 11.8176 8.7789 11.5953C8.54394 11.6726 8.29421 11.714 8.03709 11.714H5.41187C5.35937 11.7174 5.30648 11.7192 5.25327 11.7192H4.73563ZM7.19453 10.714H8.03709C8.5901 10.714 9.0841 10.3835 9.29945 9.884C9.73677 8.43816 10.1701 6.98802 10.4703 5.97969C10.5457 5.72633 10.6607 5.49296 10.8073 5.28556H9.96461C9.412 5.28556 8.91831 5.61558 8.70271 6.11449C8.26528 7.56072 7.83184 9.01135 7.53155 10.0199C7.45612 10.2733 7.34113 10.5066 7.19453 10.714ZM9.22296 4.40422C9.45786 4.32696 9.70755 4.28562 9.96461 4.28562H12.5909C12.6431 4.28217 12.6957 4.28042 12.7485 4.28042H13.2661C13.1186 4.07158 13.0033 3.83643 12.9281 3.58106L12.459 1.98675C12.2869 1.40168 11.7499 0.999939 11.14 0.999939H11.1252C10.7601 1.00017 10.5128 1.17092 10.3602 1.37795C10.193 1.60457 10.0405 1.92134 9.88571 2.33503C9.74112 2.7215 9.6052 3.16237 9.45308 3.65578L9.42282 3.75392C9.35782 3.96459 9.29102 4.18199 9.22296 4.40422ZM16.1383 10.8542C16.5658 9.4978 17.0177 8.0266 17.0015 6.90111C16.9935 6.34659 16.8711 5.95734 16.6523 5.70889C16.4454 5.47389 16.0765 5.28036 15.3756 5.28036H12.7485C12.1393 5.28036 11.6026 5.68074 11.4286 6.26503C10.9591 7.84215 10.1629 10.5037 9.5345 12.5405L9.50151 12.6475C9.35237 13.1314 9.20806 13.5996 9.05265 14.015C8.92025 14.3689 8.77207 14.7064 8.59138 14.9997H13.0736C13.7175 14.9997 14.2942 14.5976 14.8299 13.813C15.3631 13.0321 15.7883 11.965 16.1383 10.8542Z' fill='%23242424'/%3E%3C/svg%3E")`;
+      case 'layout':
+        return `url("data:image/svg+xml,%3Csvg width='16' height='16' viewBox='0 0 16 16' fill='none' xmlns='http://www.w3.org/2000/svg'%3E%3Crect x='1.5' y='1.5' width='5' height='5' rx='1' stroke='%23242424'/%3E%3Crect x='9.5' y='1.5' width='5' height='5' rx='1' stroke='%23242424'/%3E%3Crect x='1.5' y='9.5' width='13' height='5' rx='1' stroke='%23242424'/%3E%3C/svg%3E")`;
       case 'color':
         return `url("data:image/svg+xml,%3Csvg width='17' height='17' viewBox='0 0 17 17' fill='none' xmlns='http://www.w3.org/2000/svg'%3E%3Cpath d='M8.11335 4.65233C8.54158 4.65233 8.88874 4.30518 8.88874 3.87695C8.88874 3.44871 8.54158 3.10156 8.11335 3.10156C7.68511 3.10156 7.33796 3.44871 7.33796 3.87695C7.33796 4.30518 7.68511 4.65233 8.11335 4.65233ZM11.2149 5.68619C11.6431 5.68619 11.9903 5.33903 11.9903 4.9108C11.9903 4.48256 11.6431 4.13541 11.2149 4.13541C10.7867 4.13541 10.4395 4.48256 10.4395 4.9108C10.4395 5.33903 10.7867 5.68619 11.2149 5.68619ZM13.7995 7.23696C13.7995 7.6652 13.4524 8.01235 13.0241 8.01235C12.5959 8.01235 12.2488 7.6652 12.2488 7.23696C12.2488 6.80873 12.5959 6.46158 13.0241 6.46158C13.4524 6.46158 13.7995 6.80873 13.7995 7.23696ZM13.0241 11.1139C13.4524 11.1139 13.7995 10.7668 13.7995 10.3385C13.7995 9.91028 13.4524 9.56313 13.0241 9.56313C12.5959 9.56313 12.2488 9.91028 12.2488 10.3385C12.2488 10.7668 12.5959 11.1139 13.0241 11.1139ZM11.7318 12.4062C11.7318 12.8345 11.3847 13.1816 10.9564 13.1816C10.5282 13.1816 10.1811 12.8345 10.1811 12.4062C10.1811 11.978 10.5282 11.6308 10.9564 11.6308C11.3847 11.6308 11.7318 11.978 11.7318 12.4062ZM12.1942 1.02526C9.34628 -0.437703 6.45212 -0.297331 3.99865 1.20585C2.74668 1.9729 1.3967 3.5867 0.634479 5.23024C0.251305 6.05647 -0.00330535 6.93189 3.24276e-05 7.74684C0.00342382 8.57487 0.276542 9.36537 0.969805 9.93042C1.60064 10.4446 2.14969 10.7035 2.68119 10.7298C3.21673 10.7562 3.63471 10.5393 3.96166 10.3464C4.03355 10.304 4.10084 10.2631 4.16517 10.224C4.41555 10.0719 4.62102 9.94705 4.87787 9.86565C5.16882 9.77345 5.53717 9.73942 6.07227 9.90293C6.26955 9.9632 6.38845 10.0526 6.47168 10.1554C6.56038 10.265 6.63141 10.4185 6.6844 10.6369C6.73782 10.8571 6.7669 11.1167 6.78862 11.4231C6.79671 11.5372 6.80424 11.6675 6.81213 11.8041C6.8236 12.0028 6.83585 12.2149 6.85174 12.41C6.90821 13.1035 7.02747 13.895 7.44505 14.6142C7.87309 15.3515 8.5834 15.9616 9.72306 16.3512C11.3795 16.9175 12.8929 16.458 14.071 15.5253C15.2356 14.6032 16.0938 13.2086 16.5228 11.8141C17.8823 7.39594 16.3043 3.13664 12.1942 1.02526ZM4.53876 2.0874C6.67302 0.779791 9.18273 0.640567 11.7218 1.94487C15.3475 3.80742 16.7599 7.52811 15.5347 11.51C15.1563 12.7398 14.4031 13.9437 13.4292 14.7147C12.4689 15.4751 11.3168 15.8035 10.0575 15.3729C9.12332 15.0536 8.62685 14.5907 8.33913 14.0951C8.04095 13.5816 7.93548 12.9806 7.88218 12.3261C7.86623 12.1302 7.85622 11.9535 7.84604 11.7739C7.83831 11.6375 7.83048 11.4994 7.81988 11.35C7.79721 11.0302 7.76362 10.7003 7.68911 10.3932C7.61416 10.0843 7.492 9.7727 7.27523 9.50493C7.05299 9.2304 6.75413 9.03023 6.37438 8.9142C5.6491 8.69259 5.0662 8.72144 4.56554 8.88011C4.17776 9.003 3.84367 9.20757 3.5869 9.36481C3.53327 9.39765 3.48301 9.42842 3.43633 9.45596C3.14146 9.62992 2.94775 9.70782 2.73226 9.69716C2.51272 9.6863 2.17138 9.57602 1.62298 9.12904C1.22435 8.80413 1.03632 8.33992 1.03388 7.7426C1.03138 7.13219 1.22623 6.41159 1.57238 5.66521C2.2688 4.16353 3.49687 2.72574 4.53876 2.0874Z' fill='%23242424'/%3E%3C/svg%3E")`;
       case 'text-panel':
         return `url("data:image/svg+xml,%3Csvg width='16' height='13' viewBox='0 0 16 13' fill='none' xmlns='http://www.w3.org/2000/svg'%3E%3Cpath d='M0 3C0 1.34315 1.34315 0 3 0H13C14.6569 0 16 1.34315 16 3V10C16 11.6569 14.6569 13 13 13H3C1.34315 13 0 11.6569 0 10V3ZM6.5 1V12H13C14.1046 12 15 11.1046 15 10V3C15 1.89543 14.1046 1 13 1H6.5ZM5.5 1H3C1.89543 1 1 1.89543 1 3V10C1 11.1046 1.89543 12 3 12H5.5V1Z' fill='%23242424'/%3E%3C/svg%3E")`;
       case 'comment':
         return `url("data:image/svg+xml,%3Csvg width='20' height='20' viewBox='0 0 20 20' fill='none' xmlns='http://www.w3.org/2000/svg'%3E%3Cpath d='M17 4.5C17 6.98528 14.9853 9 12.5 9C10.0147 9 8 6.98528 8 4.5C8 2.01472 10.0147 0 12.5 0C14.9853 0 17 2.01472 17 4.5ZM13 2.5C13 2.22386 12.7761 2 12.5 2C12.2239 2 12 2.22386 12 2.5V4H10.5C10.2239 4 10 4.22386 10 4.5C10 4.77614 10.2239 5 10.5 5H12V6.5C12 6.77614 12.2239 7 12.5 7C12.7761 7 13 6.77614 13 6.5V5H14.5C14.7761 5 15 4.77614 15 4.5C15 4.22386 14.7761 4 14.5 4H13V2.5ZM15 11.2764V9.40029C15.3578 9.21739 15.6929 8.99647 16 8.74284V11.2764C16 12.6935 14.8359 13.8423 13.4 13.8423H8.80999L4.79895 16.8034C4.35668 17.1298 3.73 17.0406 3.39921 16.6042C3.26989 16.4335 3.2 16.2262 3.2 16.0133L3.19937 13.8423H2.6C1.16406 13.8423 0 12.6935 0 11.2764V4.56582C0 3.14876 1.34315 2 3 2H7.59971C7.43777 2.31679 7.30564 2.65136 7.20703 3H2.6C1.70383 3 1 3.71348 1 4.56582V11.2764C1 12.1288 1.70383 12.8423 2.6 12.8423H4.19908L4.2 16L4.20346 15.9997L4.20502 15.9988L8.48086 12.8423H13.4C14.2962 12.8423 15 12.1288 15 11.2764Z' fill='%23424242'/%3E%3Cpath fill-rule='evenodd' clip-rule='evenodd' d='M17 4.5C17 6.98528 14.9853 9 12.5 9C10.0147 9 8 6.98528 8 4.5C8 2.01472 10.0147 0 12.5 0C14.9853 0 17 2.01472 17 4.5ZM12.9091 6.59091L12.9096 4.9091H14.5913C14.817 4.9091 15 4.72594 15 4.50001C15 4.27407 14.817 4.09092 14.5913 4.09092H12.9095L12.9091 2.40909C12.9091 2.18316 12.7259 2 12.5 2C12.2741 2 12.0909 2.18316 12.0909 2.40909L12.0913 4.09092L10.4087 4.09091C10.183 4.09091 10 4.27407 10 4.5C10 4.72593 10.183 4.90909 10.4087 4.90909L12.0914 4.9091L12.0909 6.59091C12.0909 6.81684 12.2741 7 12.5 7C12.7259 7 12.9091 6.81684 12.9091 6.59091Z' fill='%2337A660'/%3E%3C/svg%3E")`;
+      case 'crop':
+        return `url("data:image/svg+xml,%3Csvg width='16' height='16' viewBox='0 0 16 16' fill='none' xmlns='http://www.w3.org/2000/svg'%3E%3Cpath d='M4 0.5C4 0.223858 3.77614 0 3.5 0C3.22386 0 3 0.223858 3 0.5V3H0.5C0.223858 3 0 3.22386 0 3.5C0 3.77614 0.223858 4 0.5 4H3V11C3 12.1046 3.89543 13 5 13H12V15.5C12 15.7761 12.2239 16 12.5 16C12.7761 16 13 15.7761 13 15.5V13H15.5C15.7761 13 16 12.7761 16 12.5C16 12.2239 15.7761 12 15.5 12H5C4.44772 12 4 11.5523 4 11V0.5ZM6 4H11C11.5523 4 12 4.44772 12 5V10H13V5C13 3.89543 12.1046 3 11 3H6V4Z' fill='%23242424'/%3E%3C/svg%3E")`;
+      case 'export':
+        return `url("data:image/svg+xml,%3Csvg width='16' height='16' viewBox='0 0 16 16' fill='none' xmlns='http://www.w3.org/2000/svg'%3E%3Cpath d='M8 0.5C8.27614 0.5 8.5 0.723858 8.5 1V9.79289L11.1464 7.14645C11.3417 6.95118 11.6583 6.95118 11.8536 7.14645C12.0488 7.34171 12.0488 7.65829 11.8536 7.85355L8.35355 11.3536C8.15829 11.5488 7.84171 11.5488 7.64645 11.3536L4.14645 7.85355C3.95118 7.65829 3.95118 7.34171 4.14645 7.14645C4.34171 6.95118 4.65829 6.95118 4.85355 7.14645L7.5 9.79289V1C7.5 0.723858 7.72386 0.5 8 0.5ZM1 11C1.27614 11 1.5 11.2239 1.5 11.5V13C1.5 13.8284 2.17157 14.5 3 14.5H13C13.8284 14.5 14.5 13.8284 14.5 13V11.5C14.5 11.2239 14.7239 11 15 11C15.2761 11 15.5 11.2239 15.5 11.5V13C15.5 14.3807 14.3807 15.5 13 15.5H3C1.61929 15.5 0.5 14.3807 0.5 13V11.5C0.5 11.2239 0.723858 11 1 11Z' fill='%23242424'/%3E%3C/svg%3E")`;
       default:
         return 'none';
     }
@@ -410,7 +713,7 @@ const ResizeHandles = styled.div<{ $show: boolean }>`
   display: ${props => props.$show ? 'block' : 'none'};
 `;
 
-const ResizeHandle = styled.div<{ position: string }>`
+const ResizeHandle = styled.div<{ position: ResizeHandlePosition }>`
   position: absolute;
   width: 12px;
   height: 12px;
@@ -427,6 +730,7 @@ const ResizeHandle = styled.div<{ position: string }>`
     return 'e-resize';
   }};
   pointer-events: auto;
+  touch-action: none;
   
   ${props => {
     const { position } = props;
@@ -496,8 +800,9 @@ const InsertPictureMenuItem = styled.div`
   cursor: pointer;
   transition: background-color 0.2s ease;
   
-  &:hover {
+  &:hover, &:focus {
     background-color: #f5f5f5;
+    outline: none;
   }
 `;
 
@@ -536,9 +841,82 @@ const LoadingSpinner = styled.div`
   }
 `;
 
+// Photo credit in the corner of a card's picture
+const ImageCredit = styled.div`
+  position: absolute;
+  right: 4px;
+  bottom: 4px;
+  max-width: calc(100% - 8px);
+  padding: 1px 4px;
+  border-radius: 2px;
+  background: rgba(0, 0, 0, 0.45);
+  color: white;
+  font-size: calc(10px * var(--smartart-scale, 1));
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  z-index: 5;
+`;
+
+const LoadingCancelButton = styled.button`
+  margin-top: 12px;
+  padding: 4px 12px;
+  border: 1px solid rgba(255, 255, 255, 0.7);
+  border-radius: 4px;
+  background: none;
+  color: white;
+  font-family: inherit;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: rgba(255, 255, 255, 0.15);
+    outline: none;
+  }
+`;
+
+// A resized diagram wider than the page shrinks with it, keeping its proportions
+const fitSizeToWidth = (size: DiagramSize | null, availableWidth?: number): DiagramSize | null => {
+  if (!size || !availableWidth || size.width <= availableWidth) return size;
+  return { width: availableWidth, height: size.height * (availableWidth / size.width) };
+};
+
 // List SmartArt Component
-const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
-  const [nodes, setNodes] = useState(initialNodes);
+const SmartArt = forwardRef<SmartArtHandle & SmartArtDocumentHandle, SmartArtProps>(({
+  layout: layoutProp,
+  defaultLayout,
+  onLayoutChange,
+  orientation: orientationProp,
+  columns: columnsProp,
+  nodes: controlledNodes,
+  defaultNodes,
+  onNodesChange,
+  onHistoryChange,
+  size,
+  defaultSize,
+  onSizeChange,
+  colorScheme,
+  defaultColorScheme,
+  onColorSchemeChange,
+  comments,
+  defaultComments,
+  onCommentsChange,
+  onCommentAction,
+  currentUser = 'You',
+  imageProvider: imageProviderProp,
+  stockCatalog = getDefaultStockCatalog(),
+  assetStore = getDefaultAssetStore(),
+}, ref) => {
+  // Layout follows the same controlled/uncontrolled contract as the color scheme
+  const [internalLayout, setInternalLayout] = useState<LayoutType>(defaultLayout ?? layoutProp ?? 'list');
+  const layout = getLayout(layoutProp !== undefined && onLayoutChange ? layoutProp : internalLayout);
+  const { singular: nodeName, plural: nodesName } = layout.nodeLabel;
+  const NodeName = nodeName.charAt(0).toUpperCase() + nodeName.slice(1);
+  // New nodes take the layout's placeholder content; layouts without pictures leave `image` empty
+  const createNode = (id: number): Node => ({ image: '', ...layout.createNode(id) } as Node);
+  const [nodes, setControllableNodes] = useControllableNodes(controlledNodes, defaultNodes, onNodesChange);
+  // Every change to the nodes goes through the undo/redo history
+  const { setNodes, undo, redo, canUndo, canRedo, breakCoalescing, getHistoryNodes } = useNodesHistory<Node>(setControllableNodes, nodes);
   const [hoveredNode, setHoveredNode] = useState<number | null>(null);
   const [pressedNode, setPressedNode] = useState<number | null>(null);
   const [editingTitle, setEditingTitle] = useState<number | null>(null);
@@ -550,9 +928,274 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
   const titleInputRef = useRef<HTMLInputElement>(null);
   const bodyInputRef = useRef<HTMLTextAreaElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const nodeRefs = useRef(new Map<number, HTMLDivElement>());
+  // Element to return focus to when the insert-picture menu closes
+  const menuReturnFocusRef = useRef<HTMLElement | null>(null);
+  const [announcement, announce] = useAnnouncer();
+  const descriptionId = useId();
+
+  const [internalColorScheme, setInternalColorScheme] = useState(defaultColorScheme ?? colorScheme ?? DEFAULT_COLOR_SCHEME_ID);
+  const activeScheme = getColorScheme(colorScheme !== undefined && onColorSchemeChange ? colorScheme : internalColorScheme);
+  // Arrangement props win; otherwise the last loaded document's arrangement is kept
+  const [loadedArrangement, setLoadedArrangement] = useState<Pick<DocumentStyles, 'orientation' | 'columns'>>({});
+  const documentStyles: DocumentStyles = {
+    colorScheme: activeScheme.id,
+    orientation: orientationProp ?? loadedArrangement.orientation,
+    columns: columnsProp ?? loadedArrangement.columns,
+  };
+
+  // Diagram size from the resize handles; the preview is the live size mid-drag
+  const [internalSize, setInternalSize] = useState<DiagramSize | null>(defaultSize ?? size ?? null);
+  const [resizePreview, setResizePreview] = useState<DiagramSize | null>(null);
+  const committedSize = size !== undefined && onSizeChange ? size : internalSize;
+  // Layouts measure widths with the container padding once; its padding and border add as much again
+  const pageWidth = useAvailableWidth(containerRef);
+  const availableWidth = pageWidth === undefined ? undefined : pageWidth - CONTAINER_PADDING * 2 - 2;
+  const displaySize = fitSizeToWidth(resizePreview ?? committedSize, availableWidth);
+  const metrics = layout.getMetrics(nodes, displaySize, { styles: documentStyles, availableWidth });
+  // Cards in the reading order of the diagram; hierarchies leave out collapsed branches
+  const nodeParents = getParentMap(nodes);
+  const visibleNodes = layout.hierarchical ? getVisibleNodes(nodes, nodeParents) : nodes;
+
+  const { startResize } = useResizeDrag({
+    getStartSize: () => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      return rect
+        ? { width: rect.width, height: rect.height }
+        : { width: metrics.width + CONTAINER_PADDING * 2, height: (metrics.height ?? 0) + CONTAINER_PADDING * 2 };
+    },
+    onResize: setResizePreview,
+    onResizeEnd: (nextSize) => {
+      setResizePreview(null);
+      setInternalSize(nextSize);
+      onSizeChange?.(nextSize);
+    },
+    minWidth: metrics.minSize.width,
+    minHeight: metrics.minSize.height,
+    maxWidth: metrics.maxSize.width,
+    maxHeight: metrics.maxSize.height,
+    // The container is centred, so each side moves half as far as the width changes
+    horizontalFactor: 2,
+  });
   const [buttonRect, setButtonRect] = useState<DOMRect | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [generatingImageForNode, setGeneratingImageForNode] = useState<number | null>(null);
+  const contextImageProvider = useImageProvider();
+  const imageProvider = imageProviderProp ?? contextImageProvider;
+  // In-flight search/generate request, aborted when another starts or on unmount
+  const imageRequestRef = useRef<AbortController | null>(null);
+  // Card the Stock Images browser is inserting into
+  const [stockImagesNode, setStockImagesNode] = useState<number | null>(null);
+  // Card in crop mode, and the crop being edited so its frame can preview the aspect
+  const [croppingNode, setCroppingNode] = useState<number | null>(null);
+  const [cropPreview, setCropPreview] = useState<ImageCrop | null>(null);
+  // Where dragged picture files will land: one card, or the whole diagram
+  const [imageDropTarget, setImageDropTarget] = useState<number | 'container' | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const resolveImage = useResolvedImages(assetStore, nodes.map(node => node.image));
+
+  // Errors stay up long enough to read, then clear themselves
+  useEffect(() => {
+    if (!imageError) return;
+    const timeout = setTimeout(() => setImageError(null), 8000);
+    return () => clearTimeout(timeout);
+  }, [imageError]);
+  // Which color popover is open: the diagram scheme gallery or a card's swatches
+  const [colorPickerOpen, setColorPickerOpen] = useState<'diagram' | number | null>(null);
+  const [textPanelOpen, setTextPanelOpen] = useState(false);
+  // Comment threads follow the same controlled/uncontrolled contract as the nodes
+  const [commentThreads, setCommentThreads] = useControllableNodes(comments, defaultComments, onCommentsChange);
+  const [commentsAnchor, setCommentsAnchor] = useState<CommentAnchor | null>(null);
+
+  // Highest node id seen so far, comment anchors included. New cards count up from it,
+  // so a deleted card's id (and its orphaned threads) never passes to a new card
+  const lastNodeIdRef = useRef(0);
+  lastNodeIdRef.current = Math.max(
+    lastNodeIdRef.current,
+    ...nodes.map(node => node.id),
+    ...commentThreads.map(thread => (thread.anchor.type === 'node' ? thread.anchor.nodeId : 0))
+  );
+  const allocateNodeId = () => ++lastNodeIdRef.current;
+
+  // Metadata carried over from the last loaded document
+  const documentMetadataRef = useRef<Partial<DocumentMetadata>>({ createdAt: new Date().toISOString() });
+
+  // Parents are written as resolved, so a stale or looping `parentId` never makes the document invalid
+  const getDocument = (): SmartArtDocument => createDocument(layout.id, nodes.map(node => withParent(node, nodeParents.get(node.id))), {
+    styles: documentStyles,
+    size: committedSize,
+    comments: commentThreads,
+    metadata: documentMetadataRef.current,
+  });
+
+  const loadDocument = (document: SmartArtDocument) => {
+    const { updatedAt: _updatedAt, ...metadata } = document.metadata;
+    const previous = {
+      layout: layout.id,
+      styles: documentStyles,
+      size: committedSize,
+      comments: commentThreads,
+      metadata: documentMetadataRef.current,
+    };
+    const next = { ...document, metadata };
+    const applyDocument = ({
+      layout: nextLayout,
+      styles,
+      size: nextSize,
+      comments: nextComments,
+      metadata: nextMetadata,
+    }: typeof previous) => {
+      documentMetadataRef.current = nextMetadata;
+      setInternalColorScheme(styles.colorScheme);
+      onColorSchemeChange?.(styles.colorScheme);
+      setLoadedArrangement({ orientation: styles.orientation, columns: styles.columns });
+      setInternalSize(nextSize);
+      setInternalLayout(nextLayout);
+      onLayoutChange?.(nextLayout);
+      if (nextSize) onSizeChange?.(nextSize);
+      setCommentThreads(nextComments);
+      setCroppingNode(null);
+    };
+    // Documents may leave out pictures; those cards get their layout's default one
+    const nextLayoutDefaults = getLayout(document.layout);
+    // Everything the document sets comes back with the old nodes in one undo step
+    setNodes(
+      document.nodes.map(node => ({ image: '', ...nextLayoutDefaults.createNode(node.id), ...node } as Node)),
+      { effect: { undo: () => applyDocument(previous), redo: () => applyDocument(next) } }
+    );
+    applyDocument(next);
+  };
+
+  const [layoutGalleryOpen, setLayoutGalleryOpen] = useState(false);
+
+  // Shows the same nodes in another layout; pictures it can't show are kept for switching back
+  const handleLayoutSelect = (layoutId: LayoutType) => {
+    setLayoutGalleryOpen(false);
+    if (layoutId === layout.id) return;
+    const target = getLayout(layoutId);
+    const previousLayout = layout;
+    const previousSize = internalSize;
+    const applyLayout = (nextLayout: SmartArtLayout, nextSize: DiagramSize | null) => {
+      setInternalLayout(nextLayout.id);
+      onLayoutChange?.(nextLayout.id);
+      setInternalSize(nextSize);
+      setCroppingNode(null);
+      announce(`Changed to ${nextLayout.name} layout`);
+    };
+    // The layout and size switch back and forth with the converted nodes in one undo step
+    setNodes(
+      prevNodes => convertNodesForLayout(prevNodes, target).map(node => ({ ...node, image: node.image ?? '' })),
+      {
+        effect: {
+          undo: () => applyLayout(previousLayout, previousSize),
+          redo: () => applyLayout(target, null),
+        },
+      }
+    );
+    // Each layout has its own natural size; the old one rarely suits the new layout
+    applyLayout(target, null);
+  };
+
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Saves the diagram as a picture or slide; pictures that couldn't be included are reported
+  const handleExport = async ({ format, scale, width, transparent }: ExportSettings) => {
+    const document = getDocument();
+    const background = transparent ? null : '#ffffff';
+    const filename = (document.metadata.title || 'diagram').replace(/[\\/:*?"<>|]+/g, '-');
+    setExporting(true);
+    try {
+      if (format === 'svg') {
+        const svg = await exportSVG(document, { assetStore, background, availableWidth });
+        downloadFile(svg, `${filename}.svg`, 'image/svg+xml');
+      } else {
+        const result = format === 'pptx'
+          ? await exportPPTX(document, { assetStore, availableWidth })
+          : await exportRaster(document, { assetStore, format, scale, width, background, availableWidth });
+        downloadFile(result.blob, `${filename}.${format === 'jpeg' ? 'jpg' : format}`);
+        if (result.skippedImages > 0) {
+          // Usually pictures from sites that don't allow reuse (CORS), or formats a slide can't embed
+          setImageError(result.skippedImages === 1
+            ? 'One picture couldn\'t be included. Export as SVG to keep a link to it.'
+            : `${result.skippedImages} pictures couldn't be included. Export as SVG to keep links to them.`);
+        }
+      }
+      setExportMenuOpen(false);
+      announce('Diagram exported');
+    } catch (error: unknown) {
+      console.error('Export failed:', error);
+      setImageError(`Couldn't export the diagram${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Expose history controls and document access to the host
+  // Pictures undo or redo could bring back count as in use, so collecting assets can't break history
+  const getAssetRefs = () => Array.from(new Set([nodes, ...getHistoryNodes()].flatMap(getNodeAssetRefs)));
+
+  useImperativeHandle(ref, () => ({ canUndo, canRedo, undo, redo, getDocument, loadDocument, getAssetRefs }));
+
+  // Latest callback, so a new function from the host doesn't report unchanged history
+  const onHistoryChangeRef = useRef(onHistoryChange);
+  onHistoryChangeRef.current = onHistoryChange;
+
+  useEffect(() => {
+    onHistoryChangeRef.current?.({ canUndo, canRedo });
+  }, [canUndo, canRedo]);
+
+  const handleColorSchemeSelect = (schemeId: string) => {
+    setInternalColorScheme(schemeId);
+    onColorSchemeChange?.(schemeId);
+    setColorPickerOpen(null);
+  };
+
+  const handleNodeColorSelect = (nodeId: number, color: string | undefined) => {
+    setNodes(prevNodes =>
+      prevNodes.map(node => {
+        if (node.id !== nodeId) return node;
+        const { color: _previousColor, ...rest } = node;
+        return color ? { ...rest, color } : rest;
+      })
+    );
+    setColorPickerOpen(null);
+  };
+
+  // Changes a layout makes to a node itself, like collapsing a branch of the hierarchy
+  const handleLayoutNodeChange = (nodeId: number, changes: Partial<DocumentNode>) => {
+    setNodes(prevNodes => prevNodes.map(node => (node.id === nodeId ? { ...node, ...changes } as Node : node)));
+    // Keep the selection visible when its branch folds away
+    if (changes.collapsed && pressedNode !== null && getDescendantIds(nodes, nodeId).has(pressedNode)) {
+      setPressedNode(nodeId);
+    }
+  };
+
+  const handleCommentAction = (action: CommentAction) => {
+    setCommentThreads(prevThreads => applyCommentAction(prevThreads, action));
+    onCommentAction?.(action);
+  };
+
+  const toggleComments = (anchor: CommentAnchor) => {
+    const isSameAnchor = commentsAnchor !== null && (
+      anchor.type === 'diagram'
+        ? commentsAnchor.type === 'diagram'
+        : commentsAnchor.type === 'node' && commentsAnchor.nodeId === anchor.nodeId
+    );
+    setCommentsAnchor(isSameAnchor ? null : anchor);
+  };
+
+  // Popovers belong to the current selection
+  useEffect(() => {
+    setColorPickerOpen(null);
+  }, [containerActive, pressedNode]);
+
+  // A deleted card's threads live on in the diagram's comments, so its open panel moves there
+  useEffect(() => {
+    if (commentsAnchor?.type === 'node' && !nodes.some(node => node.id === commentsAnchor.nodeId)) {
+      setCommentsAnchor({ type: 'diagram' });
+    }
+  }, [nodes, commentsAnchor]);
 
   // Auto-resize textarea function with minimal expansion
   const autoResizeTextarea = (textarea: HTMLTextAreaElement) => {
@@ -580,6 +1223,41 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     }
   }, [editingBody]);
 
+  // Each visit to a title or body field is one typing session for undo
+  useEffect(() => {
+    breakCoalescing();
+  }, [editingTitle, editingBody, breakCoalescing]);
+
+  // Undo/redo shortcuts while focus is in the diagram. A selection left behind by
+  // tabbing away doesn't count, so host fields and other diagrams keep their own undo;
+  // with nothing focused at all, a selected diagram still takes them
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      const isDiagramFocused = (containerRef.current !== null && containerRef.current.contains(target)) ||
+        ((containerActive || pressedNode !== null) && target === document.body);
+      if (!isDiagramFocused || insertPictureMenuOpen !== null) return;
+      // Fields that aren't part of the diagram content keep the browser's own undo
+      if (target.closest?.('[data-native-undo]')) return;
+
+      const action = getHistoryShortcut(event);
+      if (!action) return;
+
+      // Replace the browser's native input undo with diagram-level history
+      event.preventDefault();
+      if (action === 'undo') {
+        undo();
+      } else {
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [containerActive, pressedNode, insertPictureMenuOpen, undo, redo]);
+
   // Handle clicking outside the component to exit pressed state
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -629,22 +1307,19 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     }
   };
 
-  const handleAddClick = (position: number) => {
+  const handleAddClick = (position: number, parentId?: number) => {
     // Generate a new unique ID
-    const newId = nodes.length > 0 ? Math.max(...nodes.map(n => n.id)) + 1 : 1;
+    const newId = allocateNodeId();
     
-    // Create a new node with default values
-    const newNode: Node = {
-      id: newId,
-      title: 'Heading 4',
-      body: 'Description',
-      image: 'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=300&q=80' // Default nature image
-    };
+    // Create a new node with default values, under its parent in a hierarchy
+    const newNode = parentId === undefined ? createNode(newId) : { ...createNode(newId), parentId };
     
     // Insert the new node at the specified position
-    const newNodes = [...nodes];
-    newNodes.splice(position, 0, newNode);
-    setNodes(newNodes);
+    setNodes(prevNodes => {
+      const newNodes = [...prevNodes];
+      newNodes.splice(position, 0, newNode);
+      return newNodes;
+    });
     
     // Set the new node as active and enter title editing mode
     setPressedNode(newId);
@@ -688,7 +1363,8 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     setNodes(prevNodes => 
       prevNodes.map(node => 
         node.id === nodeId ? { ...node, title: newTitle } : node
-      )
+      ),
+      { coalesceKey: `title-${nodeId}` }
     );
   };
 
@@ -696,7 +1372,8 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     setNodes(prevNodes => 
       prevNodes.map(node => 
         node.id === nodeId ? { ...node, body: newBody } : node
-      )
+      ),
+      { coalesceKey: `body-${nodeId}` }
     );
     
     // Auto-resize textarea after content change
@@ -751,6 +1428,9 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
       }
     }
     
+    // Remember the button so focus can return to it when the menu closes
+    menuReturnFocusRef.current = isOpening ? buttonElement : null;
+    
     // Set these in a timeout to break the React event flow
     setTimeout(() => {
       if (isOpening) {
@@ -776,7 +1456,7 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     }, 0);
   };
   
-  const handlePictureSourceSelect = (nodeId: number, source: string, event: React.MouseEvent) => {
+  const handlePictureSourceSelect = (nodeId: number, source: string, event: React.MouseEvent | React.KeyboardEvent) => {
     // Stop propagation to completely isolate this event
     event.stopPropagation();
     event.preventDefault();
@@ -796,6 +1476,9 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
       setButtonRect(null);
       // Clear hover state too
       setHoveredNode(null);
+      // Return focus to the insert button the menu was opened from
+      menuReturnFocusRef.current?.focus();
+      menuReturnFocusRef.current = null;
       
       // Handle different source types
       switch (source) {
@@ -809,52 +1492,15 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
           break;
           
         case 'Stock Images':
-          // For demonstration purposes
-          alert('Stock Images feature would open a library of stock images');
+          setStockImagesNode(targetNodeId);
           break;
           
+        case 'Search Online':
+          await requestProviderImage(targetNodeId, 'search', currentNode.title);
+          break;
+
         case 'Generate with AI':
-          try {
-            // Set generating state to show loading indicator
-            setGeneratingImageForNode(targetNodeId);
-            
-            // Get the title text from the card
-            const title = currentNode.title;
-            console.log(`Generating image for title: "${title}"`);
-            
-            // We don't need to set a placeholder image here
-            // as the LoadingOverlay will show on top of the current image
-            
-            // Call the Freepik Mystic API with the title as prompt
-            const generatedImageUrl = await generateImageForTitle(title);
-            
-            // Update the node with the generated image
-            setNodes(prevNodes => 
-              prevNodes.map(node => 
-                node.id === targetNodeId ? { ...node, image: generatedImageUrl } : node
-              )
-            );
-            
-            console.log('Image generated successfully:', generatedImageUrl);
-          } catch (error: unknown) {
-            console.error('Error generating image:', error);
-            
-            // Show error message to user with proper type handling
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            alert(`Failed to generate image: ${errorMessage}. Please try again.`);
-            
-            // Revert to a fallback image from Unsplash
-            setNodes(prevNodes => 
-              prevNodes.map(node => 
-                node.id === targetNodeId ? { 
-                  ...node, 
-                  image: 'https://images.unsplash.com/photo-1579546929518-9e396f3cc809?w=800&h=600&q=80' 
-                } : node
-              )
-            );
-          } finally {
-            setGeneratingImageForNode(null); // Clear loading state
-          }
+          await requestProviderImage(targetNodeId, 'generate', currentNode.title);
           break;
           
         default:
@@ -863,11 +1509,90 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     }, 0);
   };
   
-  const handleFileSelection = (nodeId: number) => {
-    // Find the node to update
-    const nodeToUpdate = nodes.find(node => node.id === nodeId);
-    if (!nodeToUpdate) return;
+  // Fetches a picture for a card from the image provider, cancelling any earlier request
+  const requestProviderImage = async (nodeId: number, mode: 'search' | 'generate', title: string) => {
+    imageRequestRef.current?.abort();
+    const controller = new AbortController();
+    imageRequestRef.current = controller;
+
+    setGeneratingImageForNode(nodeId);
+    announce(mode === 'search' ? 'Searching for an image' : 'Generating image');
+
+    try {
+      let result: ImageResult | undefined;
+      if (mode === 'search' && imageProvider.search) {
+        const results = await imageProvider.search(title, { signal: controller.signal, perPage: 1 });
+        result = results[0];
+      } else if (mode === 'generate' && imageProvider.generate) {
+        result = await imageProvider.generate(title, { signal: controller.signal });
+      }
+
+      if (!result) {
+        announce('No image found');
+        return;
+      }
+
+      setNodeImage(nodeId, { ...result, url: await storeImageUrl(result.url) });
+      announce(mode === 'search' ? 'Image inserted' : 'Image generated');
+    } catch (error: unknown) {
+      if (isAbortError(error)) {
+        announce('Image request cancelled');
+        return;
+      }
+      console.error('Error fetching image:', error);
+
+      // Show error message to user with proper type handling
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      setImageError(`Failed to get an image: ${errorMessage}. Please try again.`);
+    } finally {
+      // A newer request owns the loading state once this one has been replaced
+      if (imageRequestRef.current === controller) {
+        imageRequestRef.current = null;
+        setGeneratingImageForNode(null);
+      }
+    }
+  };
 
+  // Sets a card's picture along with its credit; the old crop doesn't apply to a new picture
+  const setNodeImage = (nodeId: number, { url, attribution }: ImageResult) => {
+    setNodes(prevNodes =>
+      prevNodes.map(node =>
+        node.id === nodeId ? { ...node, image: url, imageAttribution: attribution, imageCrop: undefined } : node
+      )
+    );
+  };
+
+  const closeCropEditor = (nodeId: number) => {
+    setCroppingNode(null);
+    setCropPreview(null);
+    focusNode(nodeId);
+  };
+
+  const handleCropDone = (nodeId: number, crop: ImageCrop) => {
+    setNodes(prevNodes =>
+      prevNodes.map(node =>
+        node.id === nodeId ? { ...node, imageCrop: isDefaultImageCrop(crop) ? undefined : crop } : node
+      )
+    );
+    announce('Picture cropped');
+    closeCropEditor(nodeId);
+  };
+
+  const handleStockImageInsert = (image: StockImage) => {
+    if (stockImagesNode === null) return;
+    setNodeImage(stockImagesNode, image);
+    setStockImagesNode(null);
+    announce(`Inserted ${image.title}`);
+  };
+
+  const cancelImageRequest = () => {
+    imageRequestRef.current?.abort();
+  };
+
+  // Don't let a pending request update the diagram after it unmounts
+  useEffect(() => () => imageRequestRef.current?.abort(), []);
+
+  const handleFileSelection = (nodeId: number) => {
     // Make sure we have a file input ref
     if (!fileInputRef.current) return;
     
@@ -875,21 +1600,7 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     const file = fileInputRef.current.files?.[0];
     if (!file) return;
     
-    // Only accept image files
-    if (!file.type.startsWith('image/')) {
-      alert('Please select an image file (JPEG, PNG, GIF, etc.)');
-      return;
-    }
-    
-    // Create a URL for the selected image file
-    const imageUrl = URL.createObjectURL(file);
-    
-    // Update the node with the new image
-    setNodes(prevNodes => 
-      prevNodes.map(node => 
-        node.id === nodeId ? { ...node, image: imageUrl } : node
-      )
-    );
+    insertImageSources(nodeId, [file], null);
     
     // Reset the file input for future selections
     if (fileInputRef.current) {
@@ -897,65 +1608,408 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     }
   };
 
-  const handleMoveLeft = (nodeId: number, event: React.MouseEvent) => {
-    // Stop event propagation to prevent triggering other click handlers
+  /**
+   * Puts pictures on consecutive cards starting at `startNodeId` (or the first card),
+   * adding cards when there are more pictures than cards left. One undo step.
+   */
+  const fillCardsWithImages = (startNodeId: number | null, imageUrls: string[]) => {
+    setNodes(prevNodes => {
+      const nextNodes = [...prevNodes];
+      const startIndex = Math.max(0, prevNodes.findIndex(node => node.id === startNodeId));
+
+      imageUrls.forEach((url, offset) => {
+        const index = startIndex + offset;
+        const base = index < nextNodes.length ? nextNodes[index] : createNode(allocateNodeId());
+        // Local files have no credit to keep, and the old crop doesn't fit a new picture
+        nextNodes[index] = { ...base, image: url, imageAttribution: undefined, imageCrop: undefined };
+      });
+      return nextNodes;
+    });
+    announce(imageUrls.length === 1 ? 'Picture inserted' : `${imageUrls.length} pictures inserted`);
+  };
+
+  // Validates dropped, pasted or picked pictures and inserts the usable ones
+  const insertImageSources = async (startNodeId: number | null, files: File[], url: string | null) => {
+    if (url) {
+      try {
+        await loadImage(url);
+      } catch (error: unknown) {
+        setImageError(error instanceof Error ? error.message : 'That link didn\'t load as a picture.');
+        return;
+      }
+      try {
+        fillCardsWithImages(startNodeId, [await storeImageUrl(url)]);
+      } catch (error: unknown) {
+        setImageError(error instanceof Error ? error.message : 'The picture could not be saved.');
+      }
+      return;
+    }
+
+    const { valid, errors } = partitionImageFiles(files);
+    setImageError(errors.length > 0 ? errors.join(' ') : null);
+    if (valid.length === 0) return;
+
+    try {
+      const refs = await Promise.all(valid.map(async file =>
+        assetStore.put(await downscaleImage(file), { name: file.name })
+      ));
+      fillCardsWithImages(startNodeId, refs);
+    } catch (error: unknown) {
+      console.error('Error storing pictures:', error);
+      setImageError(`The pictures could not be saved: ${error instanceof Error ? error.message : 'unknown error'}.`);
+    }
+  };
+
+  // Inline data URLs (pasted or generated pictures) go to the asset store; links stay as they are
+  const storeImageUrl = async (url: string) => {
+    if (!url.startsWith('data:')) return url;
+    const blob = await (await fetch(url)).blob();
+    return assetStore.put(await downscaleImage(blob));
+  };
+
+  const handleImageDragOver = (target: number | 'container', event: React.DragEvent) => {
+    if (!layout.supportsImages || !hasDroppableImage(event.dataTransfer)) return;
+    event.preventDefault();
     event.stopPropagation();
-    
-    const currentIndex = nodes.findIndex(node => node.id === nodeId);
-    if (currentIndex > 0) {
-      // Swap with previous node
-      const newNodes = [...nodes];
-      [newNodes[currentIndex], newNodes[currentIndex - 1]] = [newNodes[currentIndex - 1], newNodes[currentIndex]];
-      setNodes(newNodes);
-      
-      // Ensure this node stays active after the swap and container isn't active
-      setPressedNode(nodeId);
-      setContainerActive(false);
-      
-      // Clear any editing state
-      setEditingTitle(null);
-      setEditingBody(null);
+    event.dataTransfer.dropEffect = 'copy';
+    if (imageDropTarget !== target) setImageDropTarget(target);
+  };
+
+  const handleImageDragLeave = (event: React.DragEvent) => {
+    // Moving onto a child fires dragleave too; only clear when the pointer really leaves
+    if (!event.currentTarget.contains(event.relatedTarget as HTMLElement | null)) {
+      setImageDropTarget(null);
     }
   };
 
-  const handleMoveRight = (nodeId: number, event: React.MouseEvent) => {
-    // Stop event propagation to prevent triggering other click handlers
+  // A drop on a card starts there; a drop elsewhere starts at the selected (or first) card
+  const handleImageDrop = (nodeId: number | null, event: React.DragEvent) => {
+    if (!layout.supportsImages || !hasDroppableImage(event.dataTransfer)) return;
+    event.preventDefault();
     event.stopPropagation();
-    
-    const currentIndex = nodes.findIndex(node => node.id === nodeId);
-    if (currentIndex < nodes.length - 1) {
-      // Swap with next node
-      const newNodes = [...nodes];
-      [newNodes[currentIndex], newNodes[currentIndex + 1]] = [newNodes[currentIndex + 1], newNodes[currentIndex]];
-      setNodes(newNodes);
-      
-      // Ensure this node stays active after the swap and container isn't active
-      setPressedNode(nodeId);
-      setContainerActive(false);
-      
-      // Clear any editing state
-      setEditingTitle(null);
-      setEditingBody(null);
+    setImageDropTarget(null);
+    const { files, url } = getImageSources(event.dataTransfer);
+    insertImageSources(nodeId ?? pressedNode, files, url);
+  };
+
+  // Adds a card per top-level outline item after the given card, or at the end
+  const insertOutline = (afterNodeId: number | null, markdown: string) => {
+    const parsed = markdownToNodes(markdown);
+    if (parsed.length === 0) return;
+
+    setNodes(prevNodes => {
+      const created = parsed.map(({ id: _id, ...content }) => ({ ...createNode(allocateNodeId()), ...content }));
+      const index = afterNodeId === null ? prevNodes.length : prevNodes.findIndex(node => node.id === afterNodeId) + 1;
+      return [...prevNodes.slice(0, index), ...created, ...prevNodes.slice(index)];
+    });
+    announce(parsed.length === 1 ? `${NodeName} added from outline` : `${parsed.length} ${nodesName} added from outline`);
+  };
+
+  // Pasting a picture or picture link into the selected card, outside the text fields.
+  // Multi-line text is read as an outline of new cards
+  const handlePaste = (event: React.ClipboardEvent) => {
+    if (pressedNode === null && !containerActive) return;
+    if ((event.target as HTMLElement).closest('input, textarea, [data-native-undo]')) return;
+    const { files, url } = getImageSources(event.clipboardData);
+    if (layout.supportsImages && (files.length > 0 || url)) {
+      event.preventDefault();
+      insertImageSources(pressedNode, files, url);
+      return;
     }
+
+    const text = event.clipboardData.getData('text/plain');
+    if (!text.trim().includes('\n')) return;
+    event.preventDefault();
+    insertOutline(pressedNode, text);
   };
-  
-  const handleDeleteNode = (nodeId: number, event: React.MouseEvent) => {
+
+  // Copying the selected diagram or card puts it on the clipboard as a Markdown outline
+  const handleCopy = (event: React.ClipboardEvent) => {
+    if (pressedNode === null && !containerActive) return;
+    if ((event.target as HTMLElement).closest('input, textarea, [data-native-undo]')) return;
+    const copied = pressedNode === null ? nodes : nodes.filter(node => node.id === pressedNode);
+    event.preventDefault();
+    event.clipboardData.setData('text/plain', nodesToMarkdown(copied));
+  };
+
+  // Shared by the toolbar buttons and the Alt+Arrow shortcuts
+  const moveNode = (nodeId: number, offset: -1 | 1) => {
+    // In a hierarchy the card moves among its siblings, taking its branch along
+    const group = layout.hierarchical ? getChildren(nodes, getParentMap(nodes).get(nodeId)) : nodes;
+    const currentIndex = group.findIndex(node => node.id === nodeId);
+    const targetIndex = currentIndex + offset;
+    if (currentIndex === -1 || targetIndex < 0 || targetIndex >= group.length) return;
+
+    // Swap with the neighbouring node
+    setNodes(prevNodes => {
+      if (layout.hierarchical) return moveAmongSiblings(prevNodes, nodeId, offset);
+      const index = prevNodes.findIndex(node => node.id === nodeId);
+      const swapIndex = index + offset;
+      if (index === -1 || swapIndex < 0 || swapIndex >= prevNodes.length) return prevNodes;
+      const newNodes = [...prevNodes];
+      [newNodes[index], newNodes[swapIndex]] = [newNodes[swapIndex], newNodes[index]];
+      return newNodes;
+    });
+    announce(`${NodeName} moved to position ${targetIndex + 1} of ${group.length}`);
+    
+    // Ensure this node stays active after the swap and container isn't active
+    setPressedNode(nodeId);
+    setContainerActive(false);
+    
+    // Clear any editing state
+    setEditingTitle(null);
+    setEditingBody(null);
+  };
+
+  const handleMoveLeft = (nodeId: number, event: React.MouseEvent) => {
     // Stop event propagation to prevent triggering other click handlers
     event.stopPropagation();
-    
+    moveNode(nodeId, -1);
+  };
+
+  const handleMoveRight = (nodeId: number, event: React.MouseEvent) => {
+    // Stop event propagation to prevent triggering other click handlers
+    event.stopPropagation();
+    moveNode(nodeId, 1);
+  };
+
+  // Returns false when the node can't be removed (the last remaining card)
+  const deleteNode = (nodeId: number) => {
     // Don't delete if this is the last node
     if (nodes.length <= 1) {
-      return;
+      return false;
     }
     
-    // Filter out the node with the given ID
-    const newNodes = nodes.filter(node => node.id !== nodeId);
-    setNodes(newNodes);
+    // Filter out the node with the given ID; any children move up to its parent
+    setNodes(prevNodes => removeTreeNode(prevNodes, nodeId));
+    announce(`${NodeName} deleted. ${nodes.length - 1} ${nodesName} remaining`);
     
     // Clear active states since the node is being deleted
     setPressedNode(null);
     setEditingTitle(null);
     setEditingBody(null);
+    return true;
+  };
+  
+  const handleDeleteNode = (nodeId: number, event: React.MouseEvent) => {
+    // Stop event propagation to prevent triggering other click handlers
+    event.stopPropagation();
+    deleteNode(nodeId);
+  };
+
+  // Move keyboard focus to a card once the DOM has caught up with state
+  const focusNode = (nodeId: number) => {
+    setTimeout(() => {
+      nodeRefs.current.get(nodeId)?.focus();
+    }, 0);
+  };
+
+  const selectNode = (nodeId: number) => {
+    setPressedNode(nodeId);
+    setEditingTitle(null);
+    setEditingBody(null);
+    setContainerActive(false);
+    focusNode(nodeId);
+  };
+
+  // Moves a card to a new index in one step (drag-and-drop and pick up / drop)
+  const reorderNode = (nodeId: number, toIndex: number) => {
+    setNodes(prevNodes => {
+      const fromIndex = prevNodes.findIndex(node => node.id === nodeId);
+      if (fromIndex === -1 || fromIndex === toIndex) return prevNodes;
+      const newNodes = [...prevNodes];
+      const [movedNode] = newNodes.splice(fromIndex, 1);
+      newNodes.splice(toIndex, 0, movedNode);
+      return newNodes;
+    });
+    announce(`${NodeName} moved to position ${toIndex + 1} of ${nodes.length}`);
+    selectNode(nodeId);
+  };
+
+  // Moves a card to a new place in the hierarchy in one step, opening its new parent
+  const moveInTree = (nodeId: number, move: (prevNodes: Node[]) => Node[]) => {
+    const moved = move(nodes);
+    if (moved === nodes) return;
+    const parentId = getParentMap(moved).get(nodeId);
+    setNodes(prevNodes => move(prevNodes).map(node => (
+      node.id === parentId && node.collapsed ? { ...node, collapsed: false } : node
+    )));
+    const parent = moved.find(node => node.id === parentId);
+    announce(parent ? `${NodeName} moved under ${parent.title}` : `${NodeName} moved to the top level`);
+    selectNode(nodeId);
+  };
+
+  const {
+    dragState: reparentDrag,
+    handlePointerDown: handleReparentPointerDown,
+  } = useDragReparent({
+    nodeIds: visibleNodes.map(node => node.id),
+    getNodeElement: (nodeId) => nodeRefs.current.get(nodeId),
+    // Not onto the current parent (nothing would change), the card itself or its branch
+    canDrop: (nodeId, targetId) =>
+      nodeParents.get(nodeId) !== targetId && !getDescendantIds(nodes, nodeId, nodeParents).has(targetId),
+    onDrop: (nodeId, parentId) => moveInTree(nodeId, prevNodes => reparentNode(prevNodes, nodeId, parentId)),
+  });
+
+  // Arrow keys follow the drawn tree; with Alt they move the card within it
+  const handleTreeArrowKey = (nodeId: number, key: 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight', move: boolean) => {
+    const direction = ({ ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right' } as const)[key];
+    if (!move) {
+      const neighbour = getTreeNeighbour(nodes, nodeId, direction);
+      if (neighbour) selectNode(neighbour.id);
+    } else if (direction === 'up') {
+      moveInTree(nodeId, prevNodes => outdentNode(prevNodes, nodeId));
+    } else if (direction === 'down') {
+      moveInTree(nodeId, prevNodes => indentNode(prevNodes, nodeId));
+    } else {
+      moveNode(nodeId, direction === 'left' ? -1 : 1);
+      focusNode(nodeId);
+    }
+  };
+
+  const {
+    dragState,
+    handlePointerDown,
+    pickUp,
+    moveDropTarget,
+    drop,
+    cancel: cancelDrag,
+  } = useDragReorder({
+    nodeIds: nodes.map(node => node.id),
+    getNodeElement: (nodeId) => nodeRefs.current.get(nodeId),
+    gap: metrics.gap,
+    direction: metrics.columns === 1 ? 'column' : 'row',
+    onDrop: reorderNode,
+    onKeyboardChange: announce,
+  });
+
+  // Pointer drags reorder the cards, or re-parent them in a hierarchy
+  const startPointerDrag = layout.dragReorder
+    ? handlePointerDown
+    : layout.hierarchical ? handleReparentPointerDown : undefined;
+
+  // Keyboard handling for a focused card (not its text inputs)
+  const handleNodeKeyDown = (nodeId: number, event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget || isAnyMenuOpen) return;
+
+    // While a card is picked up, keys choose where it goes
+    if (dragState?.mode === 'keyboard') {
+      event.preventDefault();
+      if (['ArrowLeft', 'ArrowUp'].includes(event.key)) moveDropTarget(-1);
+      else if (['ArrowRight', 'ArrowDown'].includes(event.key)) moveDropTarget(1);
+      else if (event.key === ' ' || event.key === 'Enter') drop();
+      else if (event.key === 'Escape' || event.key === 'Tab') cancelDrag();
+      return;
+    }
+
+    const index = nodes.findIndex(node => node.id === nodeId);
+    const isModifier = event.ctrlKey || event.metaKey;
+
+    switch (event.key) {
+      case ' ':
+        // Space picks the card up for keyboard reordering; hierarchies use Alt+Arrow instead
+        event.preventDefault();
+        if (layout.hierarchical) break;
+        setPressedNode(nodeId);
+        pickUp(nodeId);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        event.preventDefault();
+        const offset = event.key === 'ArrowLeft' || event.key === 'ArrowUp' ? -1 : 1;
+        if (layout.hierarchical) {
+          handleTreeArrowKey(nodeId, event.key, event.altKey);
+        } else if (event.altKey) {
+          // Alt+Arrow reorders the card
+          moveNode(nodeId, offset);
+          focusNode(nodeId);
+        } else {
+          const nextNode = nodes[index + offset];
+          if (nextNode) selectNode(nextNode.id);
+        }
+        break;
+      }
+      case 'Home':
+      case 'End': {
+        event.preventDefault();
+        const edgeNode = event.key === 'Home' ? visibleNodes[0] : visibleNodes[visibleNodes.length - 1];
+        if (edgeNode) selectNode(edgeNode.id);
+        break;
+      }
+      case 'Enter':
+        event.preventDefault();
+        if (isModifier) {
+          // Ctrl/Cmd+Enter inserts after, Ctrl/Cmd+Shift+Enter inserts before, as a sibling
+          handleAddClick(event.shiftKey ? index : index + 1, nodeParents.get(nodeId));
+        } else {
+          setPressedNode(nodeId);
+          setEditingTitle(nodeId);
+          setEditingBody(null);
+        }
+        break;
+      case 'F2':
+        event.preventDefault();
+        setPressedNode(nodeId);
+        setEditingTitle(nodeId);
+        setEditingBody(null);
+        break;
+      case 'Delete':
+      case 'Backspace': {
+        event.preventDefault();
+        // Keep focus in the diagram by selecting a neighbour
+        const visibleIndex = visibleNodes.findIndex(node => node.id === nodeId);
+        const neighbour = visibleNodes[visibleIndex + 1] || visibleNodes[visibleIndex - 1];
+        if (deleteNode(nodeId) && neighbour) {
+          selectNode(neighbour.id);
+        }
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        setPressedNode(null);
+        setContainerActive(true);
+        containerRef.current?.focus();
+        break;
+      default:
+        break;
+    }
+  };
+
+  // Keyboard handling inside the title and body inputs
+  const handleTextKeyDown = (nodeId: number, field: 'title' | 'body', event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' || (field === 'title' && event.key === 'Enter')) {
+      // Leave editing and return focus to the card
+      event.preventDefault();
+      setEditingTitle(null);
+      setEditingBody(null);
+      selectNode(nodeId);
+    } else if (event.key === 'Tab' && field === 'title' && !event.shiftKey) {
+      event.preventDefault();
+      setEditingTitle(null);
+      setEditingBody(nodeId);
+    } else if (event.key === 'Tab' && field === 'body' && event.shiftKey) {
+      event.preventDefault();
+      setEditingBody(null);
+      setEditingTitle(nodeId);
+    }
+  };
+
+  // Keyboard handling when the container itself has focus
+  const handleContainerKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget || isAnyMenuOpen) return;
+
+    if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'Enter'].includes(event.key) && visibleNodes.length > 0) {
+      event.preventDefault();
+      selectNode(visibleNodes[0].id);
+    } else if (event.key === 'End' && visibleNodes.length > 0) {
+      event.preventDefault();
+      selectNode(visibleNodes[visibleNodes.length - 1].id);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setContainerActive(false);
+    }
   };
 
   // Disable all mouse handlers when menu is open
@@ -967,6 +2021,72 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     onMouseLeave: () => setContainerHovered(false)
   };
   
+  // Move focus into the menu when it opens so keyboard users land on the first item
+  useEffect(() => {
+    if (insertPictureMenuOpen === null) return;
+    const firstItem = menuRef.current?.querySelector<HTMLElement>('[role="menuitem"]');
+    firstItem?.focus();
+  }, [insertPictureMenuOpen]);
+
+  const closeImageMenu = () => {
+    setInsertPictureMenuOpen(null);
+    setButtonRect(null);
+    menuReturnFocusRef.current?.focus();
+    menuReturnFocusRef.current = null;
+  };
+
+  // Arrow keys move between items; Tab is trapped inside the menu; Escape closes it
+  const handleMenuKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const items = Array.from(menuRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]') ?? []);
+    if (items.length === 0) return;
+    const currentIndex = items.indexOf(document.activeElement as HTMLElement);
+
+    let nextIndex: number | null = null;
+    switch (event.key) {
+      case 'ArrowDown':
+        nextIndex = (currentIndex + 1) % items.length;
+        break;
+      case 'ArrowUp':
+        nextIndex = (currentIndex - 1 + items.length) % items.length;
+        break;
+      case 'Tab':
+        nextIndex = event.shiftKey
+          ? (currentIndex - 1 + items.length) % items.length
+          : (currentIndex + 1) % items.length;
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = items.length - 1;
+        break;
+      case 'Escape':
+        event.preventDefault();
+        event.stopPropagation();
+        closeImageMenu();
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    items[nextIndex].focus();
+  };
+
+  const handleMenuItemKeyDown = (nodeId: number, source: string, event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      handlePictureSourceSelect(nodeId, source, event);
+    }
+  };
+
+  // Online options only appear when the image provider supports them
+  const pictureSources = [
+    'This Device',
+    'Stock Images',
+    ...(imageProvider.search ? ['Search Online'] : []),
+    ...(imageProvider.generate ? ['Generate with AI'] : []),
+  ];
+
   // Create menu component outside of main JSX
   const renderImageMenu = () => {
     if (insertPictureMenuOpen === null) return null;
@@ -988,10 +2108,7 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
             zIndex: 900,
             cursor: 'default',
           }}
-          onClick={() => {
-            setInsertPictureMenuOpen(null);
-            setButtonRect(null);
-          }}
+          onClick={closeImageMenu}
         />
         
         {/* Menu itself */}
@@ -1004,17 +2121,25 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
             zIndex: 1000,
           }}
           onClick={(e) => e.stopPropagation()}
+          onKeyDown={handleMenuKeyDown}
         >
-          <InsertPictureMenu $show={true}>
-            <InsertPictureMenuItem onClick={(e) => handlePictureSourceSelect(insertPictureMenuOpen, 'This Device', e)}>
-              This Device
-            </InsertPictureMenuItem>
-            <InsertPictureMenuItem onClick={(e) => handlePictureSourceSelect(insertPictureMenuOpen, 'Stock Images', e)}>
-              Stock Images
-            </InsertPictureMenuItem>
-            <InsertPictureMenuItem onClick={(e) => handlePictureSourceSelect(insertPictureMenuOpen, 'Generate with AI', e)}>
-              Generate with AI
-            </InsertPictureMenuItem>
+          <InsertPictureMenu
+            $show={true}
+            role="menu"
+            id={`insert-picture-menu-${insertPictureMenuOpen}`}
+            aria-label="Insert picture from"
+          >
+            {pictureSources.map(source => (
+              <InsertPictureMenuItem
+                key={source}
+                role="menuitem"
+                tabIndex={-1}
+                onClick={(e) => handlePictureSourceSelect(insertPictureMenuOpen, source, e)}
+                onKeyDown={(e) => handleMenuItemKeyDown(insertPictureMenuOpen, source, e)}
+              >
+                {source}
+              </InsertPictureMenuItem>
+            ))}
           </InsertPictureMenu>
         </div>
       </>,
@@ -1022,54 +2147,6 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
     );
   };
 
-  // Function to generate an image based on the title using Unsplash API
-  const generateImageForTitle = async (title: string): Promise<string> => {
-    // Unsplash API Access Key (not a Bearer token)
-    const accessKey = 'Y0wlbVtEzDm_Y6YYWAPRNobo-fE4U_qUkOZKRAf5Fss';
-    
-    try {
-      // Use the title as the search query, fallback to abstract if empty
-      const query = title.trim() || 'abstract';
-      
-      console.log(`Searching Unsplash for images related to: "${query}"`);
-      
-      // Build the exact URL format as specified with client_id as a query parameter
-      const endpoint = `https://api.unsplash.com/search/photos?query=${encodeURIComponent(query)}&client_id=${accessKey}`;
-      
-      // Make the fetch request without any headers
-      const response = await fetch(endpoint);
-      
-      // Check if the request was successful
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`Unsplash API error (${response.status}): ${response.statusText}`);
-      }
-      
-      // Parse the response as JSON
-      const data = await response.json();
-      console.log('Unsplash API Response:', data);
-      
-      // Check if we got any results
-      if (data && data.results && data.results.length > 0) {
-        // Get the first result as specified in the example
-        const imageUrl = data.results[0].urls.regular;
-        console.log('Unsplash image URL:', imageUrl);
-        return imageUrl;
-      } else {
-        // If no results found, use a fallback abstract image
-        console.log('No results found, using fallback image');
-        
-        // Use a reliable fallback from Unsplash
-        return 'https://images.unsplash.com/photo-1557682250-33bd709cbe85?w=800&h=600&q=80';
-      }
-    } catch (error: unknown) {
-      console.error('Unsplash API fetch error:', error);
-      // Rethrow the error to be handled by the caller
-      throw error;
-    }
-  };
-
   return (
     <>
       {/* Hidden file input for image uploading */}
@@ -1077,7 +2154,7 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
         type="file"
         ref={fileInputRef}
         style={{ display: 'none' }}
-        accept="image/*"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
         onChange={() => {
           // The actual handling is set up in handlePictureSourceSelect
           // This is just a fallback in case the handler isn't properly set
@@ -1089,6 +2166,15 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
       
       {/* Render menu outside component hierarchy */}
       {renderImageMenu()}
+
+      {stockImagesNode !== null && (
+        <StockImagesDialog
+          catalog={stockCatalog}
+          initialQuery={nodes.find(node => node.id === stockImagesNode)?.title}
+          onInsert={handleStockImageInsert}
+          onClose={() => setStockImagesNode(null)}
+        />
+      )}
       
       <SmartArtContainer 
         ref={containerRef} 
@@ -1096,126 +2182,334 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
         onMouseEnter={mouseHandlersDisabled ? undefined : () => setContainerHovered(true)} 
         onMouseLeave={mouseHandlersDisabled ? undefined : () => setContainerHovered(false)}
         $isActive={containerActive} 
-        $nodeCount={nodes.length}
+        $contentWidth={metrics.width}
         $menuOpen={isAnyMenuOpen}
-        style={{ userSelect: mouseHandlersDisabled ? 'none' : 'auto' }}
+        $dropActive={imageDropTarget === 'container'}
+        onDragOver={(e) => handleImageDragOver('container', e)}
+        onDragLeave={handleImageDragLeave}
+        onDrop={(e) => handleImageDrop(null, e)}
+        onPaste={handlePaste}
+        onCopy={handleCopy}
+        style={{
+          userSelect: mouseHandlersDisabled || resizePreview ? 'none' : 'auto',
+          // Node metrics from the layout, shared with the styled components below
+          ...metrics.style,
+        } as React.CSSProperties}
+        tabIndex={0}
+        onKeyDown={handleContainerKeyDown}
+        role="group"
+        aria-roledescription="diagram"
+        aria-label={`${layout.name} diagram with ${nodes.length} ${nodesName}`}
+        aria-describedby={layout.describe ? descriptionId : undefined}
       >
+      {/* Text alternative for layouts whose arrangement carries meaning */}
+      {layout.describe && (
+        <VisuallyHidden id={descriptionId}>{layout.describe(nodes)}</VisuallyHidden>
+      )}
+
+      {/* Polite announcements for changes that aren't otherwise visible to screen readers */}
+      <VisuallyHidden role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </VisuallyHidden>
+
+      {imageError && (
+        <ImageErrorNotice role="alert">
+          <span>{imageError}</span>
+          <button aria-label="Dismiss" title="Dismiss" onClick={(e) => { e.stopPropagation(); setImageError(null); }}>×</button>
+        </ImageErrorNotice>
+      )}
+
       {/* Container-level floating toolbar */}
-      <ContainerFloatingToolbar $show={containerActive}>
-        <ToolbarButton title="Copilot GPTs">
-          <ContainerToolbarIcon icon="copilot" />
+      <ContainerFloatingToolbar $show={containerActive} role="toolbar" aria-label="Diagram actions">
+        <ToolbarButton title="Copilot GPTs" aria-label="Copilot GPTs">
+          <ContainerToolbarIcon icon="copilot" aria-hidden="true" />
+        </ToolbarButton>
+        <ToolbarDivider role="separator" />
+        <ToolbarButton
+          title="Layout"
+          aria-label="Layout"
+          aria-haspopup="true"
+          aria-expanded={layoutGalleryOpen}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => setLayoutGalleryOpen(!layoutGalleryOpen)}
+        >
+          <ContainerToolbarIcon icon="layout" aria-hidden="true" />
+        </ToolbarButton>
+        <ToolbarButton
+          title="Color"
+          aria-label="Color"
+          aria-haspopup="true"
+          aria-expanded={colorPickerOpen === 'diagram'}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => setColorPickerOpen(colorPickerOpen === 'diagram' ? null : 'diagram')}
+        >
+          <ContainerToolbarIcon icon="color" aria-hidden="true" />
         </ToolbarButton>
-        <ToolbarDivider />
-        <ToolbarButton title="Color">
-          <ContainerToolbarIcon icon="color" />
+        <ToolbarButton
+          title="Text Panel"
+          aria-label="Text Panel"
+          aria-pressed={textPanelOpen}
+          onClick={() => setTextPanelOpen(!textPanelOpen)}
+        >
+          <ContainerToolbarIcon icon="text-panel" aria-hidden="true" />
         </ToolbarButton>
-        <ToolbarButton title="Text Panel">
-          <ContainerToolbarIcon icon="text-panel" />
+        <ToolbarButton
+          title="Leave Comment"
+          aria-label="Leave Comment"
+          aria-pressed={commentsAnchor?.type === 'diagram'}
+          onClick={() => toggleComments({ type: 'diagram' })}
+        >
+          <ContainerToolbarIcon icon="comment" aria-hidden="true" />
         </ToolbarButton>
-        <ToolbarButton title="Leave Comment">
-          <ContainerToolbarIcon icon="comment" />
+        <ToolbarButton
+          title="Export"
+          aria-label="Export"
+          aria-haspopup="dialog"
+          aria-expanded={exportMenuOpen}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => setExportMenuOpen(!exportMenuOpen)}
+        >
+          <ContainerToolbarIcon icon="export" aria-hidden="true" />
         </ToolbarButton>
+        {layoutGalleryOpen && (
+          <LayoutGallery
+            nodes={nodes}
+            styles={documentStyles}
+            selectedId={layout.id}
+            onSelect={handleLayoutSelect}
+            onClose={() => setLayoutGalleryOpen(false)}
+          />
+        )}
+        {exportMenuOpen && (
+          <ExportMenu
+            busy={exporting}
+            onExport={handleExport}
+            onClose={() => setExportMenuOpen(false)}
+          />
+        )}
+        {colorPickerOpen === 'diagram' && (
+          <ColorSchemePicker
+            selectedId={activeScheme.id}
+            onSelect={(scheme) => handleColorSchemeSelect(scheme.id)}
+            onClose={() => setColorPickerOpen(null)}
+          />
+        )}
       </ContainerFloatingToolbar>
 
+      {/* Outline editor beside the diagram */}
+      {textPanelOpen && (
+        <TextPanel
+          nodes={nodes}
+          onNodesChange={(nextNodes, coalesceKey) => setNodes(nextNodes, { coalesceKey })}
+          createNode={createNode}
+          allocateNodeId={allocateNodeId}
+          hierarchical={layout.hierarchical}
+          onClose={() => setTextPanelOpen(false)}
+        />
+      )}
+
+      {/* Comment threads beside the diagram */}
+      {commentsAnchor && (
+        <CommentsPanel
+          threads={commentThreads}
+          anchor={commentsAnchor}
+          currentUser={currentUser}
+          getNodeTitle={(nodeId) => nodes.find(node => node.id === nodeId)?.title}
+          onAction={handleCommentAction}
+          onClose={() => setCommentsAnchor(null)}
+        />
+      )}
+
       {/* Container border and resize handles */}
       <ContainerBorder $show={containerActive} />
-      <ResizeHandles $show={containerActive}>
-        <ResizeHandle position="top-left" />
-        <ResizeHandle position="top-center" />
-        <ResizeHandle position="top-right" />
-        <ResizeHandle position="bottom-left" />
-        <ResizeHandle position="bottom-center" />
-        <ResizeHandle position="bottom-right" />
+      <ResizeHandles $show={containerActive} aria-hidden="true">
+        {RESIZE_HANDLE_POSITIONS.map(position => (
+          <ResizeHandle
+            key={position}
+            position={position}
+            onPointerDown={(e) => startResize(position, e)}
+          />
+        ))}
       </ResizeHandles>
 
-      <NodesRow>
-        {nodes.map((node, index) => (
+      <DiagramCanvas>
+      <layout.Arrangement
+        nodes={nodes}
+        metrics={metrics}
+        scheme={activeScheme}
+        onNodeChange={handleLayoutNodeChange}
+        overlay={layout.dragReorder && dragState?.indicator && (
+          <DropIndicator
+            style={dragState.indicator.orientation === 'vertical'
+              ? { left: dragState.indicator.left - 1, top: dragState.indicator.top, width: 2, height: dragState.indicator.length }
+              : { left: dragState.indicator.left, top: dragState.indicator.top - 1, width: dragState.indicator.length, height: 2 }}
+            aria-hidden="true"
+          />
+        )}
+      >
+        {nodes.map((node, index) => {
+          // Layouts that don't accent their nodes use the color on their own decorations
+          const accentColor = layout.accentedNodes ? getNodeColor(activeScheme, index, nodes.length, node.color) : undefined;
+          const openCommentCount = countOpenThreads(commentThreads, node.id);
+          // Toolbar moves stay among the card's siblings in a hierarchy
+          const siblings = layout.hierarchical ? getChildren(nodes, nodeParents.get(node.id), nodeParents) : nodes;
+          const siblingIndex = siblings.indexOf(node);
+          const pointerDrag = dragState?.mode === 'pointer' && dragState.nodeId === node.id
+            ? dragState
+            : reparentDrag?.nodeId === node.id ? reparentDrag : null;
+          return (
           <NodeContainer 
             key={node.id} 
+            ref={(element: HTMLDivElement | null) => {
+              if (element) {
+                nodeRefs.current.set(node.id, element);
+              } else {
+                nodeRefs.current.delete(node.id);
+              }
+            }}
+            // Roving tab stop: only the selected (or first) card is in the tab order
+            tabIndex={pressedNode === node.id || (pressedNode === null && node.id === visibleNodes[0]?.id) ? 0 : -1}
             $isPressed={pressedNode === node.id}
+            $accentColor={accentColor}
+            $stacked={metrics.columns === 1 && nodes.length > 1}
+            $isDragging={!!pointerDrag}
+            $isLifted={dragState?.mode === 'keyboard' && dragState.nodeId === node.id}
+            $isDropTarget={reparentDrag?.targetId === node.id}
+            style={pointerDrag
+              ? { transform: `translate(${pointerDrag.deltaX}px, ${pointerDrag.deltaY}px)` }
+              : undefined}
+            onPointerDown={mouseHandlersDisabled || !startPointerDrag ? undefined : (e) => startPointerDrag(node.id, e)}
             onClick={() => handleNodeClick(node.id)}
+            onKeyDown={(e) => handleNodeKeyDown(node.id, e)}
+            role="listitem"
+            aria-label={`${node.title}, ${nodeName} ${index + 1} of ${nodes.length}`}
+            aria-current={pressedNode === node.id ? 'true' : undefined}
           >
-            <div style={{ position: 'relative' }}>
-              {/* Menu backdrop - captures clicks outside the menu */}
-              {insertPictureMenuOpen === node.id && (
-                <MenuBackdrop onClick={(e) => handleInsertPictureClick(node.id, e)} />
-              )}
+            {/* Picture, for layouts that show one */}
+            {layout.supportsImages && (
+              <div style={{ position: 'relative' }}>
+                {/* Menu backdrop - captures clicks outside the menu */}
+                {insertPictureMenuOpen === node.id && (
+                  <MenuBackdrop onClick={(e) => handleInsertPictureClick(node.id, e)} />
+                )}
               
-              <ImageContainer 
-                $isHovered={hoveredNode === node.id || insertPictureMenuOpen === node.id}
-                onMouseEnter={mouseHandlersDisabled ? undefined : () => setHoveredNode(node.id)}
-                onMouseLeave={mouseHandlersDisabled ? undefined : () => setHoveredNode(null)}
-              >
-                <NodeImage 
-                  src={node.image} 
-                  alt={node.title}
-                  onError={(e) => {
-                    console.error('Failed to load image:', node.image);
-                    
-                    // Only show error if this node isn't currently generating an image
-                    if (generatingImageForNode !== node.id) {
-                      // Replace with a guaranteed-to-work fallback image from Unsplash
-                      (e.target as HTMLImageElement).src = 'https://images.unsplash.com/photo-1579546929518-9e396f3cc809?w=800&h=600&q=80';
-                    }
-                  }}
-                />
-                <InsertPictureOverlay 
-                  $show={(hoveredNode === node.id && pressedNode !== node.id) || insertPictureMenuOpen === node.id}
+                <ImageContainer 
+                  $isHovered={hoveredNode === node.id || insertPictureMenuOpen === node.id}
+                  $aspect={(croppingNode === node.id && cropPreview ? cropPreview : node.imageCrop)?.aspect}
+                  $dropTarget={imageDropTarget === node.id}
+                  onDragOver={(e) => handleImageDragOver(node.id, e)}
+                  onDragLeave={handleImageDragLeave}
+                  onDrop={(e) => handleImageDrop(node.id, e)}
+                  onMouseEnter={mouseHandlersDisabled ? undefined : () => setHoveredNode(node.id)}
+                  onMouseLeave={mouseHandlersDisabled ? undefined : () => setHoveredNode(null)}
                 >
-                  <div 
-                    style={{ position: 'relative', zIndex: 900 }}
-                    onClick={(e) => e.stopPropagation()}
+                  <NodeImage 
+                    src={resolveImage(node.image)} 
+                    alt={node.title}
+                    style={getImageCropStyle(node.imageCrop)}
+                    // Native image dragging would drop a copy of the picture onto other cards
+                    draggable={false}
+                    onError={(e) => {
+                      console.error('Failed to load image:', node.image);
+                    
+                      // Only show error if this node isn't currently generating an image
+                      if (generatingImageForNode !== node.id) {
+                        // Replace with a guaranteed-to-work fallback image from Unsplash
+                        (e.target as HTMLImageElement).src = 'https://images.unsplash.com/photo-1579546929518-9e396f3cc809?w=800&h=600&q=80';
+                      }
+                    }}
+                  />
+                  <InsertPictureOverlay 
+                    $show={croppingNode !== node.id && ((hoveredNode === node.id && pressedNode !== node.id) || insertPictureMenuOpen === node.id)}
                   >
-                    <InsertButton 
-                      data-insert-button="true"
-                      id={`insert-button-${node.id}`} // Add an ID for easier reference
-                      onClick={(e) => {
-                        try {
-                          handleInsertPictureClick(node.id, e);
-                        } catch (err) {
-                          console.error("Error handling insert button click:", err);
-                          // Safe fallback
-                          setInsertPictureMenuOpen(node.id);
-                        }
-                      }}
-                      onMouseEnter={(e) => {
-                        e.stopPropagation();
-                        if (insertPictureMenuOpen !== null) e.preventDefault();
-                      }}
-                      onMouseLeave={(e) => {
-                        e.stopPropagation();
-                        if (insertPictureMenuOpen !== null) e.preventDefault();
-                      }}
+                    <div 
+                      style={{ position: 'relative', zIndex: 900 }}
+                      onClick={(e) => e.stopPropagation()}
                     >
-                      <InsertIcon />
-                    </InsertButton>
-                  </div>
-                </InsertPictureOverlay>
+                      <InsertButton 
+                        data-insert-button="true"
+                        id={`insert-button-${node.id}`} // Add an ID for easier reference
+                        aria-label={`Insert picture for ${node.title}`}
+                        aria-haspopup="menu"
+                        aria-expanded={insertPictureMenuOpen === node.id}
+                        aria-controls={insertPictureMenuOpen === node.id ? `insert-picture-menu-${node.id}` : undefined}
+                        onClick={(e) => {
+                          try {
+                            handleInsertPictureClick(node.id, e);
+                          } catch (err) {
+                            console.error("Error handling insert button click:", err);
+                            // Safe fallback
+                            setInsertPictureMenuOpen(node.id);
+                          }
+                        }}
+                        onMouseEnter={(e) => {
+                          e.stopPropagation();
+                          if (insertPictureMenuOpen !== null) e.preventDefault();
+                        }}
+                        onMouseLeave={(e) => {
+                          e.stopPropagation();
+                          if (insertPictureMenuOpen !== null) e.preventDefault();
+                        }}
+                      >
+                        <InsertIcon aria-hidden="true" />
+                      </InsertButton>
+                    </div>
+                  </InsertPictureOverlay>
                 
-                {/* Loading overlay - shown when generating image */}
-                {generatingImageForNode === node.id && (
-                  <LoadingOverlay>
-                    <LoadingSpinner />
-                    <div>Generating image...</div>
-                  </LoadingOverlay>
-                )}
-              </ImageContainer>
-
-            </div>
+                  {croppingNode === node.id && (
+                    <ImageCropEditor
+                      src={resolveImage(node.image)}
+                      alt={node.title}
+                      crop={node.imageCrop}
+                      onPreview={setCropPreview}
+                      onDone={(crop) => handleCropDone(node.id, crop)}
+                      onCancel={() => closeCropEditor(node.id)}
+                    />
+                  )}
+
+                  {node.imageAttribution && (
+                    <ImageCredit title={`Photo: ${formatAttribution(node.imageAttribution)}`}>
+                      {formatAttribution(node.imageAttribution)}
+                    </ImageCredit>
+                  )}
+
+                  {/* Loading overlay - shown while the image provider is working */}
+                  {generatingImageForNode === node.id && (
+                    <LoadingOverlay>
+                      <LoadingSpinner aria-hidden="true" />
+                      <div aria-hidden="true">Loading image...</div>
+                      <LoadingCancelButton
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          cancelImageRequest();
+                        }}
+                      >
+                        Cancel
+                      </LoadingCancelButton>
+                    </LoadingOverlay>
+                  )}
+                </ImageContainer>
+
+              </div>
+            )}
             
             <TextContainer $isPressed={pressedNode === node.id}>
               {editingTitle === node.id ? (
                 <TitleInput 
                   ref={titleInputRef}
                   $isPressed={true}
+                  $accentColor={accentColor}
                   value={node.title}
                   onChange={(e) => handleTitleChange(node.id, e.target.value)}
+                  onKeyDown={(e) => handleTextKeyDown(node.id, 'title', e)}
+                  aria-label={`${NodeName} title`}
                   placeholder="Heading 4"
                 />
               ) : (
                 <Title 
                   $isPressed={pressedNode === node.id}
                   $isEditing={editingTitle === node.id}
+                  $accentColor={accentColor}
                   onClick={(e) => handleTitleClick(node.id, e)}
                 >
                   {node.title}
@@ -1229,6 +2523,8 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
                   value={node.body}
                   onChange={(e) => handleBodyChange(node.id, e.target.value)}
                   onInput={(e) => autoResizeTextarea(e.target as HTMLTextAreaElement)}
+                  onKeyDown={(e) => handleTextKeyDown(node.id, 'body', e)}
+                  aria-label={`${NodeName} description`}
                   placeholder="Description"
                   rows={3}
                 />
@@ -1242,159 +2538,184 @@ const ListSmartArt: React.FC<SmartArtProps> = ({ nodes: initialNodes }) => {
               )}
             </TextContainer>
             
+            {/* Badge for cards with open comment threads */}
+            {openCommentCount > 0 && (
+              <CommentBadge
+                aria-label={`${openCommentCount} open ${openCommentCount === 1 ? 'comment' : 'comments'}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleComments({ type: 'node', nodeId: node.id });
+                }}
+              >
+                <img src={commentBaseIcon} alt="" />
+                {openCommentCount}
+              </CommentBadge>
+            )}
+            
             {/* Floating toolbar for pressed state */}
-            <FloatingToolbar $show={pressedNode === node.id}>
-              <ToolbarButton title="Move Left" onClick={(e) => handleMoveLeft(node.id, e)}>
-                <ToolbarIcon icon="arrow-left" />
+            <FloatingToolbar $show={pressedNode === node.id} role="toolbar" aria-label={`${NodeName} actions`}>
+              <ToolbarButton
+                title="Move Left"
+                aria-label="Move Left"
+                disabled={siblingIndex === 0}
+                onClick={(e) => handleMoveLeft(node.id, e)}
+              >
+                <ToolbarIcon icon="arrow-left" aria-hidden="true" />
+              </ToolbarButton>
+              <ToolbarButton
+                title="Move Right"
+                aria-label="Move Right"
+                disabled={siblingIndex === siblings.length - 1}
+                onClick={(e) => handleMoveRight(node.id, e)}
+              >
+                <ToolbarIcon icon="arrow-right" aria-hidden="true" />
+              </ToolbarButton>
+              <ToolbarDivider role="separator" />
+              <ToolbarButton
+                title="Comment"
+                aria-label={`Comment on ${nodeName}`}
+                aria-pressed={commentsAnchor?.type === 'node' && commentsAnchor.nodeId === node.id}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleComments({ type: 'node', nodeId: node.id });
+                }}
+              >
+                <ContainerToolbarIcon icon="comment" aria-hidden="true" />
               </ToolbarButton>
-              <ToolbarButton title="Move Right" onClick={(e) => handleMoveRight(node.id, e)}>
-                <ToolbarIcon icon="arrow-right" />
+              {layout.supportsImages && (
+                <ToolbarButton
+                  title="Crop Picture"
+                  aria-label="Crop Picture"
+                  aria-pressed={croppingNode === node.id}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setCropPreview(null);
+                    setCroppingNode(croppingNode === node.id ? null : node.id);
+                  }}
+                >
+                  <ContainerToolbarIcon icon="crop" aria-hidden="true" />
+                </ToolbarButton>
+              )}
+              <ToolbarButton
+                title={`${NodeName} Color`}
+                aria-label={`${NodeName} Color`}
+                aria-haspopup="true"
+                aria-expanded={colorPickerOpen === node.id}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setColorPickerOpen(colorPickerOpen === node.id ? null : node.id);
+                }}
+              >
+                <ContainerToolbarIcon icon="color" aria-hidden="true" />
               </ToolbarButton>
-              <ToolbarDivider />
-              <ToolbarButton title="Delete" onClick={(e) => handleDeleteNode(node.id, e)}>
-                <ToolbarIcon icon="delete" />
+              <ToolbarDivider role="separator" />
+              <ToolbarButton
+                title="Delete"
+                aria-label="Delete"
+                disabled={nodes.length <= 1}
+                onClick={(e) => handleDeleteNode(node.id, e)}
+              >
+                <ToolbarIcon icon="delete" aria-hidden="true" />
               </ToolbarButton>
+              {colorPickerOpen === node.id && (
+                <ColorSwatchPicker
+                  colors={getSwatchColors(activeScheme)}
+                  selectedColor={node.color}
+                  onSelect={(color) => handleNodeColorSelect(node.id, color)}
+                  onClose={() => setColorPickerOpen(null)}
+                />
+              )}
             </FloatingToolbar>
           </NodeContainer>
-        ))}
-      </NodesRow>
-
-      {/* Add buttons - positioned at beginning, between columns, and at end */}
-      {/* Left edge "+" button - only show when container hovered and no node is pressed */}
-      {containerHovered && pressedNode === null && (
-        <AddButton 
-          key="add-left-edge"
-          onClick={() => handleAddClick(0)} 
-          style={{ 
-            left: "-12px",
-            opacity: 1 // Force opacity to ensure visibility
-          }}
-          $containerActive={containerActive}
-        >
-          +
-        </AddButton>
-      )}
-
-      {/* Between-column "+" buttons - only render when container hovered and no node is pressed */}
-      {containerHovered && pressedNode === null && nodes.length > 1 && 
-        Array.from({ length: nodes.length - 1 }, (_, idx) => {
-          const nodeWidth = 200;
-          const nodeGap = 24;
-          const position = idx + 1;
-          
-          // Calculate exact position including container padding (20px)
-          // Container padding + first node width + first node ending position + half the gap
-          const containerPadding = 20;
-          // Adding additional 6px left padding for fine-tuning as requested
-          const leftPos = containerPadding + (position * nodeWidth) + ((position - 1) * nodeGap) + (nodeGap / 2) + 6;
-          
-          return (
-            <AddButton 
-              key={`add-between-${idx}`}
-              onClick={() => handleAddClick(position)} 
-              style={{ 
-                left: `${leftPos}px`,
-                opacity: 1 // Force opacity to ensure visibility
-              }}
-              $containerActive={containerActive}
-            >
-              +
-            </AddButton>
           );
-        })
+        })}
+      </layout.Arrangement>
+
+      {/* Add buttons where the layout puts them - only when hovered and no node is pressed */}
+      {containerHovered && pressedNode === null && !dragState && !reparentDrag &&
+        layout.getAddButtons(nodes, metrics).map(button => (
+          <AddButton
+            key={`add-${button.index}-${button.x}-${button.y}`}
+            onClick={() => handleAddClick(button.index, button.parentId)}
+            aria-label={button.label}
+            style={{
+              left: `${button.x - 12}px`,
+              top: typeof button.y === 'number' ? `${button.y}px` : button.y,
+              opacity: 1 // Force opacity to ensure visibility
+            }}
+            $containerActive={containerActive}
+          >
+            +
+          </AddButton>
+        ))
       }
-      
-      {/* Right edge "+" button - only show when container hovered and no node is pressed */}
-      {containerHovered && pressedNode === null && (
-        <AddButton 
-          key="add-right-edge"
-          onClick={() => handleAddClick(nodes.length)} 
-          style={{ 
-            right: "-12px",
-            left: "auto",
-            opacity: 1 // Force opacity to ensure visibility
-          }}
-          $containerActive={containerActive}
-        >
-          +
-        </AddButton>
-      )}
+      </DiagramCanvas>
     </SmartArtContainer>
     </>
   );
-};
-
-// Styled components for tab interface
-const TabContainer = styled.div`
-  display: flex;
-  flex-direction: column;
-  align-items: center;
-  width: 100%;
-  margin: 0;
-`;
-
-const TabHeader = styled.div`
-  display: flex;
-  justify-content: center;
-  margin: 0;
-  padding: 0;
-  border-bottom: 1px solid #e0e0e0;
-  width: 100%;
-  background-color: white;
-  height: 50px;
-  position: fixed;
-  top: 0;
-  left: 0;
-  right: 0;
-  z-index: 1000;
-`;
-
-const TabButton = styled.button<{ $active: boolean }>`
-  padding: 0 24px;
-  height: 100%;
-  font-size: 16px;
-  font-weight: ${props => props.$active ? '600' : '400'};
-  background-color: transparent;
-  border: none;
-  border-bottom: 3px solid ${props => props.$active ? '#3498db' : 'transparent'};
-  color: ${props => props.$active ? '#3498db' : '#666'};
-  cursor: pointer;
-  transition: all 0.2s ease;
-  margin: 0 10px;
-  
-  &:hover {
-    color: #3498db;
-    border-bottom-color: ${props => props.$active ? '#3498db' : '#e0e0e0'};
-  }
-  
-  &:focus {
-    outline: none;
-  }
-`;
-
-const TabContent = styled.div`
-  width: 100%;
-  margin-top: 50px; /* Equal to the height of TabHeader */
-`;
+});
+
+SmartArt.displayName = 'SmartArt';
+
+// Starts in the list layout
+const ListSmartArt = forwardRef<SmartArtHandle & SmartArtDocumentHandle, Omit<SmartArtProps, 'layout' | 'defaultLayout'>>((props, ref) => (
+  <SmartArt ref={ref} {...props} defaultLayout="list" />
+));
+
+ListSmartArt.displayName = 'ListSmartArt';
+
+// Starts in the hierarchy layout; nodes name their parent with `parentId`
+const HierarchySmartArt = forwardRef<SmartArtHandle & SmartArtDocumentHandle, Omit<SmartArtProps, 'layout' | 'defaultLayout'>>((props, ref) => (
+  <SmartArt ref={ref} {...props} defaultLayout="hierarchy" />
+));
+
+HierarchySmartArt.displayName = 'HierarchySmartArt';
+
+// Cycle nodes call the step text `description`; the editor stores it as `body`
+const fromCycleNode = ({ description, image = '', ...node }: CycleNode): Node => ({ ...node, body: description, image });
+const toCycleNode = ({ body, image, ...node }: Node): CycleNode => ({ ...node, description: body, ...(image ? { image } : {}) });
+
+// Starts in the cycle layout, with the node shape it has always had
+const CycleSmartArt = forwardRef<SmartArtHandle & SmartArtDocumentHandle, CycleSmartArtProps>(({
+  nodes,
+  defaultNodes,
+  onNodesChange,
+  ...props
+}, ref) => {
+  // The array last sent to the host and the editor nodes it was made from
+  const lastEmittedRef = useRef<{ cycleNodes: CycleNode[]; nodes: Node[] } | null>(null);
+
+  // Converted once per array, and not at all when the host hands back what it was sent,
+  // so the editor (and its Text Panel) sees the same nodes instead of a copy every render
+  const editorNodes = useMemo(() => {
+    if (!nodes) return undefined;
+    const lastEmitted = lastEmittedRef.current;
+    return lastEmitted?.cycleNodes === nodes ? lastEmitted.nodes : nodes.map(fromCycleNode);
+  }, [nodes]);
+  const editorDefaultNodes = useMemo(() => defaultNodes?.map(fromCycleNode), [defaultNodes]);
+
+  const handleNodesChange = onNodesChange && ((nextNodes: Node[]) => {
+    const cycleNodes = nextNodes.map(toCycleNode);
+    lastEmittedRef.current = { cycleNodes, nodes: nextNodes };
+    onNodesChange(cycleNodes);
+  });
 
-// Fade wrapper for smooth transitions
-const FadeWrapper = styled.div<{ $show: boolean }>`
-  opacity: ${props => props.$show ? '1' : '0'};
-  display: ${props => props.$show ? 'block' : 'none'};
-  transition: opacity 0.3s ease;
-  width: 100%;
-`;
-
-// Demo component that renders ListSmartArt (CycleSmartArt temporarily hidden)
-const SmartArtDemo: React.FC<SmartArtProps> = (props) => {
-  // Simplified component without tabs - only showing ListSmartArt
   return (
-    <div style={{ width: '100%' }}>
-      <ListSmartArt {...props} />
-    </div>
+    <SmartArt
+      ref={ref}
+      {...props}
+      defaultLayout="cycle"
+      nodes={editorNodes}
+      defaultNodes={editorDefaultNodes}
+      onNodesChange={handleNodesChange}
+    />
   );
-};
+});
+
+CycleSmartArt.displayName = 'CycleSmartArt';
 
 // Export the components
-export { ListSmartArt, CycleSmartArt };
-export default SmartArtDemo;
+export { SmartArt, ListSmartArt, HierarchySmartArt, CycleSmartArt };
+export type { Node as ListSmartArtNode, CycleNode, SmartArtProps, CycleSmartArtProps, SmartArtHandle, DiagramSize, CommentThread, CommentAction, ImageCrop, SmartArtDocument, SmartArtDocumentHandle, ListOrientation };
+export default SmartArt;
@@ -0,0 +1,436 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import styled from 'styled-components';
+import { ImageAttribution, isAbortError } from '../imageProviders/imageProvider';
+import { StockCatalogSource, StockImage } from '../imageProviders/stockCatalog';
+
+const PAGE_SIZE = 12;
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+const Backdrop = styled.div`
+  position: fixed;
+  inset: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: rgba(0, 0, 0, 0.4);
+  z-index: 1100;
+`;
+
+const Dialog = styled.div`
+  width: min(880px, calc(100vw - 32px));
+  height: min(600px, calc(100vh - 32px));
+  display: flex;
+  flex-direction: column;
+  background: white;
+  border-radius: 8px;
+  box-shadow: 0px 0px 8px 0px rgba(0, 0, 0, 0.12), 0px 32px 64px 0px rgba(0, 0, 0, 0.24);
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  color: #242424;
+  text-align: left;
+`;
+
+const DialogHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 16px 16px 8px 20px;
+  font-size: 18px;
+  font-weight: 600;
+`;
+
+const IconButton = styled.button`
+  width: 28px;
+  height: 28px;
+  border: none;
+  border-radius: 4px;
+  background: none;
+  font-size: 18px;
+  line-height: 1;
+  color: #424242;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: #f5f5f5;
+    outline: none;
+  }
+`;
+
+const SearchInput = styled.input`
+  margin: 0 20px;
+  padding: 8px 10px;
+  border: 1px solid #D1D1D1;
+  border-radius: 4px;
+  font-family: inherit;
+  font-size: 14px;
+
+  &:focus {
+    outline: none;
+    border-color: #3498db;
+  }
+`;
+
+const CategoryRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+  padding: 10px 20px;
+`;
+
+const CategoryChip = styled.button<{ $selected: boolean }>`
+  padding: 4px 12px;
+  border-radius: 14px;
+  border: 1px solid ${props => props.$selected ? '#3498db' : '#D1D1D1'};
+  background: ${props => props.$selected ? '#EBF5FB' : 'white'};
+  color: ${props => props.$selected ? '#1E6FA8' : '#424242'};
+  font-family: inherit;
+  font-size: 13px;
+  text-transform: capitalize;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    border-color: #3498db;
+    outline: none;
+  }
+`;
+
+const DialogBody = styled.div`
+  flex: 1;
+  min-height: 0;
+  display: flex;
+  gap: 16px;
+  padding: 0 20px;
+`;
+
+const ResultsGrid = styled.div`
+  flex: 1;
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(140px, 1fr));
+  grid-auto-rows: 105px;
+  gap: 8px;
+  overflow-y: auto;
+  align-content: start;
+`;
+
+const Thumbnail = styled.button<{ $selected: boolean }>`
+  padding: 0;
+  border: 2px solid ${props => props.$selected ? '#3498db' : 'transparent'};
+  border-radius: 4px;
+  background: #f5f5f5;
+  overflow: hidden;
+  cursor: pointer;
+
+  & > img {
+    width: 100%;
+    height: 100%;
+    object-fit: cover;
+    display: block;
+  }
+
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 2px;
+  }
+`;
+
+const PreviewPane = styled.div`
+  width: 260px;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  font-size: 13px;
+
+  & > img {
+    width: 100%;
+    height: 180px;
+    object-fit: cover;
+    border-radius: 4px;
+    background: #f5f5f5;
+  }
+`;
+
+const Attribution = styled.div`
+  font-size: 12px;
+  color: #616161;
+
+  & a {
+    color: #1E6FA8;
+  }
+`;
+
+const StatusMessage = styled.div`
+  grid-column: 1 / -1;
+  padding: 24px 0;
+  font-size: 14px;
+  color: #757575;
+  text-align: center;
+`;
+
+const DialogFooter = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 12px 20px 16px 20px;
+  font-size: 13px;
+  color: #616161;
+`;
+
+const FooterButton = styled.button<{ $primary?: boolean }>`
+  padding: 6px 14px;
+  border-radius: 4px;
+  border: 1px solid ${props => props.$primary ? '#3498db' : '#D1D1D1'};
+  background: ${props => props.$primary ? '#3498db' : 'white'};
+  color: ${props => props.$primary ? 'white' : '#242424'};
+  font-family: inherit;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
+  &:focus-visible {
+    outline: 2px solid #3498db;
+    outline-offset: 2px;
+  }
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+`;
+
+export const formatAttribution = (attribution: ImageAttribution) =>
+  attribution.source && attribution.source !== attribution.name
+    ? `${attribution.name} / ${attribution.source}`
+    : attribution.name;
+
+interface StockImagesDialogProps {
+  catalog: StockCatalogSource;
+  // Pre-fills the search, usually with the card's title; cleared if it matches nothing
+  initialQuery?: string;
+  onInsert: (image: StockImage) => void;
+  onClose: () => void;
+}
+
+/**
+ * StockImagesDialog - Modal browser for the stock image catalog
+ *
+ * Searches as you type, filters by category and pages through the results.
+ * Selecting a thumbnail previews it with its attribution; Insert (or double
+ * click) hands the image, attribution included, back to the diagram.
+ */
+const StockImagesDialog: React.FC<StockImagesDialogProps> = ({ catalog, initialQuery = '', onInsert, onClose }) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery);
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [page, setPage] = useState(1);
+  const [images, setImages] = useState<StockImage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<StockImage | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // Whether the results still come from the pre-filled query rather than the user's own
+  const prefilledRef = useRef(initialQuery.trim() !== '');
+
+  // Focus the search box on open and give focus back to the opener on close
+  useEffect(() => {
+    const returnFocusTo = document.activeElement as HTMLElement | null;
+    searchInputRef.current?.focus();
+    searchInputRef.current?.select();
+    return () => returnFocusTo?.focus();
+  }, []);
+
+  // A new query or category starts again from the first page
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedQuery(query);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    catalog.search(debouncedQuery, { category, page, perPage: PAGE_SIZE, signal: controller.signal })
+      .then(result => {
+        // A card title rarely names a stock photo; show the whole catalog rather than nothing
+        if (prefilledRef.current) {
+          prefilledRef.current = false;
+          if (result.images.length === 0) {
+            setQuery('');
+            setDebouncedQuery('');
+            return;
+          }
+        }
+        setImages(result.images);
+        setHasMore(result.hasMore);
+        setTotal(result.total);
+        setLoading(false);
+      })
+      .catch((searchError: unknown) => {
+        if (isAbortError(searchError)) return;
+        setImages([]);
+        setHasMore(false);
+        setError(searchError instanceof Error ? searchError.message : 'Search failed');
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [catalog, debouncedQuery, category, page]);
+
+  // Keep Tab inside the dialog and close on Escape
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      onClose();
+      return;
+    }
+    if (event.key !== 'Tab' || !dialogRef.current) return;
+
+    const focusable = Array.from(
+      dialogRef.current.querySelectorAll<HTMLElement>('button:not(:disabled), input, a[href]')
+    );
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  const pageCount = total !== undefined ? Math.max(1, Math.ceil(total / PAGE_SIZE)) : undefined;
+
+  return ReactDOM.createPortal(
+    <Backdrop
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Dialog
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="stock-images-title"
+        data-native-undo
+        onKeyDown={handleKeyDown}
+      >
+        <DialogHeader>
+          <span id="stock-images-title">Stock Images</span>
+          <IconButton aria-label="Close" title="Close" onClick={onClose}>×</IconButton>
+        </DialogHeader>
+
+        <SearchInput
+          ref={searchInputRef}
+          type="search"
+          value={query}
+          placeholder={`Search ${catalog.name}`}
+          aria-label="Search stock images"
+          onChange={(e) => {
+            prefilledRef.current = false;
+            setQuery(e.target.value);
+          }}
+        />
+
+        <CategoryRow role="radiogroup" aria-label="Category">
+          {[undefined, ...catalog.categories].map(option => (
+            <CategoryChip
+              key={option ?? 'all'}
+              role="radio"
+              aria-checked={category === option}
+              $selected={category === option}
+              onClick={() => {
+                prefilledRef.current = false;
+                setCategory(option);
+                setPage(1);
+              }}
+            >
+              {option ?? 'All'}
+            </CategoryChip>
+          ))}
+        </CategoryRow>
+
+        <DialogBody>
+          <ResultsGrid role="listbox" aria-label="Results" aria-busy={loading}>
+            {error && <StatusMessage role="alert">{error}</StatusMessage>}
+            {!error && !loading && images.length === 0 && <StatusMessage>No images found.</StatusMessage>}
+            {images.map(image => (
+              <Thumbnail
+                key={image.id}
+                role="option"
+                aria-selected={selected?.id === image.id}
+                aria-label={image.title}
+                title={image.title}
+                $selected={selected?.id === image.id}
+                onClick={() => setSelected(image)}
+                onDoubleClick={() => onInsert(image)}
+              >
+                <img src={image.thumbnailUrl || image.url} alt="" loading="lazy" />
+              </Thumbnail>
+            ))}
+          </ResultsGrid>
+
+          <PreviewPane aria-live="polite">
+            {selected ? (
+              <>
+                <img src={selected.url} alt={selected.alt || selected.title} />
+                <strong>{selected.title}</strong>
+                {selected.attribution && (
+                  <Attribution>
+                    Photo:{' '}
+                    {selected.attribution.url ? (
+                      <a href={selected.attribution.url} target="_blank" rel="noreferrer">
+                        {formatAttribution(selected.attribution)}
+                      </a>
+                    ) : formatAttribution(selected.attribution)}
+                  </Attribution>
+                )}
+              </>
+            ) : (
+              <Attribution>Select an image to preview it.</Attribution>
+            )}
+          </PreviewPane>
+        </DialogBody>
+
+        <DialogFooter>
+          <ButtonGroup>
+            <FooterButton aria-label="Previous page" disabled={page <= 1 || loading} onClick={() => setPage(page - 1)}>
+              ‹
+            </FooterButton>
+            <span aria-live="polite">
+              {loading ? 'Loading…' : pageCount ? `Page ${page} of ${pageCount}` : `Page ${page}`}
+            </span>
+            <FooterButton aria-label="Next page" disabled={!hasMore || loading} onClick={() => setPage(page + 1)}>
+              ›
+            </FooterButton>
+          </ButtonGroup>
+          <ButtonGroup>
+            <FooterButton onClick={onClose}>Cancel</FooterButton>
+            <FooterButton $primary disabled={!selected} onClick={() => selected && onInsert(selected)}>
+              Insert
+            </FooterButton>
+          </ButtonGroup>
+        </DialogFooter>
+      </Dialog>
+    </Backdrop>,
+    document.body
+  );
+};
+
+export { StockImagesDialog };
+export default StockImagesDialog;
@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { OutlineLine, OutlineNode, createLineKey, nodesToOutline, outlineToNodes } from '../utils/outline';
+
+const PanelContainer = styled.div`
+  position: absolute;
+  top: 0;
+  right: calc(100% + 16px);
+  width: 260px;
+  max-height: 100%;
+  overflow-y: auto;
+  background: white;
+  border-radius: 8px;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 4px 8px 0px rgba(0, 0, 0, 0.14);
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  z-index: 25;
+  text-align: left;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 8px 8px 8px 12px;
+  border-bottom: 1px solid #ECECEC;
+  font-size: 14px;
+  font-weight: 600;
+  color: #242424;
+`;
+
+const CloseButton = styled.button`
+  width: 24px;
+  height: 24px;
+  border: none;
+  border-radius: 4px;
+  background: none;
+  font-size: 16px;
+  line-height: 1;
+  color: #424242;
+  cursor: pointer;
+
+  &:hover, &:focus-visible {
+    background: #f5f5f5;
+    outline: none;
+  }
+`;
+
+const OutlineList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 8px 12px 12px 12px;
+`;
+
+const OutlineItem = styled.li<{ $level: 0 | 1; $depth: number }>`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding-left: ${props => (props.$depth + props.$level) * 18}px;
+
+  &::before {
+    content: '';
+    flex: none;
+    width: ${props => props.$level === 1 ? '4px' : '6px'};
+    height: ${props => props.$level === 1 ? '4px' : '6px'};
+    border-radius: 50%;
+    background: ${props => props.$level === 1 ? '#616161' : '#242424'};
+  }
+`;
+
+const LineInput = styled.input<{ $level: 0 | 1 }>`
+  flex: 1;
+  min-width: 0;
+  border: none;
+  outline: none;
+  background: transparent;
+  padding: 3px 2px;
+  font-family: inherit;
+  font-size: ${props => props.$level === 1 ? '13px' : '14px'};
+  font-weight: ${props => props.$level === 1 ? 400 : 600};
+  color: ${props => props.$level === 1 ? '#424242' : '#242424'};
+  border-radius: 2px;
+
+  &:focus {
+    background: rgba(52, 152, 219, 0.08);
+  }
+`;
+
+const PanelHint = styled.div`
+  padding: 0 12px 10px 12px;
+  font-size: 12px;
+  color: #757575;
+`;
+
+interface TextPanelProps<T extends OutlineNode> {
+  nodes: T[];
+  // `coalesceKey` groups keystrokes on one line into a single undo step
+  onNodesChange: (nodes: T[], coalesceKey?: string) => void;
+  createNode: (id: number) => T;
+  // Ids for new titles, when the host keeps its own so deleted ids aren't reused
+  allocateNodeId?: () => number;
+  // Titles nest under each other, following the cards' parents
+  hierarchical?: boolean;
+  onClose: () => void;
+}
+
+// End (exclusive) of the title at `index` with its body and every line nested under it
+const getBranchEnd = (lines: OutlineLine[], index: number) => {
+  let end = index + 1;
+  while (end < lines.length && !(lines[end].level === 0 && lines[end].depth <= lines[index].depth)) end++;
+  return end;
+};
+
+/**
+ * TextPanel - Outline editor for diagram content, like Office's SmartArt text pane
+ *
+ * Titles are top-level bullets and body lines are indented under them. Typing,
+ * Enter (new line), Backspace on an empty line (remove it) and Tab/Shift+Tab
+ * (indent/outdent) all update the diagram immediately, and changes made on the
+ * diagram are reflected back into the outline. In a hierarchy, Tab first moves a
+ * title (with its branch) under the title above, and Shift+Tab moves it back up.
+ */
+function TextPanel<T extends OutlineNode>({
+  nodes,
+  onNodesChange,
+  createNode,
+  allocateNodeId,
+  hierarchical = false,
+  onClose,
+}: TextPanelProps<T>) {
+  const [lines, setLines] = useState<OutlineLine[]>(() => nodesToOutline(nodes, hierarchical));
+  const [focusRequest, setFocusRequest] = useState<{ index: number; caret: number } | null>(null);
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+  // The nodes we last sent up; anything else arriving in props was changed elsewhere
+  const lastEmittedNodesRef = useRef(nodes);
+  const lastHierarchicalRef = useRef(hierarchical);
+
+  // Rebuild the outline when the diagram changes outside the panel (card edits, undo, layout, ...)
+  useEffect(() => {
+    if (nodes !== lastEmittedNodesRef.current || hierarchical !== lastHierarchicalRef.current) {
+      lastEmittedNodesRef.current = nodes;
+      lastHierarchicalRef.current = hierarchical;
+      setLines(nodesToOutline(nodes, hierarchical));
+    }
+  }, [nodes, hierarchical]);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    const input = inputRefs.current[focusRequest.index];
+    if (input) {
+      input.focus();
+      input.setSelectionRange(focusRequest.caret, focusRequest.caret);
+    }
+    setFocusRequest(null);
+  }, [focusRequest]);
+
+  const commitLines = (nextLines: OutlineLine[], coalesceKey?: string) => {
+    const result = outlineToNodes(nextLines, nodes, createNode, hierarchical, allocateNodeId);
+    lastEmittedNodesRef.current = result.nodes;
+    setLines(result.lines);
+    onNodesChange(result.nodes, coalesceKey);
+  };
+
+  const handleLineChange = (index: number, text: string) => {
+    const nextLines = lines.map((line, i) => i === index ? { ...line, text } : line);
+    commitLines(nextLines, `outline-${lines[index].key}`);
+  };
+
+  // Moves the title at `index` and its branch `delta` levels deeper
+  const shiftBranch = (index: number, delta: number) => {
+    const end = getBranchEnd(lines, index);
+    return lines.map((l, i) => (i >= index && i < end ? { ...l, depth: l.depth + delta } : l));
+  };
+
+  const handleLineKeyDown = (index: number, event: React.KeyboardEvent<HTMLInputElement>) => {
+    const line = lines[index];
+    const input = event.currentTarget;
+    const caret = input.selectionStart ?? line.text.length;
+
+    switch (event.key) {
+      case 'Enter': {
+        // Split the line at the caret; the new line keeps the same level
+        event.preventDefault();
+        const before = line.text.slice(0, caret);
+        const after = line.text.slice(input.selectionEnd ?? caret);
+        const nextLines = [...lines];
+        nextLines.splice(index, 1, { ...line, text: before }, { key: createLineKey(), level: line.level, depth: line.depth, text: after });
+        commitLines(nextLines);
+        setFocusRequest({ index: index + 1, caret: 0 });
+        break;
+      }
+      case 'Backspace': {
+        if (line.text !== '' || index === 0) return;
+        // Keep at least one card in the diagram
+        const titleCount = lines.filter(l => l.level === 0).length;
+        if (line.level === 0 && titleCount <= 1) return;
+
+        event.preventDefault();
+        const nextLines = lines.filter((_, i) => i !== index);
+        commitLines(nextLines);
+        setFocusRequest({ index: index - 1, caret: lines[index - 1].text.length });
+        break;
+      }
+      case 'Tab': {
+        event.preventDefault();
+        const previousTitle = lines.slice(0, index).reverse().find(l => l.level === 0);
+        const canNest = hierarchical && line.level === 0 && !!previousTitle && line.depth <= previousTitle.depth;
+        if (!event.shiftKey && canNest) {
+          // Indent in a hierarchy: the card moves under the one above, with its branch
+          commitLines(shiftBranch(index, 1));
+        } else if (event.shiftKey && hierarchical && line.level === 0 && line.depth > 0) {
+          // Outdent in a hierarchy: the card moves up a level, with its branch
+          commitLines(shiftBranch(index, -1));
+        } else if (!event.shiftKey && line.level === 0 && index > 0) {
+          // Indent: the title becomes body text of the card above
+          const nextLines = lines.map((l, i) => i === index ? { ...l, level: 1 as const, nodeId: undefined } : l);
+          commitLines(nextLines);
+        } else if (event.shiftKey && line.level === 1) {
+          // Outdent: the body line becomes a new card, taking the lines below it along
+          const nextLines = lines.map((l, i) => i === index ? { ...l, level: 0 as const, nodeId: undefined } : l);
+          commitLines(nextLines);
+        }
+        setFocusRequest({ index, caret });
+        break;
+      }
+      case 'ArrowUp':
+        if (index > 0) {
+          event.preventDefault();
+          setFocusRequest({ index: index - 1, caret: Math.min(caret, lines[index - 1].text.length) });
+        }
+        break;
+      case 'ArrowDown':
+        if (index < lines.length - 1) {
+          event.preventDefault();
+          setFocusRequest({ index: index + 1, caret: Math.min(caret, lines[index + 1].text.length) });
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        onClose();
+        break;
+      default:
+        break;
+    }
+  };
+
+  return (
+    <PanelContainer
+      role="region"
+      aria-label="Text Panel"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <PanelHeader>
+        Type your text here
+        <CloseButton aria-label="Close Text Panel" title="Close" onClick={onClose}>×</CloseButton>
+      </PanelHeader>
+      <OutlineList role="tree" aria-label="Diagram outline">
+        {lines.map((line, index) => (
+          <OutlineItem key={line.key} $level={line.level} $depth={line.depth} role="treeitem" aria-level={line.depth + line.level + 1} aria-selected={false}>
+            <LineInput
+              ref={(element) => { inputRefs.current[index] = element; }}
+              $level={line.level}
+              value={line.text}
+              placeholder={line.level === 0 ? '[Text]' : ''}
+              aria-label={line.level === 0 ? 'Card title' : 'Card description line'}
+              onChange={(e) => handleLineChange(index, e.target.value)}
+              onKeyDown={(e) => handleLineKeyDown(index, e)}
+            />
+          </OutlineItem>
+        ))}
+      </OutlineList>
+      <PanelHint>Enter adds a line, Tab and Shift+Tab change its level.</PanelHint>
+    </PanelContainer>
+  );
+}
+
+export { TextPanel };
+export default TextPanel;
@@ -0,0 +1,21 @@
+import styled from 'styled-components';
+
+/**
+ * VisuallyHidden - Content that is read by screen readers but not shown on screen
+ *
+ * Used for live-region announcements and diagram descriptions.
+ */
+const VisuallyHidden = styled.div`
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  padding: 0;
+  margin: -1px;
+  overflow: hidden;
+  clip: rect(0, 0, 0, 0);
+  white-space: nowrap;
+  border: 0;
+`;
+
+export { VisuallyHidden };
+export default VisuallyHidden;
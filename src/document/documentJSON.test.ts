@@ -0,0 +1,62 @@
+import { exportJSON, importJSON } from './documentJSON';
+import { createDocument } from './smartArtDocument';
+import { DocumentValidationError } from './validateDocument';
+
+const document = createDocument('hierarchy', [
+  { id: 1, title: 'CEO', body: 'Runs the company', image: 'asset:ceo', imageAttribution: { name: 'Ana', source: 'Unsplash' } },
+  { id: 2, title: 'CTO', body: '', parentId: 1, collapsed: true, stashed: { image: 'asset:cto' } },
+], {
+  styles: { colorScheme: 'colorful-1', orientation: 'wrap' },
+  size: { width: 640, height: 480 },
+  metadata: { title: 'Org chart', author: 'Ana' },
+});
+
+// The error thrown by `run`, for checking its listed problems
+const getErrors = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error: unknown) {
+    if (error instanceof DocumentValidationError) return error.errors;
+    throw error;
+  }
+  throw new Error('Expected a DocumentValidationError');
+};
+
+describe('exportJSON and importJSON', () => {
+  it('round-trip a document unchanged', () => {
+    expect(importJSON(exportJSON(document))).toEqual(document);
+  });
+
+  it('writes compact JSON unless asked to indent it', () => {
+    expect(exportJSON(document)).not.toContain('\n');
+    expect(exportJSON(document, { pretty: true })).toContain('\n  "version": 1');
+  });
+
+  it('refuses to export an invalid document', () => {
+    const invalid = { ...document, nodes: [...document.nodes, { ...document.nodes[0] }] };
+    expect(getErrors(() => exportJSON(invalid))).toEqual(['nodes[2].id 1 is used by another node']);
+  });
+
+  it('imports the bare node arrays older versions saved', () => {
+    const imported = importJSON(JSON.stringify([
+      { id: 1, title: 'Plan', description: 'Set goals' },
+      { id: 2, title: 'Do', description: 'Carry it out' },
+    ]));
+    expect(imported.layout).toBe('cycle');
+    expect(imported.nodes.map(node => node.body)).toEqual(['Set goals', 'Carry it out']);
+  });
+
+  it('reports JSON that does not parse', () => {
+    const [error] = getErrors(() => importJSON('{"version": 1,'));
+    expect(error).toMatch(/^not valid JSON \(.+\)$/);
+  });
+
+  it('reports migration and validation problems', () => {
+    expect(getErrors(() => importJSON('{"layout": "list"}'))).toEqual([
+      "version is missing; this doesn't look like a SmartArt document",
+    ]);
+    expect(getErrors(() => importJSON(JSON.stringify([{ id: 1, title: 'A', body: '' }, { id: 1, title: 'B', body: '' }])))).toEqual([
+      'nodes[1].id 1 is used by another node',
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+import { SmartArtDocument } from './smartArtDocument';
+import { migrateDocument } from './migrateDocument';
+import { DocumentValidationError, assertValidDocument } from './validateDocument';
+
+interface ExportJSONOptions {
+  // Indent the output for humans; compact by default
+  pretty?: boolean;
+}
+
+export const exportJSON = (document: SmartArtDocument, { pretty = false }: ExportJSONOptions = {}) => {
+  assertValidDocument(document);
+  return JSON.stringify(document, null, pretty ? 2 : undefined);
+};
+
+/**
+ * Parses, migrates and validates a saved document.
+ * Throws `DocumentValidationError` listing every problem when it can't be used.
+ */
+export const importJSON = (json: string): SmartArtDocument => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error: unknown) {
+    throw new DocumentValidationError([
+      `not valid JSON (${error instanceof Error ? error.message : 'parse error'})`,
+    ]);
+  }
+
+  const document = migrateDocument(parsed);
+  assertValidDocument(document);
+  return document;
+};
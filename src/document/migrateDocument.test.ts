@@ -0,0 +1,70 @@
+import { DEFAULT_COLOR_SCHEME_ID } from '../utils/colorSchemes';
+import { migrateDocument } from './migrateDocument';
+import { createDocument } from './smartArtDocument';
+import { DocumentValidationError, getDocumentErrors } from './validateDocument';
+
+describe('migrateDocument', () => {
+  it('leaves current documents unchanged', () => {
+    const document = createDocument('cycle', [{ id: 1, title: 'Plan', body: '' }]);
+    expect(migrateDocument(document)).toBe(document);
+  });
+
+  it('turns a bare list node array into a list document', () => {
+    const nodes = [
+      { id: 1, title: 'Plan', body: 'Set goals', image: 'https://example.com/a.jpg' },
+      { id: 2, title: 'Do', body: '', image: '' },
+    ];
+    const document = migrateDocument(nodes) as ReturnType<typeof createDocument>;
+
+    expect(getDocumentErrors(document)).toEqual([]);
+    expect(document).toMatchObject({
+      version: 1,
+      layout: 'list',
+      nodes,
+      styles: { colorScheme: DEFAULT_COLOR_SCHEME_ID },
+      size: null,
+      comments: [],
+    });
+    expect(document.metadata.createdAt).toBe(document.metadata.updatedAt);
+  });
+
+  it('reads cycle nodes, renaming `description` to `body`', () => {
+    const document = migrateDocument([
+      { id: 1, title: 'Plan', description: 'Set goals', color: '#3498db' },
+      { id: 2, title: 'Do', description: '' },
+    ]) as ReturnType<typeof createDocument>;
+
+    expect(getDocumentErrors(document)).toEqual([]);
+    expect(document.layout).toBe('cycle');
+    expect(document.nodes).toEqual([
+      { id: 1, title: 'Plan', body: 'Set goals', color: '#3498db' },
+      { id: 2, title: 'Do', body: '' },
+    ]);
+  });
+
+  it('treats an empty array as an empty list', () => {
+    expect(migrateDocument([])).toMatchObject({ layout: 'list', nodes: [] });
+  });
+
+  it('keeps what it does not recognise for validation to report', () => {
+    const document = migrateDocument([{ id: 1, title: 'Plan', body: 'ok' }, 'not a node']);
+    expect(getDocumentErrors(document)).toEqual(['nodes[1] must be an object, got string']);
+  });
+
+  it('rejects data without a version', () => {
+    expect(() => migrateDocument({ nodes: [] })).toThrow(DocumentValidationError);
+    expect(() => migrateDocument('nodes')).toThrow(
+      "version is missing; this doesn't look like a SmartArt document"
+    );
+  });
+
+  it('rejects documents from a newer version', () => {
+    expect(() => migrateDocument({ version: 7 })).toThrow(
+      'version 7 is newer than this app supports (1); update the app to open it'
+    );
+  });
+
+  it('rejects versions it has no migration for', () => {
+    expect(() => migrateDocument({ version: -1 })).toThrow('no migration from version -1');
+  });
+});
@@ -0,0 +1,64 @@
+import { DEFAULT_COLOR_SCHEME_ID } from '../utils/colorSchemes';
+import { CURRENT_DOCUMENT_VERSION } from './smartArtDocument';
+import { DocumentValidationError } from './validateDocument';
+
+type Migration = (document: unknown) => unknown;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Version 0: a bare node array. Cycle nodes called their text `description`.
+const migrateFromNodeArray: Migration = (nodes) => {
+  const items = nodes as unknown[];
+  const isCycle = items.length > 0 && items.every(node => isObject(node) && 'description' in node && !('body' in node));
+  const now = new Date().toISOString();
+
+  return {
+    version: 1,
+    layout: isCycle ? 'cycle' : 'list',
+    nodes: items.map(node => {
+      if (!isObject(node)) return node;
+      const { description, ...rest } = node;
+      return isCycle ? { ...rest, body: description } : rest;
+    }),
+    styles: { colorScheme: DEFAULT_COLOR_SCHEME_ID },
+    size: null,
+    comments: [],
+    metadata: { createdAt: now, updatedAt: now },
+  };
+};
+
+// Each entry upgrades a document from that version to the next one
+const MIGRATIONS: Record<number, Migration> = {
+  0: migrateFromNodeArray,
+};
+
+const getVersion = (value: unknown): number => {
+  if (Array.isArray(value)) return 0;
+  if (isObject(value) && typeof value.version === 'number') return value.version;
+  throw new DocumentValidationError(['version is missing; this doesn\'t look like a SmartArt document']);
+};
+
+/**
+ * Upgrades data saved by older versions to the current schema. The result still
+ * needs validating; migrations only reshape what they recognise.
+ */
+export const migrateDocument = (value: unknown): unknown => {
+  let version = getVersion(value);
+  if (version > CURRENT_DOCUMENT_VERSION) {
+    throw new DocumentValidationError([
+      `version ${version} is newer than this app supports (${CURRENT_DOCUMENT_VERSION}); update the app to open it`,
+    ]);
+  }
+
+  let document = value;
+  while (version < CURRENT_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new DocumentValidationError([`no migration from version ${version}`]);
+    }
+    document = migrate(document);
+    version = getVersion(document);
+  }
+  return document;
+};
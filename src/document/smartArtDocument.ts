@@ -0,0 +1,111 @@
+import type { CommentThread } from '../utils/comments';
+import type { DiagramSize } from '../hooks/useResizeDrag';
+import type { ImageAttribution } from '../imageProviders/imageProvider';
+import type { ImageCrop } from '../utils/imageCrop';
+import { DEFAULT_COLOR_SCHEME_ID } from '../utils/colorSchemes';
+
+/**
+ * Serialized form of a SmartArt diagram, shared by every layout.
+ *
+ * Version history:
+ * - 0: no document, just the node array hosts saved from `onNodesChange`
+ *   (list nodes with `body`, cycle nodes with `description`)
+ * - 1: this schema
+ *
+ * Bump `CURRENT_DOCUMENT_VERSION` and add a step to `migrateDocument` whenever
+ * the shape changes.
+ */
+export const CURRENT_DOCUMENT_VERSION = 1;
+
+export const LAYOUT_TYPES = ['list', 'cycle', 'hierarchy'] as const;
+
+export type LayoutType = typeof LAYOUT_TYPES[number];
+
+// How the list layout arranges its cards; `wrap` starts a new row when the page runs out of
+// room, and `auto` also shrinks the cards first and stacks them on narrow screens
+export const LIST_ORIENTATIONS = ['auto', 'horizontal', 'vertical', 'grid', 'wrap'] as const;
+
+export type ListOrientation = typeof LIST_ORIENTATIONS[number];
+
+export interface DocumentNode {
+  id: number;
+  title: string;
+  body: string;
+  image?: string;
+  imageAttribution?: ImageAttribution;
+  imageCrop?: ImageCrop;
+  // Overrides the color scheme for this node
+  color?: string;
+  // Parent in the hierarchy layout; nodes without one are at the top. Other layouts
+  // keep it and show the nodes in array order, which is also the order of siblings
+  parentId?: number;
+  // Hierarchy layout: the node's children are hidden
+  collapsed?: boolean;
+  // Picture fields the current layout can't show, kept so switching back restores them
+  stashed?: StashedNodeFields;
+}
+
+export type StashedNodeFields = Partial<Pick<DocumentNode, 'image' | 'imageAttribution' | 'imageCrop'>>;
+
+export interface DocumentStyles {
+  colorScheme: string;
+  // List arrangement; `auto` when left out
+  orientation?: ListOrientation;
+  // Cards per row in the `grid` orientation
+  columns?: number;
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  // ISO 8601 timestamps
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SmartArtDocument {
+  version: typeof CURRENT_DOCUMENT_VERSION;
+  layout: LayoutType;
+  nodes: DocumentNode[];
+  styles: DocumentStyles;
+  // Size set with the resize handles; null means the layout's natural size
+  size: DiagramSize | null;
+  comments: CommentThread[];
+  metadata: DocumentMetadata;
+}
+
+interface CreateDocumentOptions {
+  styles?: Partial<DocumentStyles>;
+  size?: DiagramSize | null;
+  comments?: CommentThread[];
+  metadata?: Partial<DocumentMetadata>;
+}
+
+export const createDocument = (
+  layout: LayoutType,
+  nodes: DocumentNode[],
+  { styles, size = null, comments = [], metadata }: CreateDocumentOptions = {}
+): SmartArtDocument => {
+  const now = new Date().toISOString();
+  return {
+    version: CURRENT_DOCUMENT_VERSION,
+    layout,
+    nodes,
+    styles: { colorScheme: DEFAULT_COLOR_SCHEME_ID, ...styles },
+    size,
+    comments,
+    metadata: { createdAt: now, ...metadata, updatedAt: now },
+  };
+};
+
+/**
+ * Imperative document access exposed by SmartArt components, alongside the
+ * history controls.
+ */
+export interface SmartArtDocumentHandle {
+  getDocument: () => SmartArtDocument;
+  // Replaces the diagram's content; undoable like any other edit
+  loadDocument: (document: SmartArtDocument) => void;
+  // `asset:` references in the diagram and its undo history, to keep when collecting unused assets
+  getAssetRefs: () => string[];
+}
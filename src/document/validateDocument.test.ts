@@ -0,0 +1,137 @@
+import { createDocument } from './smartArtDocument';
+import { DocumentValidationError, assertValidDocument, getDocumentErrors } from './validateDocument';
+
+const validDocument = () => createDocument('list', [
+  { id: 1, title: 'Plan', body: 'Set goals', image: 'asset:abc', color: '#3498db' },
+  { id: 2, title: 'Do', body: '', imageCrop: { focalX: 0.5, focalY: 0.5, zoom: 1 } },
+], {
+  styles: { orientation: 'grid', columns: 3 },
+  size: { width: 800, height: 400 },
+  comments: [{
+    id: 'c1',
+    author: 'Ana',
+    text: 'Shorter?',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    anchor: { type: 'node', nodeId: 1 },
+    resolved: false,
+    replies: [],
+  }],
+  metadata: { title: 'Cycle of work' },
+});
+
+// A valid document with some fields replaced, bypassing the types on purpose
+const withChanges = (changes: Record<string, unknown>) => ({ ...validDocument(), ...changes });
+
+describe('getDocumentErrors', () => {
+  it('accepts a valid document', () => {
+    expect(getDocumentErrors(validDocument())).toEqual([]);
+  });
+
+  it('accepts a hierarchy with collapsed branches', () => {
+    const document = createDocument('hierarchy', [
+      { id: 1, title: 'CEO', body: '', collapsed: true },
+      { id: 2, title: 'CTO', body: '', parentId: 1 },
+      { id: 3, title: 'Engineer', body: '', parentId: 2 },
+    ]);
+    expect(getDocumentErrors(document)).toEqual([]);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(getDocumentErrors(null)).toEqual(['document must be an object, got null']);
+    expect(getDocumentErrors([])).toEqual(['document must be an object, got an array']);
+  });
+
+  it('reports the wrong version', () => {
+    expect(getDocumentErrors(withChanges({ version: 2 }))).toEqual(['version must be 1, got 2']);
+  });
+
+  it('reports unknown layouts and orientations with the allowed values', () => {
+    expect(getDocumentErrors(withChanges({ layout: 'pyramid' }))).toEqual([
+      'layout must be one of "list", "cycle", "hierarchy"',
+    ]);
+    expect(getDocumentErrors(withChanges({ styles: { colorScheme: 'colorful-1', orientation: 'diagonal' } }))).toEqual([
+      'styles.orientation must be one of "auto", "horizontal", "vertical", "grid", "wrap"',
+    ]);
+  });
+
+  it('reports every bad field with its path', () => {
+    const errors = getDocumentErrors(withChanges({
+      nodes: [
+        { id: 1, title: 42, body: 'ok' },
+        { id: '2', title: 'Two', body: null, stashed: { image: 7 } },
+      ],
+      size: { width: 100 },
+      metadata: { createdAt: 'today' },
+    }));
+    expect(errors).toEqual([
+      'nodes[0].title must be a string, got number',
+      'nodes[1].id must be a number, got string',
+      'nodes[1].body must be a string, got null',
+      'nodes[1].stashed.image must be a string, got number',
+      'size.height must be a number, got undefined',
+      'metadata.updatedAt must be a string, got undefined',
+    ]);
+  });
+
+  it('checks comment anchors', () => {
+    const [thread] = validDocument().comments;
+    expect(getDocumentErrors(withChanges({ comments: [{ ...thread, anchor: { type: 'slide' } }] }))).toEqual([
+      'comments[0].anchor.type must be "diagram" or "node"',
+    ]);
+    expect(getDocumentErrors(withChanges({ comments: [{ ...thread, anchor: { type: 'node' } }] }))).toEqual([
+      'comments[0].anchor.nodeId must be a number, got undefined',
+    ]);
+  });
+
+  it('reports duplicate node ids', () => {
+    const errors = getDocumentErrors(withChanges({
+      nodes: [{ id: 1, title: 'A', body: '' }, { id: 1, title: 'B', body: '' }],
+    }));
+    expect(errors).toEqual(['nodes[1].id 1 is used by another node']);
+  });
+
+  it('reports parents that do not exist', () => {
+    const errors = getDocumentErrors(withChanges({
+      nodes: [{ id: 1, title: 'A', body: '' }, { id: 2, title: 'B', body: '', parentId: 9 }],
+    }));
+    expect(errors).toEqual(["nodes[1].parentId 9 doesn't match any node"]);
+  });
+
+  it('reports loops only on the nodes inside them', () => {
+    const errors = getDocumentErrors(withChanges({
+      nodes: [
+        { id: 1, title: 'A', body: '', parentId: 2 },
+        { id: 2, title: 'B', body: '', parentId: 1 },
+        { id: 3, title: 'C', body: '', parentId: 1 },
+        { id: 4, title: 'D', body: '', parentId: 4 },
+      ],
+    }));
+    expect(errors).toEqual([
+      'nodes[0].parentId makes node 1 its own ancestor',
+      'nodes[1].parentId makes node 2 its own ancestor',
+      'nodes[3].parentId makes node 4 its own ancestor',
+    ]);
+  });
+});
+
+describe('assertValidDocument', () => {
+  it('passes valid documents through', () => {
+    expect(() => assertValidDocument(validDocument())).not.toThrow();
+  });
+
+  it('throws a DocumentValidationError listing every problem', () => {
+    let thrown: unknown;
+    try {
+      assertValidDocument(withChanges({ layout: 'pyramid', size: 'big' }));
+    } catch (error: unknown) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(DocumentValidationError);
+    const { errors, message } = thrown as DocumentValidationError;
+    expect(errors).toEqual([
+      'layout must be one of "list", "cycle", "hierarchy"',
+      'size must be an object, got string',
+    ]);
+    expect(message).toBe(`Invalid SmartArt document: ${errors.join('; ')}`);
+  });
+});
@@ -0,0 +1,162 @@
+import { CURRENT_DOCUMENT_VERSION, LAYOUT_TYPES, LIST_ORIENTATIONS, SmartArtDocument } from './smartArtDocument';
+
+/**
+ * Thrown when data doesn't match the document schema. `errors` lists every
+ * problem with its path, e.g. `nodes[2].title must be a string`.
+ */
+export class DocumentValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid SmartArt document: ${errors.join('; ')}`);
+    this.name = 'DocumentValidationError';
+    this.errors = errors;
+  }
+}
+
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value);
+
+const string: Check = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path} must be a string, got ${typeOf(value)}`);
+};
+
+const finiteNumber: Check = (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path} must be a number, got ${typeOf(value)}`);
+};
+
+const boolean: Check = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path} must be true or false, got ${typeOf(value)}`);
+};
+
+const optional = (check: Check): Check => (value, path, errors) => {
+  if (value !== undefined) check(value, path, errors);
+};
+
+const object = (shape: Record<string, Check>): Check => (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object, got ${typeOf(value)}`);
+    return;
+  }
+  Object.entries(shape).forEach(([key, check]) => check(value[key], `${path}.${key}`, errors));
+};
+
+const arrayOf = (check: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array, got ${typeOf(value)}`);
+    return;
+  }
+  value.forEach((item, index) => check(item, `${path}[${index}]`, errors));
+};
+
+const oneOf = (options: readonly string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    errors.push(`${path} must be one of ${options.map(option => `"${option}"`).join(', ')}`);
+  }
+};
+
+const size = object({ width: finiteNumber, height: finiteNumber });
+
+const comment = { id: string, author: string, text: string, createdAt: string };
+
+const anchor: Check = (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object, got ${typeOf(value)}`);
+  } else if (value.type === 'node') {
+    finiteNumber(value.nodeId, `${path}.nodeId`, errors);
+  } else if (value.type !== 'diagram') {
+    errors.push(`${path}.type must be "diagram" or "node"`);
+  }
+};
+
+const pictureFields = {
+  image: optional(string),
+  imageAttribution: optional(object({ name: string, url: optional(string), source: optional(string) })),
+  imageCrop: optional(object({ focalX: finiteNumber, focalY: finiteNumber, zoom: finiteNumber, aspect: optional(finiteNumber) })),
+};
+
+const documentShape = object({
+  layout: oneOf(LAYOUT_TYPES),
+  nodes: arrayOf(object({
+    id: finiteNumber,
+    title: string,
+    body: string,
+    ...pictureFields,
+    color: optional(string),
+    parentId: optional(finiteNumber),
+    collapsed: optional(boolean),
+    stashed: optional(object(pictureFields)),
+  })),
+  styles: object({
+    colorScheme: string,
+    orientation: optional(oneOf(LIST_ORIENTATIONS)),
+    columns: optional(finiteNumber),
+  }),
+  size: (value, path, errors) => {
+    if (value !== null) size(value, path, errors);
+  },
+  comments: arrayOf(object({
+    ...comment,
+    anchor,
+    resolved: boolean,
+    replies: arrayOf(object(comment)),
+  })),
+  metadata: object({
+    title: optional(string),
+    author: optional(string),
+    createdAt: string,
+    updatedAt: string,
+  }),
+});
+
+// Every problem found in `value`, or an empty array for a valid current-version document
+export const getDocumentErrors = (value: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return [`document must be an object, got ${typeOf(value)}`];
+  }
+  if (value.version !== CURRENT_DOCUMENT_VERSION) {
+    errors.push(`document.version must be ${CURRENT_DOCUMENT_VERSION}, got ${JSON.stringify(value.version)}`);
+  }
+  documentShape(value, 'document', errors);
+
+  if (Array.isArray(value.nodes)) {
+    const ids = value.nodes.map(node => (isObject(node) ? node.id : undefined));
+    ids.forEach((id, index) => {
+      if (typeof id === 'number' && ids.indexOf(id) !== index) {
+        errors.push(`document.nodes[${index}].id ${id} is used by another node`);
+      }
+    });
+
+    // Parents must be other nodes of the document, and no node may be its own ancestor
+    const parents = new Map(value.nodes.flatMap(node =>
+      isObject(node) && typeof node.id === 'number' && typeof node.parentId === 'number' ? [[node.id, node.parentId] as const] : []
+    ));
+    value.nodes.forEach((node, index) => {
+      if (!isObject(node) || typeof node.parentId !== 'number') return;
+      if (!ids.includes(node.parentId)) {
+        errors.push(`document.nodes[${index}].parentId ${node.parentId} doesn't match any node`);
+        return;
+      }
+      const seen = new Set<number>();
+      for (let ancestor: number | undefined = node.parentId; ancestor !== undefined && !seen.has(ancestor); ancestor = parents.get(ancestor)) {
+        if (ancestor === node.id) {
+          errors.push(`document.nodes[${index}].parentId makes node ${node.id} its own ancestor`);
+          return;
+        }
+        seen.add(ancestor);
+      }
+    });
+  }
+  // Paths read better without the root prefix
+  return errors.map(error => error.replace(/^document\./, ''));
+};
+
+export function assertValidDocument(value: unknown): asserts value is SmartArtDocument {
+  const errors = getDocumentErrors(value);
+  if (errors.length > 0) throw new DocumentValidationError(errors);
+}
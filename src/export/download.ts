@@ -0,0 +1,15 @@
+/**
+ * Saves a blob or string through a temporary download link.
+ */
+export const downloadFile = (data: Blob | string, filename: string, type = 'application/octet-stream') => {
+  const blob = typeof data === 'string' ? new Blob([data], { type }) : data;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
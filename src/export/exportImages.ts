@@ -0,0 +1,59 @@
+import { AssetStore, isAssetRef } from '../assetStores/assetStore';
+
+export interface ExportImage {
+  // Data URL when the picture could be inlined, otherwise the original URL
+  href: string;
+  width?: number;
+  height?: number;
+}
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const getNaturalSize = (url: string) => new Promise<{ width: number; height: number } | null>(resolve => {
+  const image = new Image();
+  image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+  image.onerror = () => resolve(null);
+  image.src = url;
+});
+
+/**
+ * Loads a node's picture for export: resolves `asset:` references, inlines the
+ * data so the output stands alone and reads the natural size for cropping.
+ * Pictures that can't be fetched (e.g. blocked by CORS) are linked instead.
+ * Stored pictures are always inlined, since their URL is released once the
+ * export has them; one that can't be read gives null and the card is drawn
+ * without it.
+ */
+export const loadExportImage = async (
+  src: string,
+  { assetStore, inline = true }: { assetStore?: AssetStore; inline?: boolean } = {}
+): Promise<ExportImage | null> => {
+  let url = src;
+  const fromStore = assetStore && isAssetRef(src);
+  if (fromStore) url = await assetStore.resolve(src);
+
+  try {
+    let href = url;
+    if ((inline || fromStore) && !url.startsWith('data:')) {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      href = await blobToDataUrl(await response.blob());
+    }
+    const size = await getNaturalSize(href);
+    return { href, ...size };
+  } catch (error: unknown) {
+    if (fromStore) {
+      console.warn('Could not read stored picture for export, leaving it out:', src, error);
+      return null;
+    }
+    console.warn('Could not inline picture for export, linking it instead:', src, error);
+    return { href: url, ...(await getNaturalSize(url)) };
+  } finally {
+    if (fromStore) assetStore.release?.(src);
+  }
+};
@@ -0,0 +1,273 @@
+import { SmartArtDocument } from '../document/smartArtDocument';
+import { Scene, SceneCircle, SceneImage, SceneOptions, SceneRect, SceneText, buildScene } from './scene';
+import {
+  SLIDE_NAMESPACES,
+  appPropertiesXml,
+  contentTypesXml,
+  corePropertiesXml,
+  packageRelationshipsXml,
+  presentationRelationshipsXml,
+  presentationXml,
+  slideLayoutRelationshipsXml,
+  slideLayoutXml,
+  slideMasterRelationshipsXml,
+  slideMasterXml,
+  slideRelationshipsXml,
+  themeXml,
+} from './pptxTemplate';
+import { escapeXml } from './xml';
+import { ZipEntry, createZip } from './zip';
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// 16:9 widescreen slide
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+// English Metric Units per CSS pixel
+const EMU_PER_PX = 9525;
+// Space kept clear around the diagram on the slide, in pixels
+const SLIDE_MARGIN = 40;
+// PowerPoint's single line spacing is about 1.2 times the font size
+const SINGLE_LINE_SPACING = 1.2;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+export interface ExportPPTXOptions extends Omit<SceneOptions, 'inlineImages'> {
+  // Typeface for every text box; should be installed wherever the deck is opened
+  fontFamily?: string;
+}
+
+export interface PptxExportResult {
+  blob: Blob;
+  // Pictures that couldn't be read or aren't a format PowerPoint can embed
+  skippedImages: number;
+}
+
+interface SlideTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface EmbeddedImage {
+  id: string;
+  target: string;
+  extension: string;
+  data: Uint8Array;
+}
+
+const decodeDataUrl = (url: string) => {
+  const match = /^data:([^;,]+)(;base64)?,([\s\S]*)$/.exec(url);
+  if (!match) return null;
+  const [, mimeType, base64, payload] = match;
+  if (base64) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { mimeType, bytes };
+  }
+  return { mimeType, bytes: new TextEncoder().encode(decodeURIComponent(payload)) };
+};
+
+// Anything that isn't a hex color (documents can hold any string) is drawn black
+const toHexColor = (color: string) => {
+  const hex = color.replace('#', '');
+  const value = (hex.length === 3 ? hex.split('').map(char => char + char).join('') : hex.slice(0, 6)).toUpperCase();
+  return /^[0-9A-F]{6}$/.test(value) ? value : '000000';
+};
+
+const emu = (px: number) => Math.round(px * EMU_PER_PX);
+
+/**
+ * Serializes each scene item as DrawingML. Shapes are numbered from 3 because 1
+ * is the slide's shape tree and 2 the group holding the diagram.
+ */
+const createSlideWriter = (transform: SlideTransform, fontFamily: string) => {
+  let nextShapeId = 3;
+
+  const xfrm = (x: number, y: number, width: number, height: number) => {
+    const { scale, offsetX, offsetY } = transform;
+    return `<a:xfrm><a:off x="${emu(offsetX + x * scale)}" y="${emu(offsetY + y * scale)}"/>`
+      + `<a:ext cx="${emu(width * scale)}" cy="${emu(height * scale)}"/></a:xfrm>`;
+  };
+
+  const roundRectGeometry = (radius: number | undefined, width: number, height: number) => {
+    if (!radius) return '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>';
+    // The adjust value is the corner radius as a fraction of the shorter side, in 1/100000
+    const adjust = Math.min(50000, Math.round((radius / Math.min(width, height)) * 100000));
+    return `<a:prstGeom prst="roundRect"><a:avLst><a:gd name="adj" fmla="val ${adjust}"/></a:avLst></a:prstGeom>`;
+  };
+
+  const nonVisual = (name: string, shapeProps = '') => {
+    const id = nextShapeId++;
+    return `<p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(`${name} ${id}`)}"/><p:cNvSpPr${shapeProps}/><p:nvPr/></p:nvSpPr>`;
+  };
+
+  const rect = (item: SceneRect) => {
+    const fill = item.fill ? `<a:solidFill><a:srgbClr val="${toHexColor(item.fill)}"/></a:solidFill>` : '<a:noFill/>';
+    const line = item.stroke
+      ? `<a:ln w="${emu(transform.scale)}"><a:solidFill><a:srgbClr val="${toHexColor(item.stroke)}"/></a:solidFill></a:ln>`
+      : '<a:ln><a:noFill/></a:ln>';
+    return `<p:sp>${nonVisual(item.stroke ? 'Card' : 'Picture Frame')}<p:spPr>`
+      + xfrm(item.x, item.y, item.width, item.height)
+      + roundRectGeometry(item.radius, item.width, item.height)
+      + `${fill}${line}</p:spPr></p:sp>`;
+  };
+
+  const circle = (item: SceneCircle) => {
+    const dash = item.dashed ? '<a:prstDash val="dash"/>' : '';
+    return `<p:sp>${nonVisual('Cycle')}<p:spPr>`
+      + xfrm(item.cx - item.r, item.cy - item.r, item.r * 2, item.r * 2)
+      + '<a:prstGeom prst="ellipse"><a:avLst/></a:prstGeom><a:noFill/>'
+      + `<a:ln w="${emu(transform.scale)}"><a:solidFill><a:srgbClr val="${toHexColor(item.stroke)}"/></a:solidFill>${dash}</a:ln>`
+      + '</p:spPr></p:sp>';
+  };
+
+  const image = (item: SceneImage, relationshipId: string) => {
+    // srcRect trims each edge by a fraction of the picture, in 1/1000 of a percent
+    let srcRect = '';
+    if (item.crop && item.naturalWidth && item.naturalHeight) {
+      const { x, y, width, height } = item.crop;
+      const fraction = (value: number, total: number) => Math.round((value / total) * 100000);
+      srcRect = `<a:srcRect l="${fraction(x, item.naturalWidth)}" t="${fraction(y, item.naturalHeight)}" `
+        + `r="${fraction(item.naturalWidth - x - width, item.naturalWidth)}" b="${fraction(item.naturalHeight - y - height, item.naturalHeight)}"/>`;
+    }
+    const id = nextShapeId++;
+    return `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Picture ${id}" descr="${escapeXml(item.alt || '')}"/>`
+      + '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>'
+      + `<p:blipFill><a:blip r:embed="${relationshipId}"/>${srcRect}<a:stretch><a:fillRect/></a:stretch></p:blipFill>`
+      + `<p:spPr>${xfrm(item.x, item.y, item.width, item.height)}`
+      + `${roundRectGeometry(item.radius, item.width, item.height)}</p:spPr></p:pic>`;
+  };
+
+  // Text keeps its own paragraphs and lets PowerPoint wrap it, so it stays editable
+  const text = (item: SceneText) => {
+    const align = item.align === 'center' ? 'ctr' : item.align === 'right' ? 'r' : 'l';
+    const size = Math.round(item.fontSize * transform.scale * 0.75 * 100);
+    const spacing = Math.round((item.lineHeight / (item.fontSize * SINGLE_LINE_SPACING)) * 100000);
+    const runProps = `<a:rPr lang="en-US" sz="${size}"${item.fontWeight >= 600 ? ' b="1"' : ''} dirty="0">`
+      + `<a:solidFill><a:srgbClr val="${toHexColor(item.color)}"/></a:solidFill>`
+      + `<a:latin typeface="${escapeXml(fontFamily)}"/><a:cs typeface="${escapeXml(fontFamily)}"/></a:rPr>`;
+    const paragraphs = item.text.split('\n').map(paragraph =>
+      `<a:p><a:pPr algn="${align}"><a:lnSpc><a:spcPct val="${spacing}"/></a:lnSpc></a:pPr>`
+      + (paragraph ? `<a:r>${runProps}<a:t>${escapeXml(paragraph)}</a:t></a:r>` : '')
+      + `<a:endParaRPr lang="en-US" sz="${size}" dirty="0"/></a:p>`
+    ).join('');
+
+    return `<p:sp>${nonVisual('TextBox', ' txBox="1"')}<p:spPr>`
+      + xfrm(item.x, item.y, item.width, item.lines.length * item.lineHeight)
+      + '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>'
+      + '<p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" anchor="t"><a:spAutoFit/></a:bodyPr>'
+      + `<a:lstStyle/>${paragraphs}</p:txBody></p:sp>`;
+  };
+
+  return { rect, circle, image, text };
+};
+
+// Fits the diagram inside the slide margins, centred
+const getSlideTransform = (scene: Scene): SlideTransform => {
+  const slideWidth = SLIDE_WIDTH / EMU_PER_PX;
+  const slideHeight = SLIDE_HEIGHT / EMU_PER_PX;
+  const scale = Math.min(
+    (slideWidth - SLIDE_MARGIN * 2) / scene.width,
+    (slideHeight - SLIDE_MARGIN * 2) / scene.height
+  );
+  return {
+    scale,
+    offsetX: (slideWidth - scene.width * scale) / 2,
+    offsetY: (slideHeight - scene.height * scale) / 2,
+  };
+};
+
+/**
+ * Builds a one-slide PowerPoint file with the diagram as native shapes: cards,
+ * picture frames and the cycle track are shapes, pictures are embedded picture
+ * objects keeping their crop, and text sits in editable text boxes. Everything
+ * is grouped, so the diagram moves as one but every part can still be edited.
+ */
+export const exportPPTX = async (
+  document: SmartArtDocument,
+  { fontFamily = 'Segoe UI', ...sceneOptions }: ExportPPTXOptions = {}
+): Promise<PptxExportResult> => {
+  const scene = await buildScene(document, { ...sceneOptions, inlineImages: true });
+  const transform = getSlideTransform(scene);
+  const writer = createSlideWriter(transform, fontFamily);
+  const images: EmbeddedImage[] = [];
+  let skippedImages = 0;
+
+  const shapes = scene.items.map(item => {
+    switch (item.type) {
+      case 'rect':
+        return writer.rect(item);
+      case 'circle':
+        return writer.circle(item);
+      case 'text':
+        return writer.text(item);
+      case 'image': {
+        const decoded = decodeDataUrl(item.href);
+        const extension = decoded && IMAGE_EXTENSIONS[decoded.mimeType];
+        if (!decoded || !extension) {
+          skippedImages++;
+          return '';
+        }
+        const image = {
+          id: `rId${images.length + 2}`,
+          target: `../media/image${images.length + 1}.${extension}`,
+          extension,
+          data: decoded.bytes,
+        };
+        images.push(image);
+        return writer.image(item, image.id);
+      }
+      default:
+        return '';
+    }
+  }).join('');
+
+  const groupXfrm = (() => {
+    const x = emu(transform.offsetX);
+    const y = emu(transform.offsetY);
+    const cx = emu(scene.width * transform.scale);
+    const cy = emu(scene.height * transform.scale);
+    return `<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/><a:chOff x="${x}" y="${y}"/><a:chExt cx="${cx}" cy="${cy}"/></a:xfrm>`;
+  })();
+
+  const slide = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + `<p:sld ${SLIDE_NAMESPACES}><p:cSld><p:spTree>`
+    + '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>'
+    + `<p:grpSp><p:nvGrpSpPr><p:cNvPr id="2" name="${escapeXml(document.metadata.title || 'Diagram')}"/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>`
+    + `<p:grpSpPr>${groupXfrm}</p:grpSpPr>${shapes}</p:grpSp>`
+    + '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+
+  const entries: ZipEntry[] = [
+    { path: '[Content_Types].xml', data: contentTypesXml(images.map(image => image.extension)) },
+    { path: '_rels/.rels', data: packageRelationshipsXml() },
+    {
+      path: 'docProps/core.xml',
+      data: corePropertiesXml({
+        title: escapeXml(document.metadata.title || 'Diagram'),
+        author: document.metadata.author && escapeXml(document.metadata.author),
+        createdAt: document.metadata.createdAt,
+        updatedAt: document.metadata.updatedAt,
+      }),
+    },
+    { path: 'docProps/app.xml', data: appPropertiesXml() },
+    { path: 'ppt/presentation.xml', data: presentationXml(SLIDE_WIDTH, SLIDE_HEIGHT) },
+    { path: 'ppt/_rels/presentation.xml.rels', data: presentationRelationshipsXml() },
+    { path: 'ppt/slideMasters/slideMaster1.xml', data: slideMasterXml() },
+    { path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels', data: slideMasterRelationshipsXml() },
+    { path: 'ppt/slideLayouts/slideLayout1.xml', data: slideLayoutXml() },
+    { path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels', data: slideLayoutRelationshipsXml() },
+    { path: 'ppt/theme/theme1.xml', data: themeXml(escapeXml(fontFamily)) },
+    { path: 'ppt/slides/slide1.xml', data: slide },
+    { path: 'ppt/slides/_rels/slide1.xml.rels', data: slideRelationshipsXml(images) },
+    ...images.map(image => ({ path: `ppt/media/${image.target.split('/').pop()}`, data: image.data })),
+  ];
+
+  return { blob: createZip(entries, PPTX_MIME_TYPE), skippedImages };
+};
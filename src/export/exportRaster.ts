@@ -0,0 +1,94 @@
+import { SmartArtDocument } from '../document/smartArtDocument';
+import { renderSceneToSVG } from './exportSVG';
+import { SceneOptions, buildScene } from './scene';
+import { EXPORT_FONT_FAMILY } from './textLayout';
+
+export type RasterFormat = 'png' | 'jpeg';
+
+export interface ExportRasterOptions extends SceneOptions {
+  format?: RasterFormat;
+  // Pixel density, e.g. 1, 2 or 4; ignored when `width` is given
+  scale?: number;
+  // Exact output width in pixels; the height follows the diagram's aspect ratio
+  width?: number;
+  // Fill behind the diagram; null keeps PNGs transparent (JPEG has no alpha, so it falls back to white)
+  background?: string | null;
+  // JPEG quality between 0 and 1
+  quality?: number;
+  fontFamily?: string;
+}
+
+export interface RasterExportResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  // Pictures that couldn't be read (usually cross-origin without CORS) and were left out
+  skippedImages: number;
+}
+
+// Canvases larger than this fail silently in some browsers
+const MAX_CANVAS_SIDE = 16384;
+
+const loadSvgImage = (svg: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not render the diagram'));
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+});
+
+/**
+ * Renders a document to a PNG or JPEG blob. The diagram goes through the SVG
+ * exporter and is drawn onto a canvas, so it matches the vector export exactly.
+ *
+ * An SVG drawn as an image can't load external URLs, and drawing cross-origin
+ * pictures would taint the canvas, so only pictures that could be inlined are
+ * drawn. The rest keep their grey frame and are counted in `skippedImages` so
+ * callers can tell the user why they're missing.
+ */
+export const exportRaster = async (
+  document: SmartArtDocument,
+  {
+    format = 'png',
+    scale = 1,
+    width,
+    background = '#ffffff',
+    quality = 0.92,
+    fontFamily = EXPORT_FONT_FAMILY,
+    ...sceneOptions
+  }: ExportRasterOptions = {}
+): Promise<RasterExportResult> => {
+  const scene = await buildScene(document, { ...sceneOptions, inlineImages: true });
+  const items = scene.items.filter(item => item.type !== 'image' || item.href.startsWith('data:'));
+  const skippedImages = scene.items.length - items.length;
+
+  const pixelRatio = width ? width / scene.width : scale;
+  const canvasWidth = Math.round(scene.width * pixelRatio);
+  const canvasHeight = Math.round(scene.height * pixelRatio);
+  if (!(pixelRatio > 0) || canvasWidth > MAX_CANVAS_SIDE || canvasHeight > MAX_CANVAS_SIDE) {
+    throw new RangeError(`Export size ${canvasWidth}×${canvasHeight}px is not supported`);
+  }
+
+  const fill = background ?? (format === 'jpeg' ? '#ffffff' : null);
+  // The SVG stays transparent; the canvas paints the background itself
+  const svg = renderSceneToSVG({ ...scene, items }, { background: null, fontFamily });
+  const image = await loadSvgImage(svg);
+
+  const canvas = window.document.createElement('canvas');
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  if (fill) {
+    context.fillStyle = fill;
+    context.fillRect(0, 0, canvasWidth, canvasHeight);
+  }
+  context.drawImage(image, 0, 0, canvasWidth, canvasHeight);
+
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, format === 'jpeg' ? 'image/jpeg' : 'image/png', quality)
+  );
+  if (!blob) throw new Error('Could not encode the image');
+
+  return { blob, width: canvasWidth, height: canvasHeight, skippedImages };
+};
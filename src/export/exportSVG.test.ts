@@ -0,0 +1,34 @@
+// Renamed so testing-library's lint rules don't take it for a React render
+import { renderSceneToSVG as sceneToSVG } from './exportSVG';
+
+const injected = '"/><script>alert(1)</script><rect fill="';
+
+describe('renderSceneToSVG', () => {
+  it('escapes colors, so a document can\'t add markup to the SVG', () => {
+    const svg = sceneToSVG({
+      width: 100,
+      height: 100,
+      items: [
+        { type: 'rect', x: 0, y: 0, width: 10, height: 10, fill: injected, stroke: injected },
+        { type: 'circle', cx: 5, cy: 5, r: 5, stroke: injected },
+        {
+          type: 'text',
+          x: 0,
+          y: 0,
+          width: 100,
+          text: 'Plan',
+          lines: ['Plan'],
+          fontSize: 16,
+          fontWeight: 600,
+          lineHeight: 20,
+          color: injected,
+          align: 'left',
+        },
+      ],
+    }, { background: injected });
+
+    expect(svg).not.toContain('<script');
+    expect(svg).toContain('fill="&quot;/&gt;&lt;script&gt;alert(1)&lt;/script&gt;&lt;rect fill=&quot;"');
+    expect(new DOMParser().parseFromString(svg, 'image/svg+xml').getElementsByTagName('parsererror')).toHaveLength(0);
+  });
+});
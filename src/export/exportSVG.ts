@@ -0,0 +1,83 @@
+import { SmartArtDocument } from '../document/smartArtDocument';
+import { Scene, SceneImage, SceneItem, SceneOptions, SceneText, buildScene } from './scene';
+import { EXPORT_FONT_FAMILY } from './textLayout';
+import { escapeXml } from './xml';
+
+export interface ExportSVGOptions extends SceneOptions {
+  // Fill behind the diagram; null leaves it transparent
+  background?: string | null;
+  fontFamily?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const renderImage = (image: SceneImage, index: number) => {
+  const clipId = `smartart-clip-${index}`;
+  const frame = `x="${round(image.x)}" y="${round(image.y)}" width="${round(image.width)}" height="${round(image.height)}"`;
+  const href = escapeXml(image.href);
+
+  // A nested viewport showing only the crop rect reproduces the card's framing exactly
+  const picture = image.crop && image.naturalWidth && image.naturalHeight
+    ? `<svg ${frame} viewBox="${round(image.crop.x)} ${round(image.crop.y)} ${round(image.crop.width)} ${round(image.crop.height)}" preserveAspectRatio="none">`
+      + `<image href="${href}" xlink:href="${href}" width="${image.naturalWidth}" height="${image.naturalHeight}"/></svg>`
+    : `<image href="${href}" xlink:href="${href}" ${frame} preserveAspectRatio="xMidYMid slice"/>`;
+
+  return `<clipPath id="${clipId}"><rect ${frame} rx="${image.radius ?? 0}"/></clipPath>`
+    + `<g clip-path="url(#${clipId})">${picture}</g>`;
+};
+
+const renderText = (text: SceneText, fontFamily: string) => {
+  const anchor = text.align === 'center' ? 'middle' : text.align === 'right' ? 'end' : 'start';
+  const x = text.align === 'center' ? text.x + text.width / 2 : text.align === 'right' ? text.x + text.width : text.x;
+  // Baseline sits half the leading plus roughly the ascent below each line's top
+  const baselineOffset = (text.lineHeight - text.fontSize) / 2 + text.fontSize * 0.8;
+
+  const lines = text.lines.map((line, index) =>
+    `<tspan x="${round(x)}" y="${round(text.y + index * text.lineHeight + baselineOffset)}">${escapeXml(line) || ' '}</tspan>`
+  ).join('');
+
+  return `<text font-family="${escapeXml(fontFamily)}" font-size="${round(text.fontSize)}" font-weight="${text.fontWeight}" `
+    + `fill="${escapeXml(text.color)}" text-anchor="${anchor}" xml:space="preserve">${lines}</text>`;
+};
+
+const renderItem = (item: SceneItem, index: number, fontFamily: string) => {
+  switch (item.type) {
+    case 'rect':
+      return `<rect x="${round(item.x)}" y="${round(item.y)}" width="${round(item.width)}" height="${round(item.height)}" `
+        + `rx="${item.radius ?? 0}" fill="${escapeXml(item.fill ?? 'none')}"${item.stroke ? ` stroke="${escapeXml(item.stroke)}"` : ''}/>`;
+    case 'circle':
+      return `<circle cx="${round(item.cx)}" cy="${round(item.cy)}" r="${round(item.r)}" fill="none" stroke="${escapeXml(item.stroke)}"`
+        + `${item.dashed ? ' stroke-dasharray="4 4"' : ''}/>`;
+    case 'image':
+      return renderImage(item, index);
+    case 'text':
+      return renderText(item, fontFamily);
+    default:
+      return '';
+  }
+};
+
+// Serializes an already built scene; shared with the raster exporter
+export const renderSceneToSVG = (
+  scene: Scene,
+  { background = '#ffffff', fontFamily = EXPORT_FONT_FAMILY }: Pick<ExportSVGOptions, 'background' | 'fontFamily'> = {}
+) => {
+  const width = round(scene.width);
+  const height = round(scene.height);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    background ? `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>` : '',
+    ...scene.items.map((item, index) => renderItem(item, index, fontFamily)),
+    '</svg>',
+  ].join('');
+};
+
+/**
+ * Renders a document as a standalone SVG string: pictures inlined as data URLs,
+ * text pre-wrapped into lines and fonts set on every text element, so it looks
+ * the same pasted into a doc or opened in another app.
+ */
+export const exportSVG = async (document: SmartArtDocument, options: ExportSVGOptions = {}): Promise<string> => {
+  const scene = await buildScene(document, options);
+  return renderSceneToSVG(scene, options);
+};
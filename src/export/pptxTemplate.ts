@@ -0,0 +1,136 @@
+/**
+ * Fixed parts of a one-slide PowerPoint package: content types, relationships,
+ * a blank slide master and layout, and a plain Office theme. Only the slide and
+ * its pictures change from one export to the next.
+ */
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const SLIDE_NAMESPACES = `xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"`;
+export const IMAGE_RELATIONSHIP = `${REL_TYPE}/image`;
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+export const relationshipsXml = (relationships: Relationship[]) =>
+  `${XML_HEADER}<Relationships xmlns="${NS_REL}">`
+  + relationships.map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`).join('')
+  + '</Relationships>';
+
+export const contentTypesXml = (imageExtensions: string[]) => {
+  const imageTypes: Record<string, string> = { png: 'image/png', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp' };
+  const pml = 'application/vnd.openxmlformats-officedocument.presentationml';
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + Array.from(new Set(imageExtensions))
+      .map(extension => `<Default Extension="${extension}" ContentType="${imageTypes[extension]}"/>`).join('')
+    + `<Override PartName="/ppt/presentation.xml" ContentType="${pml}.presentation.main+xml"/>`
+    + `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${pml}.slideMaster+xml"/>`
+    + `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${pml}.slideLayout+xml"/>`
+    + `<Override PartName="/ppt/slides/slide1.xml" ContentType="${pml}.slide+xml"/>`
+    + '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>'
+    + '</Types>';
+};
+
+export const packageRelationshipsXml = () => relationshipsXml([
+  { id: 'rId1', type: `${REL_TYPE}/officeDocument`, target: 'ppt/presentation.xml' },
+  { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+  { id: 'rId3', type: `${REL_TYPE}/extended-properties`, target: 'docProps/app.xml' },
+]);
+
+export const corePropertiesXml = ({ title, author, createdAt, updatedAt }: {
+  title: string;
+  author?: string;
+  createdAt: string;
+  updatedAt: string;
+}) =>
+  `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" `
+  + 'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" '
+  + 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+  + `<dc:title>${title}</dc:title>`
+  + (author ? `<dc:creator>${author}</dc:creator>` : '')
+  + `<dcterms:created xsi:type="dcterms:W3CDTF">${createdAt}</dcterms:created>`
+  + `<dcterms:modified xsi:type="dcterms:W3CDTF">${updatedAt}</dcterms:modified>`
+  + '</cp:coreProperties>';
+
+export const appPropertiesXml = () =>
+  `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">`
+  + '<Application>SmartArt</Application><Slides>1</Slides></Properties>';
+
+export const presentationXml = (slideWidth: number, slideHeight: number) =>
+  `${XML_HEADER}<p:presentation ${SLIDE_NAMESPACES} saveSubsetFonts="1">`
+  + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+  + '<p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst>'
+  + `<p:sldSz cx="${slideWidth}" cy="${slideHeight}"/><p:notesSz cx="6858000" cy="9144000"/>`
+  + '</p:presentation>';
+
+export const presentationRelationshipsXml = () => relationshipsXml([
+  { id: 'rId1', type: `${REL_TYPE}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+  { id: 'rId2', type: `${REL_TYPE}/slide`, target: 'slides/slide1.xml' },
+  { id: 'rId3', type: `${REL_TYPE}/theme`, target: 'theme/theme1.xml' },
+]);
+
+const EMPTY_SHAPE_TREE = '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>'
+  + '<p:grpSpPr/></p:spTree>';
+
+export const slideMasterXml = () =>
+  `${XML_HEADER}<p:sldMaster ${SLIDE_NAMESPACES}>`
+  + `<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${EMPTY_SHAPE_TREE}</p:cSld>`
+  + '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" '
+  + 'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+  + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>'
+  + '</p:sldMaster>';
+
+export const slideMasterRelationshipsXml = () => relationshipsXml([
+  { id: 'rId1', type: `${REL_TYPE}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+  { id: 'rId2', type: `${REL_TYPE}/theme`, target: '../theme/theme1.xml' },
+]);
+
+export const slideLayoutXml = () =>
+  `${XML_HEADER}<p:sldLayout ${SLIDE_NAMESPACES} type="blank" preserve="1">`
+  + `<p:cSld name="Blank">${EMPTY_SHAPE_TREE}</p:cSld>`
+  + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+
+export const slideLayoutRelationshipsXml = () => relationshipsXml([
+  { id: 'rId1', type: `${REL_TYPE}/slideMaster`, target: '../slideMasters/slideMaster1.xml' },
+]);
+
+export const slideRelationshipsXml = (images: { id: string; target: string }[]) => relationshipsXml([
+  { id: 'rId1', type: `${REL_TYPE}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+  ...images.map(image => ({ id: image.id, type: IMAGE_RELATIONSHIP, target: image.target })),
+]);
+
+const solidFill = (color: string) => `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>`;
+
+export const themeXml = (fontFamily: string) =>
+  `${XML_HEADER}<a:theme xmlns:a="${NS_A}" name="SmartArt"><a:themeElements>`
+  + '<a:clrScheme name="SmartArt">'
+  + '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>'
+  + '<a:dk2><a:srgbClr val="242424"/></a:dk2><a:lt2><a:srgbClr val="F0F0F0"/></a:lt2>'
+  + '<a:accent1><a:srgbClr val="50B2C0"/></a:accent1><a:accent2><a:srgbClr val="3498DB"/></a:accent2>'
+  + '<a:accent3><a:srgbClr val="37A660"/></a:accent3><a:accent4><a:srgbClr val="F39C12"/></a:accent4>'
+  + '<a:accent5><a:srgbClr val="9B59B6"/></a:accent5><a:accent6><a:srgbClr val="E74C3C"/></a:accent6>'
+  + '<a:hlink><a:srgbClr val="1E6FA8"/></a:hlink><a:folHlink><a:srgbClr val="954F72"/></a:folHlink>'
+  + '</a:clrScheme>'
+  + `<a:fontScheme name="SmartArt"><a:majorFont><a:latin typeface="${fontFamily}"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>`
+  + `<a:minorFont><a:latin typeface="${fontFamily}"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>`
+  + '<a:fmtScheme name="SmartArt">'
+  + `<a:fillStyleLst>${solidFill('FFFFFF')}${solidFill('F0F0F0')}${solidFill('D1D1D1')}</a:fillStyleLst>`
+  + '<a:lnStyleLst>'
+  + [6350, 12700, 19050].map(width => `<a:ln w="${width}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`).join('')
+  + '</a:lnStyleLst>'
+  + '<a:effectStyleLst>'
+  + '<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)
+  + '</a:effectStyleLst>'
+  + `<a:bgFillStyleLst>${solidFill('FFFFFF')}${solidFill('F0F0F0')}${solidFill('D1D1D1')}</a:bgFillStyleLst>`
+  + '</a:fmtScheme></a:themeElements></a:theme>';
@@ -0,0 +1,80 @@
+import { AssetStore } from '../assetStores/assetStore';
+import { SmartArtDocument } from '../document/smartArtDocument';
+import { getLayout } from '../layouts';
+import { CropRect } from '../utils/imageCrop';
+
+/**
+ * Format-neutral description of a rendered diagram. Each layout turns a document
+ * into positioned shapes once; the SVG, image and slide exporters only translate
+ * those shapes into their own format, so every export looks the same.
+ */
+export interface SceneRect {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius?: number;
+  fill?: string;
+  stroke?: string;
+}
+
+export interface SceneCircle {
+  type: 'circle';
+  cx: number;
+  cy: number;
+  r: number;
+  stroke: string;
+  dashed?: boolean;
+}
+
+export interface SceneImage {
+  type: 'image';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius?: number;
+  href: string;
+  alt?: string;
+  // Part of the source picture to show, in its own pixels; missing means cover-fit
+  crop?: CropRect;
+  naturalWidth?: number;
+  naturalHeight?: number;
+}
+
+export interface SceneText {
+  type: 'text';
+  // Top-left of the text box; lines are already wrapped to `width`
+  x: number;
+  y: number;
+  width: number;
+  // Source text, for formats that wrap it themselves
+  text: string;
+  lines: string[];
+  fontSize: number;
+  fontWeight: number;
+  lineHeight: number;
+  color: string;
+  align: 'left' | 'center' | 'right';
+}
+
+export type SceneItem = SceneRect | SceneCircle | SceneImage | SceneText;
+
+export interface Scene {
+  width: number;
+  height: number;
+  items: SceneItem[];
+}
+
+export interface SceneOptions {
+  assetStore?: AssetStore;
+  // Embed picture data instead of linking to it
+  inlineImages?: boolean;
+  // Width the diagram had on the page, for arrangements that wrap to fit it
+  availableWidth?: number;
+}
+
+// Each layout draws its own scene; see `SmartArtLayout.buildScene`
+export const buildScene = (document: SmartArtDocument, options: SceneOptions = {}): Promise<Scene> =>
+  getLayout(document.layout).buildScene(document, options);
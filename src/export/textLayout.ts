@@ -0,0 +1,77 @@
+/**
+ * Line wrapping for exported text. Exports can't rely on the browser's layout,
+ * so text is measured and broken into lines up front, the way the cards wrap it.
+ */
+export const EXPORT_FONT_FAMILY = "'Segoe UI', system-ui, -apple-system, 'Helvetica Neue', Arial, sans-serif";
+
+export interface TextStyle {
+  fontSize: number;
+  fontWeight: number;
+  fontFamily?: string;
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+const getMeasureContext = () => {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined'
+      ? document.createElement('canvas').getContext('2d')
+      : null;
+  }
+  return measureContext;
+};
+
+export const measureTextWidth = (text: string, { fontSize, fontWeight, fontFamily = EXPORT_FONT_FAMILY }: TextStyle) => {
+  const context = getMeasureContext();
+  if (!context) {
+    // Rough average glyph width when there is no canvas (tests, server rendering)
+    return text.length * fontSize * (fontWeight >= 600 ? 0.58 : 0.52);
+  }
+  context.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+  return context.measureText(text).width;
+};
+
+// Breaks a word that is wider than the line on its own
+const breakWord = (word: string, maxWidth: number, style: TextStyle) => {
+  const pieces: string[] = [];
+  let current = '';
+  Array.from(word).forEach(char => {
+    if (current && measureTextWidth(current + char, style) > maxWidth) {
+      pieces.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  });
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Wraps text to `maxWidth`, keeping explicit line breaks like `white-space: pre-wrap`.
+ */
+export const wrapText = (text: string, maxWidth: number, style: TextStyle): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [''];
+
+    const lines: string[] = [];
+    let line = '';
+    words.forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureTextWidth(candidate, style) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      if (measureTextWidth(word, style) <= maxWidth) {
+        line = word;
+      } else {
+        const pieces = breakWord(word, maxWidth, style);
+        lines.push(...pieces.slice(0, -1));
+        line = pieces[pieces.length - 1];
+      }
+    });
+    lines.push(line);
+    return lines;
+  });
@@ -0,0 +1,3 @@
+const XML_ENTITIES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' };
+
+export const escapeXml = (text: string) => text.replace(/[<>&'"]/g, char => XML_ENTITIES[char]);
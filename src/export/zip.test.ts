@@ -0,0 +1,53 @@
+import { Blob as NodeBlob } from 'buffer';
+import { TextDecoder, TextEncoder } from 'util';
+import { readZip } from '../import/readZip';
+import { crc32, createZip } from './zip';
+
+// jsdom has neither the text codecs nor Blob.arrayBuffer, so borrow Node's
+Object.assign(globalThis, { Blob: NodeBlob, TextDecoder, TextEncoder });
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+  });
+
+  it('is zero for no data and unsigned otherwise', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+    expect(crc32(new Uint8Array([0xFF, 0xFF, 0xFF, 0xFF]))).toBe(0xFFFFFFFF);
+  });
+});
+
+describe('createZip', () => {
+  const entries = [
+    { path: '[Content_Types].xml', data: '<Types/>' },
+    { path: 'ppt/media/image1.png', data: new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x00, 0xFF]) },
+    { path: 'notes/größe.txt', data: 'Überblick ✓' },
+    { path: 'empty.txt', data: '' },
+  ];
+
+  it('sets the blob type', () => {
+    expect(createZip([]).type).toBe('application/zip');
+    expect(createZip([], 'application/vnd.ms-powerpoint').type).toBe('application/vnd.ms-powerpoint');
+  });
+
+  it('writes entries readZip reads back unchanged, in order', async () => {
+    const archive = readZip(await createZip(entries).arrayBuffer());
+
+    expect(archive.paths).toEqual(entries.map(entry => entry.path));
+    expect(await archive.readText('[Content_Types].xml')).toBe('<Types/>');
+    expect(Array.from(await archive.read('ppt/media/image1.png'))).toEqual([0x89, 0x50, 0x4E, 0x47, 0x00, 0xFF]);
+    expect(await archive.readText('notes/größe.txt')).toBe('Überblick ✓');
+    expect(await archive.readText('empty.txt')).toBe('');
+    expect(archive.has('missing.txt')).toBe(false);
+  });
+
+  it('records each entry\'s CRC in its local and central headers', async () => {
+    const bytes = new Uint8Array(await createZip([entries[0]]).arrayBuffer());
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const expected = crc32(new TextEncoder().encode('<Types/>'));
+    const centralOffset = view.getUint32(bytes.length - 22 + 16, true);
+
+    expect(view.getUint32(14, true)).toBe(expected);
+    expect(view.getUint32(centralOffset + 16, true)).toBe(expected);
+  });
+});
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * useAnnouncer - Message state for an aria-live region
+ *
+ * Returns the current message and an `announce` function. The message is cleared
+ * briefly before each update so screen readers repeat identical announcements
+ * (e.g. moving a card to the same position twice).
+ */
+export function useAnnouncer(): [string, (message: string) => void] {
+  const [message, setMessage] = useState('');
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const announce = useCallback((nextMessage: string) => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    setMessage('');
+    timeoutRef.current = setTimeout(() => setMessage(nextMessage), 50);
+  }, []);
+
+  // Don't update state after unmount
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+  }, []);
+
+  return [message, announce];
+}
+
+export default useAnnouncer;
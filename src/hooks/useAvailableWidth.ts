@@ -0,0 +1,29 @@
+import { RefObject, useLayoutEffect, useState } from 'react';
+
+/**
+ * useAvailableWidth - Width of the space an element's parent gives it
+ *
+ * Tracks the parent's content box with a ResizeObserver, so arrangements that fit
+ * the page (like a wrapping list) reflow as the window or host layout changes.
+ * Undefined until the first measurement.
+ */
+export function useAvailableWidth(elementRef: RefObject<HTMLElement>) {
+  const [availableWidth, setAvailableWidth] = useState<number | undefined>(undefined);
+
+  // Observing before paint means the first measurement lands before anything is drawn
+  useLayoutEffect(() => {
+    const parent = elementRef.current?.parentElement;
+    if (!parent || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      // Whole pixels, so sub-pixel jitter doesn't re-render the diagram
+      setAvailableWidth(Math.floor(entry.contentRect.width));
+    });
+    observer.observe(parent);
+    return () => observer.disconnect();
+  }, [elementRef]);
+
+  return availableWidth;
+}
+
+export default useAvailableWidth;
@@ -0,0 +1,53 @@
+import { useCallback, useRef, useState } from 'react';
+
+type NodesUpdater<T> = T[] | ((prevNodes: T[]) => T[]);
+
+/**
+ * useControllableNodes - Shared state hook for SmartArt node arrays
+ *
+ * Supports two modes:
+ * - Controlled: `nodes` and `onNodesChange` are both provided. The parent owns the
+ *   array and every edit is reported through `onNodesChange`.
+ * - Uncontrolled: the component keeps its own copy, seeded from `defaultNodes`
+ *   (or `nodes` for older call sites). `onNodesChange` is still notified if given.
+ *
+ * The returned setter accepts either a new array or an updater function, like
+ * React's own `setState`. Updaters are applied against the latest value so that
+ * several updates in the same tick compose correctly in both modes.
+ */
+export function useControllableNodes<T>(
+  nodes: T[] | undefined,
+  defaultNodes: T[] | undefined,
+  onNodesChange?: (nodes: T[]) => void
+): [T[], (updater: NodesUpdater<T>) => void] {
+  const isControlled = nodes !== undefined && onNodesChange !== undefined;
+  const [internalNodes, setInternalNodes] = useState<T[]>(() => defaultNodes ?? nodes ?? []);
+
+  const currentNodes = isControlled ? (nodes as T[]) : internalNodes;
+
+  // Keep track of the most recent value, including updates not yet rendered
+  const latestNodesRef = useRef(currentNodes);
+  latestNodesRef.current = currentNodes;
+
+  // Keep the callback fresh without changing the setter identity
+  const onNodesChangeRef = useRef(onNodesChange);
+  onNodesChangeRef.current = onNodesChange;
+
+  const setNodes = useCallback((updater: NodesUpdater<T>) => {
+    const nextNodes = typeof updater === 'function'
+      ? (updater as (prevNodes: T[]) => T[])(latestNodesRef.current)
+      : updater;
+
+    if (nextNodes === latestNodesRef.current) return;
+    latestNodesRef.current = nextNodes;
+
+    if (!isControlled) {
+      setInternalNodes(nextNodes);
+    }
+    onNodesChangeRef.current?.(nextNodes);
+  }, [isControlled]);
+
+  return [currentNodes, setNodes];
+}
+
+export default useControllableNodes;
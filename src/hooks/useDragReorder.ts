@@ -0,0 +1,310 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+// Distance the pointer must travel before a press turns into a drag
+const DRAG_THRESHOLD = 5;
+// Distance from a scroll edge at which auto-scroll kicks in
+const AUTO_SCROLL_EDGE = 48;
+// Maximum auto-scroll speed in pixels per frame
+const AUTO_SCROLL_SPEED = 16;
+
+// Insertion line between cards, relative to the cards' offset parent
+export interface DropIndicatorPosition {
+  left: number;
+  top: number;
+  // A card's height when the line stands between cards in a row, its width between rows
+  length: number;
+  orientation: 'vertical' | 'horizontal';
+}
+
+export interface DragState {
+  nodeId: number;
+  // Gap index in the current order where the card would be dropped (0..length)
+  dropIndex: number;
+  mode: 'pointer' | 'keyboard';
+  // Pointer offset from where the drag started, used to move the card under the pointer
+  deltaX: number;
+  deltaY: number;
+  indicator: DropIndicatorPosition | null;
+}
+
+interface UseDragReorderOptions {
+  nodeIds: number[];
+  getNodeElement: (nodeId: number) => HTMLElement | undefined;
+  // Gap between cards; the drop indicator is centred in it
+  gap: number;
+  // Cards run in rows (one or several) or down a single column
+  direction?: 'row' | 'column';
+  onDrop: (nodeId: number, toIndex: number) => void;
+  onKeyboardChange?: (message: string) => void;
+}
+
+// Nearest ancestor that can scroll horizontally, falling back to the page
+const getScrollParent = (element: HTMLElement | null): HTMLElement => {
+  let current = element?.parentElement ?? null;
+  while (current) {
+    const { overflowX } = window.getComputedStyle(current);
+    if ((overflowX === 'auto' || overflowX === 'scroll') && current.scrollWidth > current.clientWidth) {
+      return current;
+    }
+    current = current.parentElement;
+  }
+  return (document.scrollingElement as HTMLElement) || document.documentElement;
+};
+
+/**
+ * useDragReorder - Drag-and-drop reordering of cards in rows or a column
+ *
+ * Supports pointer dragging (mouse, pen and touch) with a drop indicator and
+ * auto-scroll near the edges of the scroll container, plus a keyboard "pick up /
+ * drop" mode for the same interaction. Either way the reorder is reported once
+ * through `onDrop`, so it becomes a single undo step.
+ */
+export function useDragReorder({ nodeIds, getNodeElement, gap, direction = 'row', onDrop, onKeyboardChange }: UseDragReorderOptions) {
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const dragStateRef = useRef<DragState | null>(null);
+  const pendingRef = useRef<{ nodeId: number; pointerId: number; startX: number; startY: number } | null>(null);
+  const pointerRef = useRef({ x: 0, y: 0 });
+
+  // Latest props for the window listeners
+  const optionsRef = useRef({ nodeIds, getNodeElement, gap, direction, onDrop, onKeyboardChange });
+  optionsRef.current = { nodeIds, getNodeElement, gap, direction, onDrop, onKeyboardChange };
+
+  const updateDragState = useCallback((next: DragState | null) => {
+    dragStateRef.current = next;
+    setDragState(next);
+  }, []);
+
+  // Indicator for a gap, before the card at `dropIndex` or after the last one, using
+  // layout positions so transforms don't matter
+  const getIndicator = useCallback((dropIndex: number): DropIndicatorPosition | null => {
+    const { nodeIds: ids, getNodeElement: getElement, gap: cardGap, direction: flow } = optionsRef.current;
+    if (ids.length === 0) return null;
+
+    const isEnd = dropIndex >= ids.length;
+    const element = getElement(ids[isEnd ? ids.length - 1 : dropIndex]);
+    if (!element) return null;
+
+    if (flow === 'column') {
+      return {
+        left: element.offsetLeft,
+        top: isEnd ? element.offsetTop + element.offsetHeight + cardGap / 2 : element.offsetTop - cardGap / 2,
+        length: element.offsetWidth,
+        orientation: 'horizontal',
+      };
+    }
+    return {
+      left: isEnd ? element.offsetLeft + element.offsetWidth + cardGap / 2 : element.offsetLeft - cardGap / 2,
+      top: element.offsetTop,
+      length: element.offsetHeight,
+      orientation: 'vertical',
+    };
+  }, []);
+
+  // Gap index under the pointer, ignoring the card being dragged
+  const getDropIndexAt = useCallback((clientX: number, clientY: number, draggedId: number): number => {
+    const { nodeIds: ids, getNodeElement: getElement, direction: flow } = optionsRef.current;
+    const cards = ids.flatMap((id, index) => {
+      const element = id === draggedId ? undefined : getElement(id);
+      return element ? [{ index, rect: element.getBoundingClientRect() }] : [];
+    });
+    if (cards.length === 0) return ids.length;
+
+    if (flow === 'column') {
+      const below = cards.find(({ rect }) => clientY < rect.top + rect.height / 2);
+      return below ? below.index : ids.length;
+    }
+
+    // The row nearest the pointer, so dragging above or below the cards still works
+    const distance = (rect: DOMRect) => Math.max(rect.top - clientY, clientY - rect.bottom, 0);
+    const nearest = Math.min(...cards.map(({ rect }) => distance(rect)));
+    const row = cards.filter(({ rect }) => distance(rect) === nearest);
+    const after = row.find(({ rect }) => clientX < rect.left + rect.width / 2);
+    return after ? after.index : row[row.length - 1].index + 1;
+  }, []);
+
+  const finishDrag = useCallback((commit: boolean) => {
+    const current = dragStateRef.current;
+    updateDragState(null);
+    if (!current || !commit) return false;
+
+    const fromIndex = optionsRef.current.nodeIds.indexOf(current.nodeId);
+    // Dropping into the gaps on either side of the card leaves it in place
+    if (fromIndex === -1 || current.dropIndex === fromIndex || current.dropIndex === fromIndex + 1) return false;
+
+    const toIndex = current.dropIndex > fromIndex ? current.dropIndex - 1 : current.dropIndex;
+    optionsRef.current.onDrop(current.nodeId, toIndex);
+    return true;
+  }, [updateDragState]);
+
+  const handlePointerDown = useCallback((nodeId: number, event: React.PointerEvent) => {
+    if (event.button !== 0 || dragStateRef.current) return;
+    // Leave text editing and buttons alone
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, button, [data-insert-button]')) return;
+
+    pendingRef.current = { nodeId, pointerId: event.pointerId, startX: event.clientX, startY: event.clientY };
+  }, []);
+
+  // Pointer tracking lives on the window so the drag survives leaving the card
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      const pending = pendingRef.current;
+      if (!pending || event.pointerId !== pending.pointerId) return;
+      pointerRef.current = { x: event.clientX, y: event.clientY };
+
+      const deltaX = event.clientX - pending.startX;
+      const deltaY = event.clientY - pending.startY;
+      const current = dragStateRef.current;
+
+      if (!current && Math.hypot(deltaX, deltaY) < DRAG_THRESHOLD) return;
+      event.preventDefault();
+
+      const dropIndex = getDropIndexAt(event.clientX, event.clientY, pending.nodeId);
+      updateDragState({
+        nodeId: pending.nodeId,
+        dropIndex,
+        mode: 'pointer',
+        deltaX,
+        deltaY,
+        indicator: getIndicator(dropIndex),
+      });
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const pending = pendingRef.current;
+      if (!pending || event.pointerId !== pending.pointerId) return;
+      pendingRef.current = null;
+
+      if (dragStateRef.current?.mode !== 'pointer') return;
+      finishDrag(true);
+
+      // Swallow the click that follows a drag so it doesn't select the card
+      const suppressClick = (clickEvent: MouseEvent) => {
+        clickEvent.stopPropagation();
+        clickEvent.preventDefault();
+      };
+      window.addEventListener('click', suppressClick, { capture: true, once: true });
+      setTimeout(() => window.removeEventListener('click', suppressClick, { capture: true }), 0);
+    };
+
+    const handlePointerCancel = (event: PointerEvent) => {
+      if (pendingRef.current?.pointerId !== event.pointerId) return;
+      pendingRef.current = null;
+      if (dragStateRef.current?.mode === 'pointer') finishDrag(false);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && dragStateRef.current?.mode === 'pointer') {
+        event.preventDefault();
+        pendingRef.current = null;
+        finishDrag(false);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [finishDrag, getDropIndexAt, getIndicator, updateDragState]);
+
+  // Scroll the container while the pointer is held near one of its edges
+  const isPointerDragging = dragState?.mode === 'pointer';
+  const draggedNodeId = dragState?.nodeId ?? null;
+  useEffect(() => {
+    if (!isPointerDragging || draggedNodeId === null) return;
+
+    const scrollParent = getScrollParent(optionsRef.current.getNodeElement(draggedNodeId) ?? null);
+    const isPage = scrollParent === document.scrollingElement || scrollParent === document.documentElement;
+    let frame = 0;
+
+    const step = () => {
+      const bounds = isPage
+        ? { left: 0, right: window.innerWidth }
+        : scrollParent.getBoundingClientRect();
+      const { x, y } = pointerRef.current;
+
+      let speed = 0;
+      if (x < bounds.left + AUTO_SCROLL_EDGE) {
+        speed = -AUTO_SCROLL_SPEED * (1 - Math.max(0, x - bounds.left) / AUTO_SCROLL_EDGE);
+      } else if (x > bounds.right - AUTO_SCROLL_EDGE) {
+        speed = AUTO_SCROLL_SPEED * (1 - Math.max(0, bounds.right - x) / AUTO_SCROLL_EDGE);
+      }
+
+      if (speed !== 0) {
+        scrollParent.scrollLeft += speed;
+        const current = dragStateRef.current;
+        if (current) {
+          const dropIndex = getDropIndexAt(x, y, current.nodeId);
+          updateDragState({ ...current, dropIndex, indicator: getIndicator(dropIndex) });
+        }
+      }
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isPointerDragging, draggedNodeId, getDropIndexAt, getIndicator, updateDragState]);
+
+  // Keyboard equivalent: pick up a card, move the drop target, then drop or cancel
+  const pickUp = useCallback((nodeId: number) => {
+    const index = optionsRef.current.nodeIds.indexOf(nodeId);
+    if (index === -1) return;
+    updateDragState({
+      nodeId,
+      dropIndex: index,
+      mode: 'keyboard',
+      deltaX: 0,
+      deltaY: 0,
+      indicator: getIndicator(index),
+    });
+    optionsRef.current.onKeyboardChange?.(
+      `Card ${index + 1} picked up. Use the arrow keys to choose a position, Space to drop, Escape to cancel.`
+    );
+  }, [getIndicator, updateDragState]);
+
+  const moveDropTarget = useCallback((offset: number) => {
+    const current = dragStateRef.current;
+    if (!current || current.mode !== 'keyboard') return;
+
+    const { nodeIds: ids } = optionsRef.current;
+    const fromIndex = ids.indexOf(current.nodeId);
+    // Work in final positions so each key press moves the card by exactly one place
+    const currentPosition = current.dropIndex > fromIndex ? current.dropIndex - 1 : current.dropIndex;
+    const nextPosition = Math.min(Math.max(currentPosition + offset, 0), ids.length - 1);
+    const dropIndex = nextPosition > fromIndex ? nextPosition + 1 : nextPosition;
+
+    updateDragState({ ...current, dropIndex, indicator: getIndicator(dropIndex) });
+    optionsRef.current.onKeyboardChange?.(`Position ${nextPosition + 1} of ${ids.length}`);
+  }, [getIndicator, updateDragState]);
+
+  const drop = useCallback(() => {
+    if (dragStateRef.current?.mode !== 'keyboard') return;
+    if (!finishDrag(true)) {
+      optionsRef.current.onKeyboardChange?.('Card dropped in its original position');
+    }
+  }, [finishDrag]);
+
+  const cancel = useCallback(() => {
+    if (!dragStateRef.current) return;
+    pendingRef.current = null;
+    finishDrag(false);
+    optionsRef.current.onKeyboardChange?.('Move cancelled');
+  }, [finishDrag]);
+
+  return {
+    dragState,
+    handlePointerDown,
+    pickUp,
+    moveDropTarget,
+    drop,
+    cancel,
+  };
+}
+
+export default useDragReorder;
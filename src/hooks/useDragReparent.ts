@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+// Distance the pointer must travel before a press turns into a drag
+const DRAG_THRESHOLD = 5;
+
+export interface ReparentDragState {
+  nodeId: number;
+  // Card under the pointer that would become the new parent
+  targetId: number | null;
+  // Pointer offset from where the drag started, used to move the card under the pointer
+  deltaX: number;
+  deltaY: number;
+}
+
+interface UseDragReparentOptions {
+  nodeIds: number[];
+  getNodeElement: (nodeId: number) => HTMLElement | undefined;
+  // Whether `targetId` may become the parent of `nodeId` (not itself or a descendant)
+  canDrop: (nodeId: number, targetId: number) => boolean;
+  onDrop: (nodeId: number, parentId: number) => void;
+}
+
+/**
+ * useDragReparent - Drag a card onto another card to make it that card's child
+ *
+ * Works like `useDragReorder` for the pointer (threshold, Escape to cancel, no click
+ * after a drag), but the drop target is the card under the pointer rather than a gap.
+ * Releasing anywhere else leaves the tree unchanged. The keyboard equivalent is
+ * Alt+Arrow in the editor.
+ */
+export function useDragReparent({ nodeIds, getNodeElement, canDrop, onDrop }: UseDragReparentOptions) {
+  const [dragState, setDragState] = useState<ReparentDragState | null>(null);
+  const dragStateRef = useRef<ReparentDragState | null>(null);
+  const pendingRef = useRef<{ nodeId: number; pointerId: number; startX: number; startY: number } | null>(null);
+
+  // Latest props for the window listeners
+  const optionsRef = useRef({ nodeIds, getNodeElement, canDrop, onDrop });
+  optionsRef.current = { nodeIds, getNodeElement, canDrop, onDrop };
+
+  const updateDragState = useCallback((next: ReparentDragState | null) => {
+    dragStateRef.current = next;
+    setDragState(next);
+  }, []);
+
+  // Card under the pointer that can take the dragged card
+  const getTargetAt = useCallback((clientX: number, clientY: number, draggedId: number): number | null => {
+    const { nodeIds: ids, getNodeElement: getElement, canDrop: isAllowed } = optionsRef.current;
+    const target = ids.find(id => {
+      if (id === draggedId || !isAllowed(draggedId, id)) return false;
+      const rect = getElement(id)?.getBoundingClientRect();
+      return !!rect && clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom;
+    });
+    return target ?? null;
+  }, []);
+
+  const handlePointerDown = useCallback((nodeId: number, event: React.PointerEvent) => {
+    if (event.button !== 0 || dragStateRef.current) return;
+    // Leave text editing and buttons alone
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, button, [data-insert-button]')) return;
+
+    pendingRef.current = { nodeId, pointerId: event.pointerId, startX: event.clientX, startY: event.clientY };
+  }, []);
+
+  // Pointer tracking lives on the window so the drag survives leaving the card
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      const pending = pendingRef.current;
+      if (!pending || event.pointerId !== pending.pointerId) return;
+
+      const deltaX = event.clientX - pending.startX;
+      const deltaY = event.clientY - pending.startY;
+      if (!dragStateRef.current && Math.hypot(deltaX, deltaY) < DRAG_THRESHOLD) return;
+      event.preventDefault();
+
+      updateDragState({
+        nodeId: pending.nodeId,
+        targetId: getTargetAt(event.clientX, event.clientY, pending.nodeId),
+        deltaX,
+        deltaY,
+      });
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const pending = pendingRef.current;
+      if (!pending || event.pointerId !== pending.pointerId) return;
+      pendingRef.current = null;
+
+      const current = dragStateRef.current;
+      if (!current) return;
+      updateDragState(null);
+      if (current.targetId !== null) optionsRef.current.onDrop(current.nodeId, current.targetId);
+
+      // Swallow the click that follows a drag so it doesn't select the card
+      const suppressClick = (clickEvent: MouseEvent) => {
+        clickEvent.stopPropagation();
+        clickEvent.preventDefault();
+      };
+      window.addEventListener('click', suppressClick, { capture: true, once: true });
+      setTimeout(() => window.removeEventListener('click', suppressClick, { capture: true }), 0);
+    };
+
+    const handlePointerCancel = (event: PointerEvent) => {
+      if (pendingRef.current?.pointerId !== event.pointerId) return;
+      pendingRef.current = null;
+      updateDragState(null);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && dragStateRef.current) {
+        event.preventDefault();
+        pendingRef.current = null;
+        updateDragState(null);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [getTargetAt, updateDragState]);
+
+  return { dragState, handlePointerDown };
+}
+
+export default useDragReparent;
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState, KeyboardEvent as ReactKeyboardEvent } from 'react';
+
+type NodesUpdater<T> = T[] | ((prevNodes: T[]) => T[]);
+
+// Maximum number of undo steps kept in memory
+const MAX_HISTORY = 100;
+
+/**
+ * State outside the nodes that changed in the same step (e.g. the layout), put back
+ * by `undo` and applied again by `redo`.
+ */
+export interface HistoryEffect {
+  undo: () => void;
+  redo: () => void;
+}
+
+/**
+ * Options for a single recorded change.
+ *
+ * @param coalesceKey - Consecutive changes with the same key are merged into one
+ *   undo step (e.g. every keystroke while typing in one title field)
+ * @param effect - Changes made alongside the nodes, undone and redone with them.
+ *   Steps with an effect are never merged.
+ */
+export interface HistoryChangeOptions {
+  coalesceKey?: string;
+  effect?: HistoryEffect;
+}
+
+interface HistoryEntry<T> {
+  nodes: T[];
+  effect?: HistoryEffect;
+}
+
+/**
+ * Imperative handle exposed by SmartArt components so hosts can drive history
+ * from their own toolbars or menus.
+ */
+export interface SmartArtHandle {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+}
+
+/**
+ * useNodesHistory - Undo/redo stack on top of a node array setter
+ *
+ * Wraps the setter returned by `useControllableNodes` so that every change goes
+ * through the history. The wrapped setter must apply updater functions
+ * synchronously, which `useControllableNodes` guarantees.
+ *
+ * Text edits pass a `coalesceKey` so a whole typing session becomes one undo step.
+ * Call `breakCoalescing` when the session ends (e.g. the input loses focus).
+ *
+ * `nodes` is the current array. When it becomes one the history didn't produce
+ * (a controlled host loaded other data), the history is cleared, so undo can't
+ * write the previous data over the new.
+ */
+export function useNodesHistory<T>(setNodes: (updater: NodesUpdater<T>) => void, nodes: T[]) {
+  const pastRef = useRef<HistoryEntry<T>[]>([]);
+  const futureRef = useRef<HistoryEntry<T>[]>([]);
+  const lastCoalesceKeyRef = useRef<string | null>(null);
+  // Every array this hook has produced, and the last one seen in `nodes`
+  const emittedNodesRef = useRef(new WeakSet<T[]>());
+  const seenNodesRef = useRef(nodes);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
+  const syncHistoryState = useCallback(() => {
+    const canUndo = pastRef.current.length > 0;
+    const canRedo = futureRef.current.length > 0;
+    setHistoryState(prev =>
+      prev.canUndo === canUndo && prev.canRedo === canRedo ? prev : { canUndo, canRedo }
+    );
+  }, []);
+
+  const setNodesWithHistory = useCallback((updater: NodesUpdater<T>, options: HistoryChangeOptions = {}) => {
+    setNodes(prevNodes => {
+      const nextNodes = typeof updater === 'function'
+        ? (updater as (prevNodes: T[]) => T[])(prevNodes)
+        : updater;
+      if (nextNodes === prevNodes) return prevNodes;
+
+      const coalesceKey = options.effect ? null : options.coalesceKey ?? null;
+      const shouldCoalesce = coalesceKey !== null && coalesceKey === lastCoalesceKeyRef.current;
+
+      // Only the first change of a typing session creates an undo step
+      if (!shouldCoalesce) {
+        pastRef.current = [...pastRef.current, { nodes: prevNodes, effect: options.effect }].slice(-MAX_HISTORY);
+      }
+      futureRef.current = [];
+      lastCoalesceKeyRef.current = coalesceKey;
+
+      emittedNodesRef.current.add(nextNodes);
+      return nextNodes;
+    });
+    syncHistoryState();
+  }, [setNodes, syncHistoryState]);
+
+  const undo = useCallback(() => {
+    const previous = pastRef.current[pastRef.current.length - 1];
+    if (previous === undefined) return;
+
+    setNodes(currentNodes => {
+      pastRef.current = pastRef.current.slice(0, -1);
+      futureRef.current = [...futureRef.current, { nodes: currentNodes, effect: previous.effect }];
+      emittedNodesRef.current.add(previous.nodes);
+      return previous.nodes;
+    });
+    previous.effect?.undo();
+    lastCoalesceKeyRef.current = null;
+    syncHistoryState();
+  }, [setNodes, syncHistoryState]);
+
+  const redo = useCallback(() => {
+    const next = futureRef.current[futureRef.current.length - 1];
+    if (next === undefined) return;
+
+    setNodes(currentNodes => {
+      futureRef.current = futureRef.current.slice(0, -1);
+      pastRef.current = [...pastRef.current, { nodes: currentNodes, effect: next.effect }].slice(-MAX_HISTORY);
+      emittedNodesRef.current.add(next.nodes);
+      return next.nodes;
+    });
+    next.effect?.redo();
+    lastCoalesceKeyRef.current = null;
+    syncHistoryState();
+  }, [setNodes, syncHistoryState]);
+
+  useEffect(() => {
+    if (nodes === seenNodesRef.current) return;
+    seenNodesRef.current = nodes;
+    if (emittedNodesRef.current.has(nodes)) return;
+
+    pastRef.current = [];
+    futureRef.current = [];
+    lastCoalesceKeyRef.current = null;
+    syncHistoryState();
+  }, [nodes, syncHistoryState]);
+
+  // End the current typing session so the next edit starts a new undo step
+  const breakCoalescing = useCallback(() => {
+    lastCoalesceKeyRef.current = null;
+  }, []);
+
+  // Every node array undo or redo can bring back
+  const getHistoryNodes = useCallback(
+    () => [...pastRef.current, ...futureRef.current].map(entry => entry.nodes),
+    []
+  );
+
+  return {
+    setNodes: setNodesWithHistory,
+    undo,
+    redo,
+    breakCoalescing,
+    getHistoryNodes,
+    canUndo: historyState.canUndo,
+    canRedo: historyState.canRedo,
+  };
+}
+
+/**
+ * Returns 'undo', 'redo' or null for a keyboard event, accepting Ctrl on
+ * Windows/Linux and Cmd on macOS. Ctrl+Y is treated as redo as well.
+ */
+export const getHistoryShortcut = (event: KeyboardEvent | ReactKeyboardEvent): 'undo' | 'redo' | null => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && !event.shiftKey) return 'redo';
+  return null;
+};
+
+export default useNodesHistory;
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * usePopoverDismiss - Closes a popover on Escape or a press outside it
+ *
+ * Returns the ref to attach to the popover. On open, focus moves to its checked
+ * option (or first button) so keyboard users start on the current choice.
+ */
+export function usePopoverDismiss<T extends HTMLElement = HTMLDivElement>(onClose: () => void) {
+  const popoverRef = useRef<T>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const handleMouseDown = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        onCloseRef.current();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        onCloseRef.current();
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown, true);
+
+    const checked = popoverRef.current?.querySelector<HTMLElement>('[aria-checked="true"]');
+    (checked || popoverRef.current?.querySelector<HTMLElement>('button'))?.focus();
+
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, []);
+
+  return popoverRef;
+}
+
+export default usePopoverDismiss;
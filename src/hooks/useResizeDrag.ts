@@ -0,0 +1,134 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+
+export interface DiagramSize {
+  width: number;
+  height: number;
+}
+
+export type ResizeHandlePosition =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right';
+
+interface UseResizeDragOptions {
+  // Size of the diagram when the drag starts
+  getStartSize: () => DiagramSize;
+  // Live updates while dragging
+  onResize: (size: DiagramSize) => void;
+  // Final size once the pointer is released
+  onResizeEnd: (size: DiagramSize) => void;
+  minWidth?: number;
+  minHeight?: number;
+  // Past these the diagram stops growing, so larger sizes aren't committed
+  maxWidth?: number;
+  maxHeight?: number;
+  // Horizontal handles move twice as far when the diagram is centred in its parent
+  horizontalFactor?: number;
+}
+
+/**
+ * useResizeDrag - Pointer handling for the container resize handles
+ *
+ * Corner handles change width and height, the centre handles only height.
+ * Holding Shift keeps the aspect ratio the diagram had when the drag started.
+ */
+export function useResizeDrag({
+  getStartSize,
+  onResize,
+  onResizeEnd,
+  minWidth = 100,
+  minHeight = 100,
+  maxWidth = Infinity,
+  maxHeight = Infinity,
+  horizontalFactor = 1,
+}: UseResizeDragOptions) {
+  const dragRef = useRef<{
+    position: ResizeHandlePosition;
+    pointerId: number;
+    startX: number;
+    startY: number;
+    startSize: DiagramSize;
+    lastSize: DiagramSize;
+  } | null>(null);
+
+  const optionsRef = useRef({ onResize, onResizeEnd, minWidth, minHeight, maxWidth, maxHeight, horizontalFactor });
+  optionsRef.current = { onResize, onResizeEnd, minWidth, minHeight, maxWidth, maxHeight, horizontalFactor };
+
+  const startResize = useCallback((position: ResizeHandlePosition, event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startSize = getStartSize();
+    dragRef.current = {
+      position,
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      startSize,
+      lastSize: startSize,
+    };
+  }, [getStartSize]);
+
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || event.pointerId !== drag.pointerId) return;
+      event.preventDefault();
+
+      const { minWidth: minW, minHeight: minH, maxWidth: maxW, maxHeight: maxH, horizontalFactor: factor } = optionsRef.current;
+      const { position, startSize } = drag;
+      const deltaX = (event.clientX - drag.startX) * factor;
+      const deltaY = event.clientY - drag.startY;
+
+      const changesWidth = !position.includes('center');
+      let width = startSize.width;
+      let height = startSize.height;
+
+      if (changesWidth) {
+        width = startSize.width + (position.includes('left') ? -deltaX : deltaX);
+      }
+      height = startSize.height + (position.includes('top') ? -deltaY : deltaY);
+
+      // Shift on a corner keeps the original proportions, driven by the larger relative change
+      if (event.shiftKey && changesWidth) {
+        const aspect = startSize.width / startSize.height;
+        if (Math.abs(width / startSize.width - 1) >= Math.abs(height / startSize.height - 1)) {
+          height = width / aspect;
+        } else {
+          width = height * aspect;
+        }
+      }
+
+      const size = {
+        width: Math.round(Math.min(Math.max(minW, width), Math.max(minW, maxW))),
+        height: Math.round(Math.min(Math.max(minH, height), Math.max(minH, maxH))),
+      };
+      drag.lastSize = size;
+      optionsRef.current.onResize(size);
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || event.pointerId !== drag.pointerId) return;
+      dragRef.current = null;
+      optionsRef.current.onResizeEnd(drag.lastSize);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, []);
+
+  return { startResize };
+}
+
+export default useResizeDrag;
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AssetStore, isAssetRef } from '../assetStores/assetStore';
+
+/**
+ * Resolves `asset:` references to displayable URLs for rendering.
+ *
+ * References are resolved as they appear in `sources`, and released (revoking
+ * their object URLs) once no card shows them anymore, so deleting or replacing
+ * pictures doesn't leak blobs. Undo brings a reference back and it is simply
+ * resolved again. Plain URLs pass through untouched.
+ *
+ * @returns A function mapping a node's image value to an <img> src; undefined
+ *   while the reference is still loading
+ */
+export const useResolvedImages = (store: AssetStore, sources: string[]) => {
+  const [resolved, setResolved] = useState<Record<string, string>>({});
+  const resolvedRef = useRef<Record<string, string>>({});
+  const pendingRef = useRef(new Set<string>());
+
+  // Stable key so the effect only runs when the set of references changes
+  const refsKey = Array.from(new Set(sources.filter(isAssetRef))).sort().join('\n');
+
+  useEffect(() => {
+    const refs = refsKey ? refsKey.split('\n') : [];
+    const pending = pendingRef.current;
+
+    refs.forEach(ref => {
+      if (resolvedRef.current[ref] || pending.has(ref)) return;
+      pending.add(ref);
+      store.resolve(ref)
+        .then(url => {
+          if (!pending.has(ref)) {
+            // Released while loading
+            store.release?.(ref);
+            return;
+          }
+          resolvedRef.current = { ...resolvedRef.current, [ref]: url };
+          setResolved(resolvedRef.current);
+        })
+        .catch(error => console.error('Failed to resolve picture:', ref, error))
+        .finally(() => pending.delete(ref));
+    });
+
+    // Release pictures no card shows anymore
+    const stale = Object.keys(resolvedRef.current).filter(ref => !refs.includes(ref));
+    pending.forEach(ref => {
+      if (!refs.includes(ref)) pending.delete(ref);
+    });
+    if (stale.length > 0) {
+      const next = { ...resolvedRef.current };
+      stale.forEach(ref => {
+        store.release?.(ref);
+        delete next[ref];
+      });
+      resolvedRef.current = next;
+      setResolved(next);
+    }
+  }, [store, refsKey]);
+
+  // Release everything when the store changes or the diagram unmounts
+  useEffect(() => () => {
+    Object.keys(resolvedRef.current).forEach(ref => store.release?.(ref));
+    resolvedRef.current = {};
+    pendingRef.current.clear();
+  }, [store]);
+
+  return useCallback(
+    (src: string): string | undefined => (isAssetRef(src) ? resolved[src] : src),
+    [resolved]
+  );
+};
+
+export default useResolvedImages;
@@ -0,0 +1,64 @@
+import React, { createContext, useContext } from 'react';
+import { ImageProvider, combineImageProviders } from './imageProvider';
+import { createUnsplashImageProvider } from './unsplashImageProvider';
+import { createOpenAIImageProvider } from './openAIImageProvider';
+import { createMockImageProvider } from './mockImageProvider';
+
+interface DefaultImageProviderOptions {
+  // OpenAI key supplied by the host at runtime (for example, entered by the user)
+  openAIApiKey?: string;
+}
+
+/**
+ * Builds the provider used when the host doesn't supply one. Unsplash search is
+ * enabled by its public access key; image generation only through a server-side
+ * proxy (`REACT_APP_IMAGE_GENERATION_ENDPOINT`) or a key passed at runtime, since
+ * `REACT_APP_*` variables are inlined into the client bundle. Without either, the
+ * offline mock provider is used in development and tests, and production builds
+ * get no picture services.
+ */
+export const createDefaultImageProvider = ({ openAIApiKey }: DefaultImageProviderOptions = {}): ImageProvider => {
+  const providers: ImageProvider[] = [];
+
+  const unsplashKey = process.env.REACT_APP_UNSPLASH_ACCESS_KEY;
+  if (unsplashKey) {
+    providers.push(createUnsplashImageProvider({ accessKey: unsplashKey }));
+  }
+
+  const imageEndpoint = process.env.REACT_APP_IMAGE_GENERATION_ENDPOINT;
+  if (imageEndpoint) {
+    providers.push(createOpenAIImageProvider({ endpoint: imageEndpoint }));
+  } else if (openAIApiKey) {
+    providers.push(createOpenAIImageProvider({ apiKey: openAIApiKey }));
+  }
+
+  if (providers.length > 0) return combineImageProviders(...providers);
+  return process.env.NODE_ENV === 'production' ? { id: 'none', name: 'None' } : createMockImageProvider();
+};
+
+const ImageProviderContext = createContext<ImageProvider | null>(null);
+
+let defaultProvider: ImageProvider | null = null;
+
+/**
+ * Provider for the nearest `ImageProviderContext`, or the environment default.
+ * A provider passed directly as a prop should take precedence over this.
+ */
+export const useImageProvider = (): ImageProvider => {
+  const provider = useContext(ImageProviderContext);
+  if (provider) return provider;
+  if (!defaultProvider) defaultProvider = createDefaultImageProvider();
+  return defaultProvider;
+};
+
+interface ImageProviderScopeProps {
+  provider: ImageProvider;
+  children: React.ReactNode;
+}
+
+// Makes `provider` available to every SmartArt component below it
+export const ImageProviderScope: React.FC<ImageProviderScopeProps> = ({ provider, children }) => (
+  <ImageProviderContext.Provider value={provider}>{children}</ImageProviderContext.Provider>
+);
+
+export default ImageProviderContext;
@@ -0,0 +1,66 @@
+/**
+ * Image provider contract used by the SmartArt picture menu.
+ *
+ * A provider can search for existing images, generate new ones from a text
+ * prompt, or both. Every call takes an AbortSignal so the component can cancel
+ * requests when the user starts another one or the diagram unmounts.
+ */
+export interface ImageAttribution {
+  name: string;
+  url?: string;
+  source?: string;
+}
+
+export interface ImageResult {
+  url: string;
+  thumbnailUrl?: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+  attribution?: ImageAttribution;
+}
+
+export interface ImageSearchOptions {
+  signal?: AbortSignal;
+  page?: number;
+  perPage?: number;
+}
+
+export interface ImageGenerateOptions {
+  signal?: AbortSignal;
+  width?: number;
+  height?: number;
+}
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  search?: (query: string, options?: ImageSearchOptions) => Promise<ImageResult[]>;
+  generate?: (prompt: string, options?: ImageGenerateOptions) => Promise<ImageResult>;
+}
+
+// Rejects with the same AbortError fetch uses, for providers that don't call fetch
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Merges providers so searching and generating can come from different services.
+ * The first provider implementing each capability wins.
+ */
+export const combineImageProviders = (...providers: ImageProvider[]): ImageProvider => {
+  const searchProvider = providers.find(provider => provider.search);
+  const generateProvider = providers.find(provider => provider.generate);
+
+  return {
+    id: providers.map(provider => provider.id).join('+'),
+    name: providers.map(provider => provider.name).join(' + '),
+    search: searchProvider?.search,
+    generate: generateProvider?.generate,
+  };
+};
@@ -0,0 +1,72 @@
+import { ImageProvider, ImageResult, throwIfAborted } from './imageProvider';
+
+interface MockProviderOptions {
+  // Simulated network latency in milliseconds
+  delay?: number;
+  // Number of results returned by `search`
+  resultCount?: number;
+}
+
+const PALETTE = ['#3498db', '#DC816A', '#50B2C0', '#8E6CC7', '#E3A21A', '#27AE60'];
+
+// Small stable hash so the same text always gets the same color
+const hashText = (text: string) =>
+  text.split('').reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char] as string));
+
+// Placeholder image with the text on a colored background, as an SVG data URL
+export const createPlaceholderImage = (text: string, variant = 0, width = 600, height = 450): string => {
+  const color = PALETTE[(hashText(text) + variant) % PALETTE.length];
+  const label = escapeXml(text.trim().slice(0, 40) || 'Image');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="${color}"/>`
+    + `<text x="50%" y="50%" fill="#ffffff" font-family="Segoe UI, sans-serif" font-size="${Math.round(height / 10)}" text-anchor="middle" dominant-baseline="middle">${label}</text>`
+    + '</svg>';
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const wait = (delay: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const timeout = setTimeout(resolve, delay);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeout);
+    reject(new DOMException('The operation was aborted.', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Offline provider for tests and local development. Returns generated SVG
+ * placeholders, needs no network or API keys and honours AbortSignal.
+ */
+export const createMockImageProvider = ({ delay = 300, resultCount = 8 }: MockProviderOptions = {}): ImageProvider => ({
+  id: 'mock',
+  name: 'Mock Images',
+  search: async (query, { signal, page = 1 } = {}) => {
+    await wait(delay, signal);
+    return Array.from({ length: resultCount }, (_, index): ImageResult => {
+      const variant = (page - 1) * resultCount + index;
+      return {
+        url: createPlaceholderImage(query, variant),
+        thumbnailUrl: createPlaceholderImage(query, variant, 200, 150),
+        alt: query,
+        width: 600,
+        height: 450,
+        attribution: { name: 'Mock provider', source: 'mock' },
+      };
+    });
+  },
+  generate: async (prompt, { signal, width = 600, height = 450 } = {}) => {
+    await wait(delay, signal);
+    return {
+      url: createPlaceholderImage(prompt, 0, width, height),
+      alt: prompt,
+      width,
+      height,
+      attribution: { name: 'Mock provider', source: 'mock' },
+    };
+  },
+});
+
+export default createMockImageProvider;
@@ -0,0 +1,62 @@
+import { ImageGenerateOptions, ImageProvider } from './imageProvider';
+
+interface OpenAIProviderOptions {
+  // API key sent as a bearer token. Prefer `endpoint` pointing at your own proxy in production.
+  apiKey?: string;
+  endpoint?: string;
+  model?: string;
+}
+
+// Closest supported square/landscape/portrait size for the requested dimensions
+const pickSize = (width?: number, height?: number) => {
+  if (!width || !height || Math.abs(width - height) / Math.max(width, height) < 0.2) return '1024x1024';
+  return width > height ? '1792x1024' : '1024x1792';
+};
+
+/**
+ * Text-to-image generation through the OpenAI Images API (or a compatible proxy).
+ */
+export const createOpenAIImageProvider = ({
+  apiKey,
+  endpoint = 'https://api.openai.com/v1/images/generations',
+  model = 'dall-e-3',
+}: OpenAIProviderOptions): ImageProvider => ({
+  id: 'openai',
+  name: 'OpenAI',
+  generate: async (prompt: string, { signal, width, height }: ImageGenerateOptions = {}) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        prompt: `An illustrative photo for a presentation card titled "${prompt.trim() || 'abstract'}"`,
+        n: 1,
+        size: pickSize(width, height),
+        response_format: 'b64_json',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Image generation error (${response.status}): ${response.statusText}`);
+    }
+
+    const data: { data?: { b64_json?: string; url?: string; revised_prompt?: string }[] } = await response.json();
+    const image = data.data?.[0];
+    if (!image || (!image.b64_json && !image.url)) {
+      throw new Error('Image generation returned no image');
+    }
+
+    return {
+      // Base64 data doesn't expire like the hosted URLs do
+      url: image.b64_json ? `data:image/png;base64,${image.b64_json}` : (image.url as string),
+      alt: image.revised_prompt || prompt,
+      attribution: { name: `Generated with ${model}`, source: 'OpenAI' },
+    };
+  },
+});
+
+export default createOpenAIImageProvider;
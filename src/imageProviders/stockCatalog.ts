@@ -0,0 +1,100 @@
+import { ImageProvider, ImageResult, throwIfAborted } from './imageProvider';
+import bundledCatalog from '../data/stockImages.json';
+
+/**
+ * Catalog sources behind the Stock Images browser.
+ *
+ * The default source searches the bundled JSON catalog in memory, so the browser
+ * works offline. Any `ImageProvider` with `search` can be adapted into a remote
+ * source with `createProviderStockCatalog`.
+ */
+export interface StockImage extends ImageResult {
+  id: string;
+  title: string;
+  category?: string;
+  tags?: string[];
+}
+
+export interface StockSearchOptions {
+  category?: string;
+  page?: number;
+  perPage?: number;
+  signal?: AbortSignal;
+}
+
+export interface StockSearchResult {
+  images: StockImage[];
+  hasMore: boolean;
+  // Total number of matches, when the source knows it
+  total?: number;
+}
+
+export interface StockCatalogSource {
+  id: string;
+  name: string;
+  categories: string[];
+  search: (query: string, options?: StockSearchOptions) => Promise<StockSearchResult>;
+}
+
+interface LocalCatalogData {
+  categories: string[];
+  images: StockImage[];
+}
+
+const matchesQuery = (image: StockImage, terms: string[]) => {
+  const haystack = [image.title, image.category, ...(image.tags || [])].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// Searches a catalog held in memory; every word of the query has to match
+export const createLocalStockCatalog = (data: LocalCatalogData = bundledCatalog): StockCatalogSource => ({
+  id: 'local',
+  name: 'Stock Images',
+  categories: data.categories,
+  search: async (query, { category, page = 1, perPage = 12, signal } = {}) => {
+    throwIfAborted(signal);
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = data.images.filter(image =>
+      (!category || image.category === category) && matchesQuery(image, terms)
+    );
+    const start = (page - 1) * perPage;
+    return {
+      images: matches.slice(start, start + perPage),
+      hasMore: start + perPage < matches.length,
+      total: matches.length,
+    };
+  },
+});
+
+// Uses a search provider (Unsplash, ...) as a catalog; categories are added to the query
+export const createProviderStockCatalog = (
+  provider: ImageProvider,
+  categories: string[] = bundledCatalog.categories
+): StockCatalogSource => ({
+  id: provider.id,
+  name: provider.name,
+  categories,
+  search: async (query, { category, page = 1, perPage = 12, signal } = {}) => {
+    if (!provider.search) {
+      throw new Error(`${provider.name} does not support image search`);
+    }
+    const fullQuery = [query.trim(), category].filter(Boolean).join(' ') || 'popular';
+    const results = await provider.search(fullQuery, { page, perPage, signal });
+    return {
+      images: results.map((result, index) => ({
+        ...result,
+        id: `${provider.id}-${page}-${index}`,
+        title: result.alt || fullQuery,
+        category,
+      })),
+      hasMore: results.length === perPage,
+    };
+  },
+});
+
+let defaultCatalog: StockCatalogSource | null = null;
+
+export const getDefaultStockCatalog = () => {
+  if (!defaultCatalog) defaultCatalog = createLocalStockCatalog();
+  return defaultCatalog;
+};
@@ -0,0 +1,53 @@
+import { ImageProvider, ImageResult, ImageSearchOptions } from './imageProvider';
+
+interface UnsplashProviderOptions {
+  // Unsplash API access key; keep it out of source control (e.g. REACT_APP_UNSPLASH_ACCESS_KEY)
+  accessKey: string;
+  endpoint?: string;
+}
+
+interface UnsplashPhoto {
+  alt_description?: string | null;
+  width: number;
+  height: number;
+  urls: { regular: string; small: string };
+  user: { name: string; links: { html: string } };
+  links: { html: string };
+}
+
+/**
+ * Searches Unsplash photos. This is a search provider only: it finds existing
+ * photos that match the text, it doesn't generate anything.
+ */
+export const createUnsplashImageProvider = ({
+  accessKey,
+  endpoint = 'https://api.unsplash.com/search/photos',
+}: UnsplashProviderOptions): ImageProvider => ({
+  id: 'unsplash',
+  name: 'Unsplash',
+  search: async (query: string, { signal, page = 1, perPage = 10 }: ImageSearchOptions = {}) => {
+    const params = new URLSearchParams({
+      query: query.trim() || 'abstract',
+      page: String(page),
+      per_page: String(perPage),
+      client_id: accessKey,
+    });
+
+    const response = await fetch(`${endpoint}?${params.toString()}`, { signal });
+    if (!response.ok) {
+      throw new Error(`Unsplash API error (${response.status}): ${response.statusText}`);
+    }
+
+    const data: { results?: UnsplashPhoto[] } = await response.json();
+    return (data.results || []).map((photo): ImageResult => ({
+      url: photo.urls.regular,
+      thumbnailUrl: photo.urls.small,
+      alt: photo.alt_description || query,
+      width: photo.width,
+      height: photo.height,
+      attribution: { name: photo.user.name, url: photo.user.links.html, source: 'Unsplash' },
+    }));
+  },
+});
+
+export default createUnsplashImageProvider;
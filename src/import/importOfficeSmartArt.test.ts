@@ -0,0 +1,146 @@
+import { Blob as NodeBlob } from 'buffer';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { TextDecoder, TextEncoder } from 'util';
+import { createZip } from '../export/zip';
+import { OfficeImportError, importOfficeSmartArt } from './importOfficeSmartArt';
+
+// jsdom has neither the text codecs nor Blob.arrayBuffer, so borrow Node's
+Object.assign(globalThis, { Blob: NodeBlob, TextDecoder, TextEncoder });
+
+const readFixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4E, 0x47]);
+
+// A .pptx reduced to the parts the importer reads
+const createPresentation = () => createZip([
+  {
+    path: 'docProps/core.xml',
+    data: '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" '
+      + 'xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Quarterly review</dc:title></cp:coreProperties>',
+  },
+  { path: 'ppt/diagrams/data2.xml', data: readFixture('data2.xml') },
+  { path: 'ppt/diagrams/data10.xml', data: readFixture('data3.xml') },
+  { path: 'ppt/diagrams/data1.xml', data: readFixture('data1.xml') },
+  {
+    path: 'ppt/diagrams/_rels/data1.xml.rels',
+    data: '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" '
+      + 'Target="../media/image1.png"/></Relationships>',
+  },
+  { path: 'ppt/media/image1.png', data: PNG_BYTES },
+]);
+
+// Offset of the nth record with the given signature, for corrupting archives
+const findSignature = (bytes: Uint8Array, signature: number, nth: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 0; offset <= bytes.length - 4; offset++) {
+    if (view.getUint32(offset, true) === signature && nth-- === 0) return offset;
+  }
+  throw new Error('Signature not found');
+};
+
+const getImportError = async (input: Blob | string) => {
+  try {
+    await importOfficeSmartArt(input);
+  } catch (error: unknown) {
+    if (error instanceof OfficeImportError) return error.message;
+    throw error;
+  }
+  throw new Error('Expected an OfficeImportError');
+};
+
+describe('importOfficeSmartArt', () => {
+  it('imports a list data model in connection order', async () => {
+    const { diagrams, unsupported } = await importOfficeSmartArt(readFixture('data1.xml'));
+
+    expect(unsupported).toEqual([]);
+    expect(diagrams).toHaveLength(1);
+    const [{ source, layoutId, document }] = diagrams;
+    expect(source).toBe('data.xml');
+    expect(layoutId).toBe('urn:microsoft.com/office/officeart/2005/8/layout/vList2');
+    expect(document.layout).toBe('list');
+    expect(document.nodes).toEqual([
+      { id: 1, title: 'Plan', body: 'Set goals' },
+      { id: 2, title: 'Do', body: 'Carry it out' },
+      { id: 3, title: 'Check', body: 'Measure\nWeekly' },
+    ]);
+  });
+
+  it('warns about flattened nesting and pictures it cannot reach', async () => {
+    const [{ warnings }] = (await importOfficeSmartArt(readFixture('data1.xml'))).diagrams;
+    expect(warnings).toEqual([
+      'Text nested more than two levels deep was flattened into the card text',
+      'Pictures are stored outside the data part; import the whole .pptx or .docx to keep them',
+    ]);
+  });
+
+  it('imports a cycle data model', async () => {
+    const [{ document, warnings }] = (await importOfficeSmartArt(readFixture('data2.xml'))).diagrams;
+    expect(document.layout).toBe('cycle');
+    expect(document.nodes.map(node => node.title)).toEqual(['Reduce', 'Reuse', 'Recycle']);
+    expect(warnings).toEqual([]);
+  });
+
+  it('reports layouts with no equivalent, keeping their text', async () => {
+    const { diagrams, unsupported } = await importOfficeSmartArt(readFixture('data3.xml'));
+    expect(diagrams).toEqual([]);
+    expect(unsupported).toEqual([{
+      source: 'data.xml',
+      layoutId: 'urn:microsoft.com/office/officeart/2005/8/layout/pyramid1',
+      category: 'pyramid',
+      nodes: [
+        { id: 1, title: 'Vision', body: '' },
+        { id: 2, title: 'Goals', body: '' },
+        { id: 3, title: 'Tasks', body: '' },
+      ],
+      reason: 'The "pyramid1" layout (pyramid) has no equivalent yet',
+    }]);
+  });
+
+  it('falls back to the layout category, or reports a missing layout', async () => {
+    const unknownCycle = readFixture('data2.xml').replace('layout/cycle2', 'layout/cycle99');
+    expect((await importOfficeSmartArt(unknownCycle)).diagrams[0].document.layout).toBe('cycle');
+
+    const noLayout = readFixture('data2.xml').replace(/ loTypeId="[^"]*" loCatId="[^"]*"/, '');
+    const [{ layoutId, reason }] = (await importOfficeSmartArt(noLayout)).unsupported;
+    expect(layoutId).toBe('');
+    expect(reason).toBe('The diagram doesn\'t say which layout it uses');
+  });
+
+  it('rejects XML that is not a SmartArt data model', async () => {
+    expect(await getImportError('<dgm:dataModel')).toBe('data.xml is not valid XML');
+    expect(await getImportError('<html/>')).toBe('data.xml is not a SmartArt data model');
+  });
+
+  it('imports every diagram in a presentation, in part order', async () => {
+    const { diagrams, unsupported } = await importOfficeSmartArt(createPresentation());
+
+    expect(diagrams.map(diagram => diagram.source)).toEqual(['ppt/diagrams/data1.xml', 'ppt/diagrams/data2.xml']);
+    expect(unsupported.map(diagram => diagram.source)).toEqual(['ppt/diagrams/data10.xml']);
+    expect(diagrams.map(diagram => diagram.document.metadata.title)).toEqual(['Quarterly review', 'Quarterly review']);
+
+    const [list] = diagrams;
+    expect(list.document.nodes[0].image).toBe('data:image/png;base64,iVBORw==');
+    expect(list.warnings).toEqual(['Text nested more than two levels deep was flattened into the card text']);
+  });
+
+  it('rejects archives without SmartArt', async () => {
+    const archive = createZip([{ path: 'ppt/slides/slide1.xml', data: '<p:sld/>' }]);
+    expect(await getImportError(archive)).toBe('The file doesn\'t contain any SmartArt');
+  });
+
+  it('reports unreadable entries as OfficeImportError', async () => {
+    const corrupt = new Uint8Array(await createPresentation().arrayBuffer());
+    // Break the local header of ppt/diagrams/data2.xml, the second entry
+    corrupt[findSignature(corrupt, 0x04034B50, 1)] = 0;
+    expect(await getImportError(new Blob([corrupt]))).toBe(
+      'Couldn\'t read ppt/diagrams/data2.xml: Corrupt ZIP entry ppt/diagrams/data2.xml'
+    );
+
+    const deflated = new Uint8Array(await createPresentation().arrayBuffer());
+    // Claim data1.xml, the fourth entry, is deflated when it is stored
+    deflated[findSignature(deflated, 0x02014B50, 3) + 10] = 8;
+    expect(await getImportError(new Blob([deflated]))).toMatch(/^Couldn't read ppt\/diagrams\/data1\.xml: /);
+  });
+});
@@ -0,0 +1,381 @@
+import { AssetStore } from '../assetStores/assetStore';
+import { DocumentNode, LayoutType, SmartArtDocument, createDocument } from '../document/smartArtDocument';
+import { ZipArchive, isZipData, readZip } from './readZip';
+
+/**
+ * Importer for Office SmartArt. Reads the diagram data model (`dgm:dataModel`,
+ * the `diagrams/dataN.xml` part) on its own or from inside a .pptx/.docx, turns
+ * its point list into nodes and maps the Office layout onto ours.
+ *
+ * Each top-level point becomes a node: its first paragraph is the title, and
+ * its other paragraphs plus the text of every point below it become body lines.
+ * Diagrams whose layout has no equivalent here are returned in `unsupported`,
+ * with their text, rather than being dropped.
+ */
+const NS_DGM = 'http://schemas.openxmlformats.org/drawingml/2006/diagram';
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const LAYOUT_ID_PREFIX = 'urn:microsoft.com/office/officeart/2005/8/layout/';
+
+// Built-in Office layouts that read naturally as one of ours, by their id suffix
+const KNOWN_LAYOUTS: Record<string, LayoutType> = {
+  // Basic Block, Vertical Bullet, Horizontal Bullet, Lined and Picture lists
+  default: 'list',
+  vList2: 'list',
+  vList5: 'list',
+  hList1: 'list',
+  hList3: 'list',
+  hList6: 'list',
+  list1: 'list',
+  lProcess2: 'list',
+  pList1: 'list',
+  pList2: 'list',
+  bList2: 'list',
+  // Text, Basic, Continuous, Block, Nondirectional and Multidirectional cycles
+  cycle1: 'cycle',
+  cycle2: 'cycle',
+  cycle3: 'cycle',
+  cycle5: 'cycle',
+  cycle6: 'cycle',
+  cycle7: 'cycle',
+};
+
+// Layout categories (`loCatId`) used when the exact layout isn't known
+const KNOWN_CATEGORIES: Record<string, LayoutType> = {
+  list: 'list',
+  cycle: 'cycle',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Thrown when the input isn't an Office file or data model, or contains no SmartArt.
+ */
+export class OfficeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfficeImportError';
+  }
+}
+
+export interface ImportedSmartArt {
+  // Part the diagram came from, e.g. `ppt/diagrams/data1.xml`
+  source: string;
+  layoutId: string;
+  document: SmartArtDocument;
+  // Things that didn't carry over exactly, e.g. flattened nesting
+  warnings: string[];
+}
+
+export interface UnsupportedSmartArt {
+  source: string;
+  layoutId: string;
+  category?: string;
+  // Extracted content, so hosts can still offer to load it as a list
+  nodes: DocumentNode[];
+  reason: string;
+}
+
+export interface OfficeSmartArtImport {
+  diagrams: ImportedSmartArt[];
+  unsupported: UnsupportedSmartArt[];
+}
+
+export interface ImportOfficeSmartArtOptions {
+  // Where embedded pictures are saved; without one they become data URLs
+  assetStore?: AssetStore;
+}
+
+interface DataPart {
+  path: string;
+  xml: string;
+  archive?: ZipArchive;
+}
+
+interface Point {
+  id: string;
+  type: string;
+  paragraphs: string[];
+  imageRelId?: string;
+}
+
+// Reads that fail (corrupt entries, failed decompression) throw `OfficeImportError` like every other problem
+const guardArchive = (archive: ZipArchive): ZipArchive => {
+  const guard = async <T>(path: string, read: () => Promise<T>) => {
+    try {
+      return await read();
+    } catch (error: unknown) {
+      throw new OfficeImportError(`Couldn't read ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+  return {
+    ...archive,
+    read: path => guard(path, () => archive.read(path)),
+    readText: path => guard(path, () => archive.readText(path)),
+  };
+};
+
+const parseXml = (xml: string, path: string) => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new OfficeImportError(`${path} is not valid XML`);
+  }
+  return document;
+};
+
+const childrenNS = (parent: Element | Document, namespace: string, name: string) =>
+  Array.from(parent.getElementsByTagNameNS(namespace, name));
+
+// Text of each `a:p`, with line breaks as spaces
+const readParagraphs = (textBody: Element | undefined) =>
+  textBody
+    ? childrenNS(textBody, NS_A, 'p').map(paragraph =>
+      Array.from(paragraph.getElementsByTagNameNS(NS_A, '*'))
+        .map(element => {
+          if (element.localName === 't') return element.textContent ?? '';
+          if (element.localName === 'br') return ' ';
+          return '';
+        })
+        .join('')
+        .trim())
+    : [];
+
+const findImageRelId = (element: Element) =>
+  childrenNS(element, NS_A, 'blip')[0]?.getAttributeNS(NS_R, 'embed') || undefined;
+
+// Resolves a relationship target against the folder of the part that owns it
+const resolvePartPath = (partPath: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = partPath.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.') segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+const readRelationships = async (archive: ZipArchive, partPath: string) => {
+  const slash = partPath.lastIndexOf('/');
+  const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  const targets = new Map<string, string>();
+  if (!archive.has(relsPath)) return targets;
+
+  childrenNS(parseXml(await archive.readText(relsPath), relsPath), NS_REL, 'Relationship').forEach(rel => {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      targets.set(id, resolvePartPath(partPath, target));
+    }
+  });
+  return targets;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = '';
+  // Chunked so large pictures don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// Office stores layouts either on the doc point or in the matching layoutN.xml part
+const readLayoutId = async (model: Document, part: DataPart) => {
+  const docPoint = childrenNS(model, NS_DGM, 'pt').find(pt => pt.getAttribute('type') === 'doc');
+  const prSet = docPoint && childrenNS(docPoint, NS_DGM, 'prSet')[0];
+  const layoutId = prSet?.getAttribute('loTypeId');
+  const category = prSet?.getAttribute('loCatId') || undefined;
+  if (layoutId || !part.archive) return { layoutId: layoutId || '', category };
+
+  const layoutPath = part.path.replace(/data(\d*)\.xml$/i, 'layout$1.xml');
+  if (layoutPath === part.path || !part.archive.has(layoutPath)) return { layoutId: '', category };
+  const layoutDef = parseXml(await part.archive.readText(layoutPath), layoutPath).documentElement;
+  return { layoutId: layoutDef.getAttribute('uniqueId') || '', category };
+};
+
+const getLayoutType = (layoutId: string, category?: string): LayoutType | undefined => {
+  const name = layoutId.startsWith(LAYOUT_ID_PREFIX) ? layoutId.slice(LAYOUT_ID_PREFIX.length) : layoutId;
+  const has = (table: Record<string, LayoutType>, key?: string) =>
+    key !== undefined && Object.prototype.hasOwnProperty.call(table, key);
+  if (has(KNOWN_LAYOUTS, name)) return KNOWN_LAYOUTS[name];
+  return has(KNOWN_CATEGORIES, category) ? KNOWN_CATEGORIES[category as string] : undefined;
+};
+
+const importDataPart = async (
+  part: DataPart,
+  options: ImportOfficeSmartArtOptions,
+  title?: string
+): Promise<ImportedSmartArt | UnsupportedSmartArt> => {
+  const model = parseXml(part.xml, part.path);
+  if (model.documentElement.localName !== 'dataModel' || model.documentElement.namespaceURI !== NS_DGM) {
+    throw new OfficeImportError(`${part.path} is not a SmartArt data model`);
+  }
+  const warnings: string[] = [];
+
+  const points = new Map<string, Point>();
+  childrenNS(model, NS_DGM, 'pt').forEach(pt => {
+    const id = pt.getAttribute('modelId');
+    if (!id) return;
+    const spPr = childrenNS(pt, NS_DGM, 'spPr')[0];
+    points.set(id, {
+      id,
+      type: pt.getAttribute('type') || 'node',
+      paragraphs: readParagraphs(childrenNS(pt, NS_DGM, 't')[0]),
+      imageRelId: spPr && findImageRelId(spPr),
+    });
+  });
+
+  // Parent/child links are `parOf` connections (the default type), ordered by srcOrd
+  const children = new Map<string, { id: string; order: number }[]>();
+  const pictureRelIds = new Map<string, string>();
+  childrenNS(model, NS_DGM, 'cxn').forEach(cxn => {
+    const type = cxn.getAttribute('type') || 'parOf';
+    const srcId = cxn.getAttribute('srcId');
+    const destId = cxn.getAttribute('destId');
+    if (type !== 'parOf' || !srcId || !destId) return;
+    const list = children.get(srcId) ?? [];
+    list.push({ id: destId, order: Number(cxn.getAttribute('srcOrd')) || 0 });
+    children.set(srcId, list);
+  });
+  // Picture placeholders are presentation points tied to a node through presAssocID
+  childrenNS(model, NS_DGM, 'pt').forEach(pt => {
+    const nodeId = childrenNS(pt, NS_DGM, 'prSet')[0]?.getAttribute('presAssocID');
+    const spPr = childrenNS(pt, NS_DGM, 'spPr')[0];
+    const relId = spPr && findImageRelId(spPr);
+    if (pt.getAttribute('type') === 'pres' && nodeId && relId && !pictureRelIds.has(nodeId)) {
+      pictureRelIds.set(nodeId, relId);
+    }
+  });
+
+  const getChildren = (id: string) =>
+    (children.get(id) ?? [])
+      .sort((a, b) => a.order - b.order)
+      .map(child => points.get(child.id))
+      .filter((point): point is Point => !!point && (point.type === 'node' || point.type === 'asst'));
+
+  const docPoint = Array.from(points.values()).find(point => point.type === 'doc');
+  if (!docPoint) throw new OfficeImportError(`${part.path} has no document point`);
+
+  let flattened = false;
+  // Our cards have two levels, title and body, so anything below the body is flattened into it
+  const collectLines = (point: Point): string[] =>
+    getChildren(point.id).flatMap(child => {
+      const grandchildLines = collectLines(child);
+      if (grandchildLines.length > 0) flattened = true;
+      return [...child.paragraphs, ...grandchildLines];
+    });
+
+  const relationships = part.archive ? await readRelationships(part.archive, part.path) : new Map<string, string>();
+  let missingPictures = 0;
+
+  const loadPicture = async (relId: string | undefined) => {
+    if (!relId) return undefined;
+    const target = relationships.get(relId);
+    const mimeType = target && IMAGE_TYPES[target.split('.').pop()?.toLowerCase() ?? ''];
+    if (!part.archive || !target || !mimeType || !part.archive.has(target)) {
+      missingPictures++;
+      return undefined;
+    }
+    const bytes = await part.archive.read(target);
+    if (options.assetStore) {
+      return options.assetStore.put(new Blob([bytes], { type: mimeType }), { name: target.split('/').pop() });
+    }
+    return bytesToDataUrl(bytes, mimeType);
+  };
+
+  const nodes: DocumentNode[] = await Promise.all(getChildren(docPoint.id).map(async (point, index) => {
+    const [title = '', ...extraParagraphs] = point.paragraphs;
+    const image = await loadPicture(pictureRelIds.get(point.id) ?? point.imageRelId);
+    return {
+      id: index + 1,
+      title,
+      body: [...extraParagraphs, ...collectLines(point)].filter(Boolean).join('\n'),
+      ...(image ? { image } : {}),
+    };
+  }));
+
+  if (flattened) warnings.push('Text nested more than two levels deep was flattened into the card text');
+  if (missingPictures > 0) {
+    warnings.push(part.archive
+      ? `${missingPictures === 1 ? 'One picture' : `${missingPictures} pictures`} couldn't be read`
+      : 'Pictures are stored outside the data part; import the whole .pptx or .docx to keep them');
+  }
+
+  const { layoutId, category } = await readLayoutId(model, part);
+  const layout = getLayoutType(layoutId, category);
+  if (!layout) {
+    return {
+      source: part.path,
+      layoutId,
+      category,
+      nodes,
+      reason: layoutId
+        ? `The "${layoutId.replace(LAYOUT_ID_PREFIX, '')}" layout${category ? ` (${category})` : ''} has no equivalent yet`
+        : 'The diagram doesn\'t say which layout it uses',
+    };
+  }
+
+  return { source: part.path, layoutId, document: createDocument(layout, nodes, { metadata: { title } }), warnings };
+};
+
+// Data parts in document order: ppt/diagrams/data1.xml, data2.xml, ...
+const findDataParts = (archive: ZipArchive) =>
+  archive.paths
+    .filter(path => /(^|\/)diagrams\/data\d*\.xml$/i.test(path))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+const readCoreTitle = async (archive: ZipArchive) => {
+  if (!archive.has('docProps/core.xml')) return undefined;
+  const core = parseXml(await archive.readText('docProps/core.xml'), 'docProps/core.xml');
+  return core.getElementsByTagNameNS('http://purl.org/dc/elements/1.1/', 'title')[0]?.textContent || undefined;
+};
+
+/**
+ * Imports every SmartArt diagram in a .pptx/.docx file (as a Blob or
+ * ArrayBuffer), or a single data model passed as an XML string.
+ * Throws `OfficeImportError` when there is nothing to import.
+ */
+export const importOfficeSmartArt = async (
+  input: Blob | ArrayBuffer | string,
+  options: ImportOfficeSmartArtOptions = {}
+): Promise<OfficeSmartArtImport> => {
+  let parts: DataPart[];
+  let title: string | undefined;
+
+  if (typeof input === 'string') {
+    parts = [{ path: 'data.xml', xml: input }];
+  } else {
+    const buffer = input instanceof ArrayBuffer ? input : await input.arrayBuffer();
+    const bytes = new Uint8Array(buffer);
+    if (!isZipData(bytes)) {
+      parts = [{ path: 'data.xml', xml: new TextDecoder().decode(bytes) }];
+    } else {
+      let archive: ZipArchive;
+      try {
+        archive = guardArchive(readZip(buffer));
+      } catch (error: unknown) {
+        throw new OfficeImportError(`Couldn't open the file: ${error instanceof Error ? error.message : error}`);
+      }
+      const paths = findDataParts(archive);
+      if (paths.length === 0) throw new OfficeImportError('The file doesn\'t contain any SmartArt');
+      title = await readCoreTitle(archive);
+      parts = await Promise.all(paths.map(async path => ({ path, xml: await archive.readText(path), archive })));
+    }
+  }
+
+  const result: OfficeSmartArtImport = { diagrams: [], unsupported: [] };
+  for (const part of parts) {
+    const imported = await importDataPart(part, options, title);
+    if ('document' in imported) result.diagrams.push(imported);
+    else result.unsupported.push(imported);
+  }
+  return result;
+};
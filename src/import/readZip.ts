@@ -0,0 +1,100 @@
+/**
+ * Minimal ZIP reader for Office files. Only stored and deflated entries are
+ * supported, which covers everything Office writes; deflate goes through the
+ * browser's DecompressionStream.
+ */
+export interface ZipArchive {
+  paths: string[];
+  has: (path: string) => boolean;
+  read: (path: string) => Promise<Uint8Array>;
+  readText: (path: string) => Promise<string>;
+}
+
+interface ZipEntryInfo {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Not in TypeScript 4.9's DOM types yet. A `declare const` rather than a
+// `declare class`, whose fields Babel refuses to strip
+declare const DecompressionStream: {
+  new (format: 'deflate-raw'): {
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<Uint8Array>;
+  };
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054B50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014B50;
+const LOCAL_FILE_HEADER = 0x04034B50;
+
+export const isZipData = (bytes: Uint8Array) =>
+  bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4B && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+const inflateRaw = async (data: Uint8Array) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser can\'t decompress Office files');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus up to 64 KB of comment
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('Not a ZIP file');
+
+  const entries = new Map<string, ZipEntryInfo>();
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error('Corrupt ZIP directory');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(path, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (path: string) => {
+    const entry = entries.get(path);
+    if (!entry) throw new Error(`${path} is missing from the file`);
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt ZIP entry ${path}`);
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = bytes.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return data;
+      case 8:
+        return inflateRaw(data);
+      default:
+        throw new Error(`${path} uses an unsupported compression method (${entry.method})`);
+    }
+  };
+
+  return {
+    paths: Array.from(entries.keys()),
+    has: path => entries.has(path),
+    read,
+    readText: async path => decoder.decode(await read(path)),
+  };
+};
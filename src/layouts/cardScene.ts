@@ -0,0 +1,113 @@
+import type { DocumentNode } from '../document/smartArtDocument';
+import type { SceneItem, SceneOptions, SceneText } from '../export/scene';
+import { ExportImage, loadExportImage } from '../export/exportImages';
+import { wrapText } from '../export/textLayout';
+import { ColorScheme, getNodeColor } from '../utils/colorSchemes';
+import { getCropRect } from '../utils/imageCrop';
+import { NODE_PADDING, NODE_WIDTH } from '../utils/listLayout';
+
+/**
+ * Picture cards for export, shared by the layouts that draw the list's cards.
+ */
+export interface SceneCard {
+  node: DocumentNode;
+  accentColor?: string;
+  frameHeight: number;
+  title: SceneText;
+  body: SceneText;
+  // Height the card's content needs
+  height: number;
+  image: ExportImage | null;
+}
+
+const textHeight = (text: SceneText) => text.lines.length * text.lineHeight;
+
+// Loads the pictures and wraps the text of every node's card
+export const prepareSceneCards = async (
+  nodes: DocumentNode[],
+  scheme: ColorScheme,
+  options: SceneOptions,
+  { scale, imageHeight }: { scale: number; imageHeight: number }
+): Promise<SceneCard[]> => {
+  const cardWidth = NODE_WIDTH * scale;
+  const padding = NODE_PADDING;
+  const contentWidth = cardWidth - padding * 2;
+
+  const images = await Promise.all(nodes.map(node =>
+    node.image ? loadExportImage(node.image, { assetStore: options.assetStore, inline: options.inlineImages }) : null
+  ));
+
+  return nodes.map((node, index) => {
+    const accentColor = getNodeColor(scheme, index, nodes.length, node.color);
+    const frameHeight = node.imageCrop?.aspect ? contentWidth / node.imageCrop.aspect : imageHeight;
+    const title: SceneText = {
+      type: 'text',
+      x: 0,
+      y: 0,
+      width: contentWidth,
+      text: node.title,
+      lines: wrapText(node.title, contentWidth, { fontSize: 16 * scale, fontWeight: 700 }),
+      fontSize: 16 * scale,
+      fontWeight: 700,
+      lineHeight: 16 * scale * 1.375,
+      color: accentColor || '#242424',
+      align: 'left',
+    };
+    const body: SceneText = {
+      type: 'text',
+      x: 0,
+      y: 0,
+      width: contentWidth,
+      text: node.body,
+      lines: node.body ? wrapText(node.body, contentWidth, { fontSize: 14 * scale, fontWeight: 400 }) : [],
+      fontSize: 14 * scale,
+      fontWeight: 400,
+      lineHeight: 14 * scale * 1.429,
+      color: '#000000',
+      align: 'left',
+    };
+    // Picture, 8px gap, title, 8px gap, body, all inside the card padding
+    const height = padding + frameHeight + 8 + textHeight(title) + 8 + textHeight(body) + padding;
+    return { node, accentColor, frameHeight, title, body, height, image: images[index] };
+  });
+};
+
+// Lines that fit above `bottom` when the text starts at `top`
+const clipLines = (text: SceneText, top: number, bottom: number): SceneText => ({
+  ...text,
+  lines: text.lines.slice(0, Math.max(0, Math.floor((bottom - top) / text.lineHeight))),
+});
+
+// Draws a card with its top-left corner at (x, y); text that doesn't fit the height is left out
+export const drawSceneCard = (card: SceneCard, x: number, y: number, height: number): SceneItem[] => {
+  const padding = NODE_PADDING;
+  const frame = { x: x + padding, y: y + padding, width: card.title.width, height: card.frameHeight };
+  const bottom = y + height - padding;
+  const items: SceneItem[] = [];
+
+  if (card.accentColor) {
+    items.push({ type: 'rect', x, y, width: card.title.width + padding * 2, height, radius: 4, stroke: card.accentColor });
+  }
+  items.push({ type: 'rect', ...frame, radius: 4, fill: '#F0F0F0' });
+  if (card.image) {
+    const { href, width, height: naturalHeight } = card.image;
+    items.push({
+      type: 'image',
+      ...frame,
+      radius: 4,
+      href,
+      alt: card.node.title,
+      naturalWidth: width,
+      naturalHeight,
+      crop: width && naturalHeight ? getCropRect(card.node.imageCrop, width, naturalHeight, frame.width, frame.height) : undefined,
+    });
+  }
+
+  const titleY = frame.y + frame.height + 8;
+  const title = clipLines(card.title, titleY, bottom);
+  items.push({ ...title, x: frame.x, y: titleY });
+  const bodyY = titleY + textHeight(title) + 8;
+  const body = clipLines(card.body, bodyY, bottom);
+  if (body.lines.length > 0) items.push({ ...body, x: frame.x, y: bodyY });
+  return items;
+};
@@ -0,0 +1,29 @@
+import { DocumentNode, StashedNodeFields } from '../document/smartArtDocument';
+import { SmartArtLayout } from './layoutRegistry';
+
+/**
+ * Reshapes nodes for another layout. Titles, bodies and colors carry over as they
+ * are. Pictures stay on the node when the target layout shows them; otherwise they
+ * move into the node's `stashed` fields instead of being dropped, and come back out
+ * the next time the node reaches a layout with pictures, so switching A → B → A
+ * returns the nodes unchanged.
+ */
+export const convertNodesForLayout = (nodes: DocumentNode[], target: SmartArtLayout): DocumentNode[] =>
+  nodes.map(node => {
+    const { stashed, image, imageAttribution, imageCrop, ...rest } = node;
+    const pictureFields: StashedNodeFields = {
+      ...(image ? { image } : {}),
+      ...(imageAttribution ? { imageAttribution } : {}),
+      ...(imageCrop ? { imageCrop } : {}),
+    };
+
+    if (target.supportsImages) {
+      const restored: DocumentNode = { ...rest, ...pictureFields, ...stashed };
+      // Nodes created where pictures weren't shown get the layout's placeholder
+      if (!restored.image) restored.image = target.createNode(node.id).image;
+      return restored;
+    }
+
+    const moved = { ...stashed, ...pictureFields };
+    return Object.keys(moved).length > 0 ? { ...rest, stashed: moved } : rest;
+  });
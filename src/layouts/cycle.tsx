@@ -0,0 +1,216 @@
+import React from 'react';
+import styled from 'styled-components';
+import { SmartArtDocument } from '../document/smartArtDocument';
+import type { Scene, SceneItem, SceneOptions, SceneText } from '../export/scene';
+import { wrapText } from '../export/textLayout';
+import { ColorScheme, getColorScheme, getNodeColor, mixColors } from '../utils/colorSchemes';
+import {
+  CYCLE_CENTER,
+  CYCLE_CONTENT_WIDTH,
+  CYCLE_MAX_SCALE,
+  CYCLE_MIN_SCALE,
+  CYCLE_RADIUS,
+  CYCLE_SIZE,
+  getCycleAddButtonPosition,
+  getCycleNodePosition,
+  getCycleScale,
+  getCycleTextAlign,
+} from '../utils/cycleLayout';
+import { CONTAINER_PADDING } from '../utils/listLayout';
+import { LayoutArrangementProps, SmartArtLayout } from './layoutRegistry';
+
+const CycleCanvas = styled.div`
+  position: relative;
+`;
+
+const CircleTrack = styled.div<{ $color?: string }>`
+  position: absolute;
+  box-sizing: border-box;
+  border-radius: 50%;
+  border: 1px dashed ${props => props.$color || '#e0e0e0'};
+`;
+
+const StepMarker = styled.div<{ $color?: string }>`
+  position: absolute;
+  font-size: calc(32px * var(--smartart-scale, 1));
+  font-weight: bold;
+  color: ${props => props.$color || '#50B2C0'};
+  text-align: center;
+  transform: translate(-50%, -50%);
+  z-index: 2;
+  pointer-events: none;
+`;
+
+// Each step's text is centred on its anchor outside the circle
+const StepSlot = styled.div`
+  position: absolute;
+  transform: translate(-50%, -50%);
+  z-index: 3;
+
+  &:hover, &:focus-within {
+    z-index: 20;
+  }
+`;
+
+// Track uses a light tint of the first scheme color
+const getTrackColor = (scheme: ColorScheme, nodeCount: number) => {
+  const schemeTrackColor = getNodeColor(scheme, 0, nodeCount);
+  return schemeTrackColor ? mixColors(schemeTrackColor, '#ffffff', 0.6) : undefined;
+};
+
+const CycleArrangement: React.FC<LayoutArrangementProps> = ({ nodes, metrics, scheme, overlay, children }) => {
+  const center = CYCLE_CENTER * metrics.scale;
+  const radius = CYCLE_RADIUS * metrics.scale;
+  return (
+    <CycleCanvas role="list" style={{ width: metrics.width, height: metrics.height }}>
+      <CircleTrack
+        $color={getTrackColor(scheme, nodes.length)}
+        style={{ left: center - radius, top: center - radius, width: radius * 2, height: radius * 2 }}
+        aria-hidden="true"
+      />
+      {overlay}
+      {nodes.map((node, index) => {
+        const { x, y, textX, textY, position } = getCycleNodePosition(index, nodes.length, radius, center);
+        return (
+          <React.Fragment key={node.id}>
+            {/* Numbered marker - directly on the circle */}
+            <StepMarker
+              $color={getNodeColor(scheme, index, nodes.length, node.color)}
+              style={{ left: x, top: y }}
+              aria-hidden="true"
+            >
+              {index + 1}
+            </StepMarker>
+            <StepSlot
+              style={{ left: textX, top: textY, '--smartart-text-align': getCycleTextAlign(position) } as React.CSSProperties}
+            >
+              {children[index]}
+            </StepSlot>
+          </React.Fragment>
+        );
+      })}
+    </CycleCanvas>
+  );
+};
+
+const textHeight = (text: SceneText) => text.lines.length * text.lineHeight;
+
+// Numbered markers on a dashed circle with each step's text outside it
+const buildCycleScene = async (document: SmartArtDocument, options: SceneOptions): Promise<Scene> => {
+  const { nodes } = document;
+  const scheme = getColorScheme(document.styles.colorScheme);
+  const scale = getCycleScale(document.size, options.availableWidth);
+  const center = CYCLE_CENTER * scale;
+  const radius = CYCLE_RADIUS * scale;
+  const contentWidth = CYCLE_CONTENT_WIDTH * scale;
+  const items: SceneItem[] = [{
+    type: 'circle',
+    cx: center,
+    cy: center,
+    r: radius,
+    stroke: getTrackColor(scheme, nodes.length) || '#e0e0e0',
+    dashed: true,
+  }];
+
+  nodes.forEach((node, index) => {
+    const { x, y, textX, textY, position } = getCycleNodePosition(index, nodes.length, radius, center);
+    const align = getCycleTextAlign(position);
+
+    items.push({
+      type: 'text',
+      x: x - 20 * scale,
+      y: y - 20 * scale,
+      width: 40 * scale,
+      text: String(index + 1),
+      lines: [String(index + 1)],
+      fontSize: 32 * scale,
+      fontWeight: 700,
+      lineHeight: 40 * scale,
+      color: getNodeColor(scheme, index, nodes.length, node.color) || '#50B2C0',
+      align: 'center',
+    });
+
+    const title: SceneText = {
+      type: 'text',
+      x: textX - contentWidth / 2,
+      y: 0,
+      width: contentWidth,
+      text: node.title,
+      lines: wrapText(node.title, contentWidth, { fontSize: 18 * scale, fontWeight: 600 }),
+      fontSize: 18 * scale,
+      fontWeight: 600,
+      lineHeight: 18 * scale * 1.25,
+      color: '#000000',
+      align,
+    };
+    const body: SceneText = {
+      ...title,
+      text: node.body,
+      lines: node.body ? wrapText(node.body, contentWidth, { fontSize: 14 * scale, fontWeight: 400 }) : [],
+      fontSize: 14 * scale,
+      fontWeight: 400,
+      lineHeight: 14 * scale * 1.4,
+      color: '#666666',
+    };
+
+    // The text block is centred on its anchor point
+    const blockHeight = textHeight(title) + 8 * scale + textHeight(body);
+    const top = textY - blockHeight / 2;
+    items.push({ ...title, y: top });
+    if (body.lines.length > 0) {
+      items.push({ ...body, y: top + textHeight(title) + 8 * scale });
+    }
+  });
+
+  return { width: CYCLE_SIZE * scale, height: CYCLE_SIZE * scale, items };
+};
+
+/**
+ * Cycle: numbered steps clockwise around a circle, with each step's text outside it.
+ */
+export const cycleLayout: SmartArtLayout = {
+  id: 'cycle',
+  name: 'Cycle',
+  nodeLabel: { singular: 'step', plural: 'steps' },
+  supportsImages: false,
+  accentedNodes: false,
+  dragReorder: false,
+  hierarchical: false,
+  createNode: id => ({ id, title: 'New Step', body: 'Add details here' }),
+  getMetrics: (_nodes, size, { availableWidth }) => {
+    const scale = getCycleScale(size, availableWidth);
+    const minSide = CYCLE_SIZE * CYCLE_MIN_SCALE + CONTAINER_PADDING * 2;
+    const maxSide = CYCLE_SIZE * CYCLE_MAX_SCALE + CONTAINER_PADDING * 2;
+    return {
+      scale,
+      width: CYCLE_SIZE * scale,
+      height: CYCLE_SIZE * scale,
+      gap: 0,
+      minSize: { width: minSide, height: minSide },
+      maxSize: { width: maxSide, height: maxSide },
+      style: {
+        '--smartart-scale': scale,
+        '--smartart-card-min-height': 'auto',
+        '--smartart-title-size': '18px',
+        '--smartart-title-weight': 600,
+        '--smartart-body-color': '#666666',
+      },
+    };
+  },
+  getAddButtons: (nodes, { scale }) => {
+    const nodeCount = nodes.length;
+    const center = CYCLE_CENTER * scale;
+    if (nodeCount === 0) return [{ index: 0, x: center, y: center, label: 'Add step' }];
+    return Array.from({ length: nodeCount }, (_, index) => ({
+      index: index + 1,
+      ...getCycleAddButtonPosition(index, nodeCount, CYCLE_RADIUS * scale, center),
+      label: `Add step after step ${index + 1}`,
+    }));
+  },
+  describe: nodes =>
+    `A repeating cycle: ${nodes.map((node, index) => `step ${index + 1}, ${node.title}`).join('; ')}; then back to step 1.`,
+  Arrangement: CycleArrangement,
+  buildScene: buildCycleScene,
+};
+
+export default cycleLayout;
@@ -0,0 +1,259 @@
+import React from 'react';
+import styled from 'styled-components';
+import { DocumentNode, SmartArtDocument } from '../document/smartArtDocument';
+import type { Scene, SceneItem, SceneOptions } from '../export/scene';
+import { ColorScheme, getColorScheme, getNodeColor, mixColors } from '../utils/colorSchemes';
+import {
+  HIERARCHY_CARD_HEIGHT,
+  HIERARCHY_IMAGE_HEIGHT,
+  HIERARCHY_LEVEL_GAP,
+  getConnectorSegments,
+  getHierarchyScale,
+  getTreeLayout,
+} from '../utils/hierarchyLayout';
+import { CONTAINER_PADDING, MAX_SCALE, MIN_SCALE, NODE_GAP, NODE_WIDTH } from '../utils/listLayout';
+import { getChildren, getDescendantIds, getParentMap, getSubtreeEnd, getVisibleNodes } from '../utils/nodeTree';
+import { LayoutAddButton, LayoutArrangementProps, SmartArtLayout } from './layoutRegistry';
+import { drawSceneCard, prepareSceneCards } from './cardScene';
+import { listLayout } from './list';
+
+const TreeCanvas = styled.div`
+  position: relative;
+`;
+
+const ConnectorLines = styled.svg`
+  position: absolute;
+  left: 0;
+  top: 0;
+  overflow: visible;
+  pointer-events: none;
+`;
+
+const CardSlot = styled.div`
+  position: absolute;
+  z-index: 3;
+
+  &:hover, &:focus-within {
+    z-index: 20;
+  }
+`;
+
+// Straddles the bottom edge of a card with children; shows the hidden count when collapsed
+const CollapseToggle = styled.button`
+  position: absolute;
+  transform: translate(-50%, -50%);
+  min-width: 20px;
+  height: 20px;
+  padding: 0 5px;
+  border-radius: 10px;
+  border: 1px solid #e0e0e0;
+  background: white;
+  box-shadow: 0px 0px 2px 0px rgba(0, 0, 0, 0.12), 0px 1px 2px 0px rgba(0, 0, 0, 0.14);
+  font-family: 'Segoe UI', system-ui, -apple-system, sans-serif;
+  font-size: 11px;
+  line-height: 1;
+  color: #424242;
+  cursor: pointer;
+  z-index: 12;
+
+  &:hover, &:focus-visible {
+    border-color: #3498db;
+    color: #3498db;
+    outline: none;
+  }
+`;
+
+// Connectors use a light tint of the first scheme color
+const getConnectorColor = (scheme: ColorScheme, nodeCount: number) => {
+  const schemeColor = getNodeColor(scheme, 0, nodeCount);
+  return schemeColor ? mixColors(schemeColor, '#ffffff', 0.4) : '#BDBDBD';
+};
+
+const nodeName = (node: DocumentNode, index: number) => (node.title ? `"${node.title}"` : `card ${index + 1}`);
+
+const HierarchyArrangement: React.FC<LayoutArrangementProps> = ({ nodes, metrics, scheme, overlay, children, onNodeChange }) => {
+  const { positions, connectors } = getTreeLayout(nodes, metrics.scale);
+  const parents = getParentMap(nodes);
+  const cardWidth = NODE_WIDTH * metrics.scale;
+  const cardHeight = HIERARCHY_CARD_HEIGHT * metrics.scale;
+  const connectorColor = getConnectorColor(scheme, nodes.length);
+
+  return (
+    <TreeCanvas role="list" style={{ width: metrics.width, height: metrics.height }}>
+      <ConnectorLines width={metrics.width} height={metrics.height} aria-hidden="true">
+        {connectors.flatMap(getConnectorSegments).map((segment, index) => (
+          <line key={index} {...segment} stroke={connectorColor} strokeWidth={1} />
+        ))}
+      </ConnectorLines>
+      {overlay}
+      {positions.map(position => {
+        const index = nodes.findIndex(node => node.id === position.id);
+        const node = nodes[index];
+        const hasChildren = getChildren(nodes, node.id, parents).length > 0;
+        const hiddenCount = node.collapsed ? getDescendantIds(nodes, node.id, parents).size : 0;
+        return (
+          <React.Fragment key={node.id}>
+            <CardSlot style={{ left: position.x, top: position.y }}>
+              {children[index]}
+            </CardSlot>
+            {hasChildren && (
+              <CollapseToggle
+                style={{ left: position.x + cardWidth / 2, top: position.y + cardHeight }}
+                aria-expanded={!node.collapsed}
+                aria-label={node.collapsed
+                  ? `Expand ${nodeName(node, index)}, ${hiddenCount} hidden`
+                  : `Collapse ${nodeName(node, index)}`}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onNodeChange(node.id, { collapsed: !node.collapsed });
+                }}
+              >
+                {node.collapsed ? `+${hiddenCount}` : '−'}
+              </CollapseToggle>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </TreeCanvas>
+  );
+};
+
+// The same tree with the cards drawn as on the page; collapsed branches show their hidden count
+const buildHierarchyScene = async (document: SmartArtDocument, options: SceneOptions): Promise<Scene> => {
+  const { nodes } = document;
+  const scheme = getColorScheme(document.styles.colorScheme);
+  const scale = getHierarchyScale(nodes, document.size, options.availableWidth);
+  const tree = getTreeLayout(nodes, scale);
+  const cardHeight = HIERARCHY_CARD_HEIGHT * scale;
+  const cards = await prepareSceneCards(nodes, scheme, options, { scale, imageHeight: HIERARCHY_IMAGE_HEIGHT * scale });
+  const parents = getParentMap(nodes);
+  const connectorColor = getConnectorColor(scheme, nodes.length);
+
+  // Connector segments as hairline rectangles, which every format can draw
+  const items: SceneItem[] = tree.connectors.flatMap(getConnectorSegments).map(({ x1, y1, x2, y2 }) => ({
+    type: 'rect' as const,
+    x: CONTAINER_PADDING + Math.min(x1, x2) - 0.5,
+    y: CONTAINER_PADDING + Math.min(y1, y2) - 0.5,
+    width: Math.abs(x2 - x1) + 1,
+    height: Math.abs(y2 - y1) + 1,
+    fill: connectorColor,
+  }));
+
+  tree.positions.forEach(position => {
+    const index = nodes.findIndex(node => node.id === position.id);
+    const x = CONTAINER_PADDING + position.x;
+    const y = CONTAINER_PADDING + position.y;
+    items.push(...drawSceneCard(cards[index], x, y, cardHeight));
+
+    if (!nodes[index].collapsed) return;
+    const hiddenCount = getDescendantIds(nodes, position.id, parents).size;
+    if (hiddenCount === 0) return;
+    const label = `+${hiddenCount}`;
+    const centreX = x + (NODE_WIDTH * scale) / 2;
+    items.push(
+      { type: 'rect', x: centreX - 14, y: y + cardHeight - 10, width: 28, height: 20, radius: 10, fill: '#ffffff', stroke: '#e0e0e0' },
+      { type: 'text', x: centreX - 14, y: y + cardHeight - 7, width: 28, text: label, lines: [label], fontSize: 11, fontWeight: 400, lineHeight: 14, color: '#424242', align: 'center' }
+    );
+  });
+
+  return {
+    width: tree.width + CONTAINER_PADDING * 2,
+    height: tree.height + CONTAINER_PADDING * 2,
+    items,
+  };
+};
+
+/**
+ * Add buttons for each visible card: one beside it for a new sibling, and one below it
+ * for a new last child. Collapsed cards get no child button, since the new card would
+ * be hidden.
+ */
+const getHierarchyAddButtons = (nodes: DocumentNode[], scale: number): LayoutAddButton[] => {
+  const cardWidth = NODE_WIDTH * scale;
+  const cardHeight = HIERARCHY_CARD_HEIGHT * scale;
+  if (nodes.length === 0) return [{ index: 0, x: cardWidth / 2, y: cardHeight / 2, label: 'Add card' }];
+
+  const parents = getParentMap(nodes);
+  return getTreeLayout(nodes, scale).positions.flatMap(position => {
+    const index = nodes.findIndex(node => node.id === position.id);
+    const node = nodes[index];
+    const sibling: LayoutAddButton = {
+      index: index + 1,
+      x: position.x + cardWidth + (NODE_GAP * scale) / 2,
+      y: position.y + cardHeight / 2,
+      parentId: parents.get(node.id),
+      label: `Add a card next to ${nodeName(node, index)}`,
+    };
+    if (node.collapsed) return [sibling];
+    return [sibling, {
+      index: getSubtreeEnd(nodes, node.id, parents),
+      x: position.x + cardWidth / 2,
+      // Clear of the collapse toggle on the card's edge at any scale
+      y: position.y + cardHeight + Math.max((HIERARCHY_LEVEL_GAP * scale) / 2, 24),
+      parentId: node.id,
+      label: `Add a card under ${nodeName(node, index)}`,
+    }];
+  });
+};
+
+const describeHierarchy = (nodes: DocumentNode[]) => {
+  const parents = getParentMap(nodes);
+  const title = (node: DocumentNode) => node.title || 'untitled card';
+  const roots = getChildren(nodes, undefined, parents);
+  const branches = getVisibleNodes(nodes, parents).flatMap(node => {
+    const nodeChildren = getChildren(nodes, node.id, parents);
+    if (nodeChildren.length === 0) return [];
+    return node.collapsed
+      ? [`${title(node)} has ${getDescendantIds(nodes, node.id, parents).size} hidden cards`]
+      : [`under ${title(node)}: ${nodeChildren.map(title).join(', ')}`];
+  });
+  return `A hierarchy with ${roots.map(title).join(', ')} at the top${branches.length > 0 ? `; ${branches.join('; ')}` : ''}.`;
+};
+
+/**
+ * Hierarchy: the list's picture cards as an organization chart or decision tree, with
+ * connectors from each card to its children and collapsible branches.
+ */
+export const hierarchyLayout: SmartArtLayout = {
+  id: 'hierarchy',
+  name: 'Hierarchy',
+  nodeLabel: { singular: 'card', plural: 'cards' },
+  supportsImages: true,
+  accentedNodes: true,
+  dragReorder: false,
+  hierarchical: true,
+  createNode: id => ({ ...listLayout.createNode(id), title: 'Name', body: 'Role' }),
+  getMetrics: (nodes, size, { availableWidth }) => {
+    const scale = getHierarchyScale(nodes, size, availableWidth);
+    const { width, height } = getTreeLayout(nodes, scale);
+    const natural = getTreeLayout(nodes);
+    return {
+      scale,
+      width,
+      height,
+      gap: NODE_GAP * scale,
+      minSize: {
+        width: natural.width * MIN_SCALE + CONTAINER_PADDING * 2,
+        height: natural.height * MIN_SCALE + CONTAINER_PADDING * 2,
+      },
+      maxSize: {
+        width: natural.width * MAX_SCALE + CONTAINER_PADDING * 2,
+        height: natural.height * MAX_SCALE + CONTAINER_PADDING * 2,
+      },
+      style: {
+        '--smartart-scale': scale,
+        '--smartart-image-height': `${HIERARCHY_IMAGE_HEIGHT * scale}px`,
+        '--smartart-card-min-height': `${HIERARCHY_CARD_HEIGHT * scale}px`,
+        '--smartart-card-height': `${HIERARCHY_CARD_HEIGHT * scale}px`,
+        '--smartart-text-overflow': 'hidden',
+      },
+    };
+  },
+  getAddButtons: (nodes, { scale }) => getHierarchyAddButtons(nodes, scale),
+  describe: describeHierarchy,
+  Arrangement: HierarchyArrangement,
+  buildScene: buildHierarchyScene,
+};
+
+export default hierarchyLayout;
@@ -0,0 +1,19 @@
+import { registerLayout } from './layoutRegistry';
+import { listLayout } from './list';
+import { cycleLayout } from './cycle';
+import { hierarchyLayout } from './hierarchy';
+
+// Built-in layouts; importing this module makes them available to `getLayout`
+registerLayout(listLayout);
+registerLayout(cycleLayout);
+registerLayout(hierarchyLayout);
+
+export { registerLayout, getLayout, getLayouts } from './layoutRegistry';
+export { convertNodesForLayout } from './convertNodes';
+export type {
+  LayoutAddButton,
+  LayoutArrangementProps,
+  LayoutMetrics,
+  LayoutMetricsOptions,
+  SmartArtLayout,
+} from './layoutRegistry';
@@ -0,0 +1,97 @@
+import type React from 'react';
+import type { DiagramSize } from '../hooks/useResizeDrag';
+import type { DocumentNode, DocumentStyles, LayoutType, SmartArtDocument } from '../document/smartArtDocument';
+import type { ColorScheme } from '../utils/colorSchemes';
+import type { Scene, SceneOptions } from '../export/scene';
+
+/**
+ * Layouts plug into the shared `SmartArt` editor through this registry.
+ *
+ * The editor owns everything that works the same in every layout: node state and
+ * history, selection, text editing, pictures, toolbars, comments and export. A layout
+ * only says where the nodes go (and what is drawn around them), where the add buttons
+ * sit, and how the same arrangement is drawn for export.
+ */
+export interface LayoutMetrics {
+  scale: number;
+  // Size of the arranged nodes, without the container padding; without a height the
+  // nodes' own content decides it
+  width: number;
+  height?: number;
+  // Nodes per row for layouts that arrange them in rows; a single column reorders vertically
+  columns?: number;
+  // Space between neighbouring nodes, where the drag-and-drop indicator is drawn
+  gap: number;
+  // Smallest and largest sizes the resize handles allow, including the container padding:
+  // the sizes at the layout's minimum and maximum scale
+  minSize: DiagramSize;
+  maxSize: DiagramSize;
+  // CSS custom properties read by the shared node styles (scale, fonts, card height)
+  style: Record<string, string | number>;
+}
+
+export interface LayoutAddButton {
+  // Index the new node is inserted at
+  index: number;
+  // Centre of the button relative to the arranged nodes; no `y` centres it vertically.
+  // `y` may be a CSS length for rows whose height only the browser knows
+  x: number;
+  y?: number | string;
+  // Parent of the new node, in hierarchical layouts
+  parentId?: number;
+  label: string;
+}
+
+export interface LayoutMetricsOptions {
+  styles: DocumentStyles;
+  // Width the page gives the diagram, including the container padding
+  availableWidth?: number;
+}
+
+export interface LayoutArrangementProps {
+  nodes: DocumentNode[];
+  metrics: LayoutMetrics;
+  scheme: ColorScheme;
+  // Drawn above the nodes in the same coordinate space, such as the drop indicator
+  overlay?: React.ReactNode;
+  // One interactive element per node, in order, built by the shared editor
+  children: React.ReactElement[];
+  // Updates one node as a single undo step, for controls the layout draws itself
+  onNodeChange: (nodeId: number, changes: Partial<DocumentNode>) => void;
+}
+
+export interface SmartArtLayout {
+  id: LayoutType;
+  name: string;
+  // What a single node is called in labels and announcements
+  nodeLabel: { singular: string; plural: string };
+  supportsImages: boolean;
+  // Cards show their color on the frame and title; other layouts color their own decorations
+  accentedNodes: boolean;
+  // Whether nodes can be dragged with the pointer to reorder them
+  dragReorder: boolean;
+  // Nodes form a tree through `parentId`: dragging drops a node onto its new parent,
+  // Alt+Arrow moves it within the tree, and collapsed branches are hidden
+  hierarchical: boolean;
+  createNode: (id: number) => DocumentNode;
+  getMetrics: (nodes: DocumentNode[], size: DiagramSize | null, options: LayoutMetricsOptions) => LayoutMetrics;
+  getAddButtons: (nodes: DocumentNode[], metrics: LayoutMetrics) => LayoutAddButton[];
+  // Text alternative for layouts whose arrangement carries meaning, like a cycle
+  describe?: (nodes: DocumentNode[]) => string;
+  Arrangement: React.ComponentType<LayoutArrangementProps>;
+  buildScene: (document: SmartArtDocument, options: SceneOptions) => Promise<Scene>;
+}
+
+const layouts = new Map<LayoutType, SmartArtLayout>();
+
+export const registerLayout = (layout: SmartArtLayout) => {
+  layouts.set(layout.id, layout);
+};
+
+export const getLayout = (id: LayoutType): SmartArtLayout => {
+  const layout = layouts.get(id);
+  if (!layout) throw new Error(`No SmartArt layout is registered as "${id}"`);
+  return layout;
+};
+
+export const getLayouts = (): SmartArtLayout[] => Array.from(layouts.values());
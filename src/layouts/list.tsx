@@ -0,0 +1,174 @@
+import React from 'react';
+import styled from 'styled-components';
+import { DocumentStyles, SmartArtDocument } from '../document/smartArtDocument';
+import type { DiagramSize } from '../hooks/useResizeDrag';
+import type { Scene, SceneItem, SceneOptions } from '../export/scene';
+import { getColorScheme } from '../utils/colorSchemes';
+import {
+  CONTAINER_PADDING,
+  IMAGE_HEIGHT,
+  MAX_SCALE,
+  MIN_SCALE,
+  NODE_GAP,
+  NODE_MIN_HEIGHT,
+  NODE_WIDTH,
+  fitListToWidth,
+  getLayoutMetrics,
+  getListColumns,
+  getListRows,
+  getNaturalContentHeight,
+  getNaturalContentWidth,
+} from '../utils/listLayout';
+import { LayoutAddButton, LayoutArrangementProps, SmartArtLayout } from './layoutRegistry';
+import { drawSceneCard, prepareSceneCards } from './cardScene';
+
+// New cards start with placeholder text and a default nature image
+const DEFAULT_IMAGE = 'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=300&q=80';
+
+// Every row is as tall as the tallest card, so the add buttons can find the rows
+const NodesGrid = styled.div`
+  display: grid;
+  grid-auto-rows: 1fr;
+  gap: calc(24px * var(--smartart-scale, 1));
+  position: relative;
+`;
+
+const ListArrangement: React.FC<LayoutArrangementProps> = ({ nodes, metrics, overlay, children }) => (
+  <NodesGrid role="list" style={{ gridTemplateColumns: `repeat(${metrics.columns ?? Math.max(nodes.length, 1)}, auto)` }}>
+    {overlay}
+    {children}
+  </NodesGrid>
+);
+
+// Columns, rows and card metrics for the document's orientation
+const getListArrangement = (nodeCount: number, size: DiagramSize | null, styles: DocumentStyles, availableWidth?: number) => {
+  // Until it is resized, the list adapts to the width of the page
+  if (!size && availableWidth) {
+    const { columns, scale } = fitListToWidth(nodeCount, styles.orientation, { columns: styles.columns, availableWidth });
+    return {
+      columns,
+      rows: getListRows(nodeCount, columns),
+      scale,
+      imageHeight: IMAGE_HEIGHT * scale,
+      cardMinHeight: NODE_MIN_HEIGHT * scale,
+    };
+  }
+
+  // A resized `wrap` list fits its rows into the width it was given
+  const columns = getListColumns(nodeCount, styles.orientation, {
+    columns: styles.columns,
+    availableWidth: size?.width ?? availableWidth,
+  });
+  return { columns, rows: getListRows(nodeCount, columns), ...getLayoutMetrics(nodeCount, size, columns) };
+};
+
+/**
+ * Add buttons for each arrangement. In rows, each button sits in the gap after a card,
+ * or in the container padding after the last card of a row; a single column puts them
+ * in the gaps between rows instead. Rows share the canvas height evenly, so their
+ * centres are CSS lengths worked out from the canvas height and the row gaps.
+ */
+const getListAddButtons = (nodeCount: number, columns: number, scale: number, width: number, gap: number): LayoutAddButton[] => {
+  const nodeWidth = NODE_WIDTH * scale;
+  const rows = getListRows(nodeCount, columns);
+  const rowHeight = `(100% - ${(rows - 1) * gap}px) / ${rows}`;
+  const rowCentre = (row: number) =>
+    rows === 1 ? undefined : `calc(${rowHeight} * ${row + 0.5} + ${row * gap}px)`;
+  const between = (position: number) => `Add card between cards ${position} and ${position + 1}`;
+
+  if (columns === 1 && nodeCount > 1) {
+    return [
+      { index: 0, x: width / 2, y: -CONTAINER_PADDING, label: 'Add card at the start' },
+      ...Array.from({ length: nodeCount - 1 }, (_, idx) => ({
+        index: idx + 1,
+        x: width / 2,
+        y: `calc(${rowHeight} * ${idx + 1} + ${(idx + 0.5) * gap}px)`,
+        label: between(idx + 1),
+      })),
+      { index: nodeCount, x: width / 2, y: `calc(100% + ${CONTAINER_PADDING}px)`, label: 'Add card at the end' },
+    ];
+  }
+
+  return [
+    { index: 0, x: -CONTAINER_PADDING, y: rowCentre(0), label: 'Add card at the start' },
+    ...Array.from({ length: nodeCount }, (_, idx) => {
+      const column = idx % columns;
+      return {
+        index: idx + 1,
+        x: column === columns - 1 ? width + CONTAINER_PADDING : (column + 1) * (nodeWidth + gap) - gap / 2,
+        y: rowCentre(Math.floor(idx / columns)),
+        label: idx + 1 === nodeCount ? 'Add card at the end' : between(idx + 1),
+      };
+    }),
+  ];
+};
+
+// Rows of cards, each with a picture, a title and a description
+const buildListScene = async (document: SmartArtDocument, options: SceneOptions): Promise<Scene> => {
+  const { nodes } = document;
+  const { columns, rows, scale, imageHeight, cardMinHeight } =
+    getListArrangement(nodes.length, document.size, document.styles, options.availableWidth);
+  const cards = await prepareSceneCards(nodes, getColorScheme(document.styles.colorScheme), options, { scale, imageHeight });
+
+  // Every card stretches to the tallest one, as the rows do on the page
+  const cardHeight = Math.max(cardMinHeight, ...cards.map(card => card.height));
+  const gap = NODE_GAP * scale;
+  const items: SceneItem[] = cards.flatMap((card, index) => drawSceneCard(
+    card,
+    CONTAINER_PADDING + (index % columns) * (NODE_WIDTH * scale + gap),
+    CONTAINER_PADDING + Math.floor(index / columns) * (cardHeight + gap),
+    cardHeight
+  ));
+
+  return {
+    width: getNaturalContentWidth(columns) * scale + CONTAINER_PADDING * 2,
+    height: rows * cardHeight + (rows - 1) * gap + CONTAINER_PADDING * 2,
+    items,
+  };
+};
+
+/**
+ * List: picture cards in a row, a column, a grid or rows that wrap to the page, all
+ * scaling together with the resize handles. By default the cards shrink, wrap and
+ * finally stack to fit the page.
+ */
+export const listLayout: SmartArtLayout = {
+  id: 'list',
+  name: 'List',
+  nodeLabel: { singular: 'card', plural: 'cards' },
+  supportsImages: true,
+  accentedNodes: true,
+  dragReorder: true,
+  hierarchical: false,
+  createNode: id => ({ id, title: 'Heading 4', body: 'Description', image: DEFAULT_IMAGE }),
+  getMetrics: (nodes, size, { styles, availableWidth }) => {
+    const { columns, rows, scale, imageHeight, cardMinHeight } = getListArrangement(nodes.length, size, styles, availableWidth);
+    return {
+      scale,
+      width: getNaturalContentWidth(columns) * scale,
+      columns,
+      gap: NODE_GAP * scale,
+      minSize: {
+        width: getNaturalContentWidth(columns) * MIN_SCALE + CONTAINER_PADDING * 2,
+        height: getNaturalContentHeight(rows) * MIN_SCALE + CONTAINER_PADDING * 2,
+      },
+      // A `wrap` list gains columns as it widens, up to a single row
+      maxSize: {
+        width: getNaturalContentWidth(styles.orientation === 'wrap' ? nodes.length : columns) * MAX_SCALE
+          + CONTAINER_PADDING * 2,
+        height: getNaturalContentHeight(rows) * MAX_SCALE + CONTAINER_PADDING * 2,
+      },
+      style: {
+        '--smartart-scale': scale,
+        '--smartart-image-height': `${imageHeight}px`,
+        '--smartart-card-min-height': `${cardMinHeight}px`,
+      },
+    };
+  },
+  getAddButtons: (nodes, { scale, width, gap, columns = Math.max(nodes.length, 1) }) =>
+    getListAddButtons(nodes.length, columns, scale, width, gap),
+  Arrangement: ListArrangement,
+  buildScene: buildListScene,
+};
+
+export default listLayout;
@@ -0,0 +1,92 @@
+/**
+ * Color schemes for SmartArt diagrams, modelled on Office's "Change Colors" gallery.
+ *
+ * - primary: every card uses the same accent
+ * - colorful: cards cycle through a sequence of accents
+ * - gradient: cards blend from the first color to the second across the diagram
+ * - monochrome: shades of a single hue, dark to light
+ *
+ * The 'default' scheme keeps the components' built-in colors.
+ */
+export type ColorSchemeKind = 'default' | 'primary' | 'colorful' | 'gradient' | 'monochrome';
+
+export interface ColorScheme {
+  id: string;
+  name: string;
+  kind: ColorSchemeKind;
+  colors: string[];
+}
+
+export const DEFAULT_COLOR_SCHEME_ID = 'default';
+
+export const COLOR_SCHEMES: ColorScheme[] = [
+  { id: DEFAULT_COLOR_SCHEME_ID, name: 'Default', kind: 'default', colors: [] },
+  { id: 'primary-blue', name: 'Blue', kind: 'primary', colors: ['#3498db'] },
+  { id: 'primary-coral', name: 'Coral', kind: 'primary', colors: ['#DC816A'] },
+  { id: 'primary-teal', name: 'Teal', kind: 'primary', colors: ['#50B2C0'] },
+  { id: 'colorful-accents', name: 'Colorful Accents', kind: 'colorful', colors: ['#3498db', '#DC816A', '#50B2C0', '#8E6CC7', '#E3A21A'] },
+  { id: 'colorful-range', name: 'Colorful Range', kind: 'colorful', colors: ['#C0392B', '#E67E22', '#27AE60', '#2980B9', '#8E44AD'] },
+  { id: 'gradient-ocean', name: 'Ocean Gradient', kind: 'gradient', colors: ['#1B4F72', '#5DADE2'] },
+  { id: 'gradient-sunset', name: 'Sunset Gradient', kind: 'gradient', colors: ['#A93226', '#F5B041'] },
+  { id: 'monochrome-gray', name: 'Gray', kind: 'monochrome', colors: ['#242424', '#9E9E9E'] },
+  { id: 'monochrome-green', name: 'Green', kind: 'monochrome', colors: ['#1E5631', '#76B947'] },
+];
+
+export const getColorScheme = (id: string | undefined): ColorScheme =>
+  COLOR_SCHEMES.find(scheme => scheme.id === id) || COLOR_SCHEMES[0];
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(char => char + char).join('') : value;
+  const number = parseInt(full, 16);
+  return [(number >> 16) & 255, (number >> 8) & 255, number & 255];
+};
+
+const rgbToHex = (rgb: number[]): string =>
+  `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+// Linear blend between two hex colors, `amount` from 0 to 1
+export const mixColors = (from: string, to: string, amount: number): string => {
+  const start = hexToRgb(from);
+  const end = hexToRgb(to);
+  return rgbToHex(start.map((channel, i) => channel + (end[i] - channel) * amount));
+};
+
+/**
+ * Accent color for the card at `index` out of `total`, or undefined for the
+ * default scheme. A per-node override always wins over the scheme.
+ */
+export const getNodeColor = (
+  scheme: ColorScheme,
+  index: number,
+  total: number,
+  override?: string
+): string | undefined => {
+  if (override) return override;
+
+  switch (scheme.kind) {
+    case 'primary':
+      return scheme.colors[0];
+    case 'colorful':
+      return scheme.colors[index % scheme.colors.length];
+    case 'gradient':
+    case 'monochrome': {
+      const amount = total > 1 ? index / (total - 1) : 0;
+      return mixColors(scheme.colors[0], scheme.colors[scheme.colors.length - 1], amount);
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Colors offered when overriding a single card: the scheme's own accents
+ * followed by the primary colors, without duplicates.
+ */
+export const getSwatchColors = (scheme: ColorScheme): string[] => {
+  const schemeColors = scheme.kind === 'gradient' || scheme.kind === 'monochrome'
+    ? [0, 0.25, 0.5, 0.75, 1].map(amount => mixColors(scheme.colors[0], scheme.colors[1], amount))
+    : scheme.colors;
+  const primaryColors = COLOR_SCHEMES.filter(s => s.kind === 'primary').map(s => s.colors[0]);
+  return Array.from(new Set([...schemeColors, ...primaryColors].map(color => color.toLowerCase())));
+};
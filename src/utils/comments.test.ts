@@ -0,0 +1,29 @@
+import { applyCommentAction, countOpenThreads, createThread, getOrphanedThreads } from './comments';
+
+const onDiagram = createThread({ type: 'diagram' }, 'Ana', 'Looks good');
+const onPlan = createThread({ type: 'node', nodeId: 1 }, 'Ana', 'Shorter?');
+const onDeleted = createThread({ type: 'node', nodeId: 2 }, 'Ben', 'Keep this one');
+const threads = [onDiagram, onPlan, onDeleted];
+
+describe('getOrphanedThreads', () => {
+  it('finds threads on nodes that no longer exist', () => {
+    expect(getOrphanedThreads(threads, [{ id: 1 }])).toEqual([onDeleted]);
+  });
+
+  it('finds none once the node is back', () => {
+    expect(getOrphanedThreads(threads, [{ id: 1 }, { id: 2 }])).toEqual([]);
+  });
+});
+
+describe('applyCommentAction', () => {
+  it('resolves, reopens and deletes threads by id', () => {
+    const resolved = applyCommentAction(threads, { type: 'resolve', threadId: onPlan.id });
+    expect(countOpenThreads(resolved, 1)).toBe(0);
+    expect(countOpenThreads(applyCommentAction(resolved, { type: 'reopen', threadId: onPlan.id }), 1)).toBe(1);
+    expect(applyCommentAction(threads, { type: 'delete', threadId: onDeleted.id })).toEqual([onDiagram, onPlan]);
+  });
+
+  it('leaves the list unchanged for unknown threads', () => {
+    expect(applyCommentAction(threads, { type: 'resolve', threadId: 'missing' })).toEqual(threads);
+  });
+});
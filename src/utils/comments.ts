@@ -0,0 +1,88 @@
+/**
+ * Comment threads for SmartArt diagrams.
+ *
+ * A thread is anchored either to the whole diagram or to a single node id, holds
+ * the opening comment plus replies, and can be resolved and reopened. All helpers
+ * are pure and return a new thread array, so hosts can persist either the full
+ * list (`onCommentsChange`) or the individual actions (`onCommentAction`).
+ *
+ * Deleting a card keeps its threads: they are orphaned, listed with the diagram's
+ * comments, and back on the card if the delete is undone.
+ */
+export type CommentAnchor =
+  | { type: 'diagram' }
+  | { type: 'node'; nodeId: number };
+
+export interface Comment {
+  id: string;
+  author: string;
+  text: string;
+  // ISO 8601 timestamp
+  createdAt: string;
+}
+
+export interface CommentThread extends Comment {
+  anchor: CommentAnchor;
+  resolved: boolean;
+  replies: Comment[];
+}
+
+export type CommentAction =
+  | { type: 'create'; thread: CommentThread }
+  | { type: 'reply'; threadId: string; reply: Comment }
+  | { type: 'resolve'; threadId: string }
+  | { type: 'reopen'; threadId: string }
+  | { type: 'delete'; threadId: string };
+
+const createCommentId = () =>
+  `comment-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createComment = (author: string, text: string): Comment => ({
+  id: createCommentId(),
+  author,
+  text,
+  createdAt: new Date().toISOString(),
+});
+
+export const createThread = (anchor: CommentAnchor, author: string, text: string): CommentThread => ({
+  ...createComment(author, text),
+  anchor,
+  resolved: false,
+  replies: [],
+});
+
+// Applies an action to a thread list, returning the list unchanged if it doesn't apply
+export const applyCommentAction = (threads: CommentThread[], action: CommentAction): CommentThread[] => {
+  switch (action.type) {
+    case 'create':
+      return [...threads, action.thread];
+    case 'reply':
+      return threads.map(thread =>
+        thread.id === action.threadId ? { ...thread, replies: [...thread.replies, action.reply] } : thread
+      );
+    case 'resolve':
+    case 'reopen':
+      return threads.map(thread =>
+        thread.id === action.threadId ? { ...thread, resolved: action.type === 'resolve' } : thread
+      );
+    case 'delete':
+      return threads.filter(thread => thread.id !== action.threadId);
+    default:
+      return threads;
+  }
+};
+
+export const isAnchoredTo = (thread: CommentThread, anchor: CommentAnchor) =>
+  anchor.type === 'diagram'
+    ? thread.anchor.type === 'diagram'
+    : thread.anchor.type === 'node' && thread.anchor.nodeId === anchor.nodeId;
+
+// Threads anchored to nodes that no longer exist, e.g. for hosts that clean them up
+export const getOrphanedThreads = (threads: CommentThread[], nodes: { id: number }[]) => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  return threads.filter(thread => thread.anchor.type === 'node' && !nodeIds.has(thread.anchor.nodeId));
+};
+
+// Number of open threads on a node, for the badge on its card
+export const countOpenThreads = (threads: CommentThread[], nodeId: number) =>
+  threads.filter(thread => !thread.resolved && isAnchoredTo(thread, { type: 'node', nodeId })).length;
@@ -0,0 +1,96 @@
+import type { DiagramSize } from '../hooks/useResizeDrag';
+import { CONTAINER_PADDING } from './listLayout';
+
+/**
+ * Geometry of the cycle layout, shared by the component and the exporters.
+ * Values are at 100% scale; resizing the diagram scales all of them together.
+ */
+export const CYCLE_SIZE = 800;
+export const CYCLE_CENTER = 400;
+export const CYCLE_RADIUS = 250;
+export const CYCLE_CONTENT_WIDTH = 200;
+// Distance from a step's marker to its text, outward from the circle
+export const CYCLE_CONTENT_OFFSET = 30;
+// Limits of the resize handles
+export const CYCLE_MIN_SCALE = 0.5;
+export const CYCLE_MAX_SCALE = 2;
+// Fitting to a narrow page may shrink further, so the circle fits phone-width containers
+export const CYCLE_FIT_MIN_SCALE = 0.25;
+
+export type CycleContentPosition =
+  | 'top' | 'top-right' | 'right' | 'bottom-right'
+  | 'bottom' | 'bottom-left' | 'left' | 'top-left';
+
+// Calculate positions for nodes along the circle - clockwise, starting at the top
+export const getCycleNodePosition = (
+  index: number,
+  total: number,
+  radius: number = CYCLE_RADIUS,
+  center: number = CYCLE_CENTER
+) => {
+  const angleInDegrees = 90 - (index * (360 / total));
+  const angleInRadians = (angleInDegrees * Math.PI) / 180;
+
+  const x = center + radius * Math.cos(angleInRadians);
+  const y = center - radius * Math.sin(angleInRadians); // minus because y is flipped in the browser
+
+  // Determine position name for content placement
+  let position: CycleContentPosition;
+  const normalizedAngle = ((angleInDegrees % 360) + 360) % 360; // Normalize to 0-360
+
+  if (normalizedAngle >= 337.5 || normalizedAngle < 22.5) position = 'right';
+  else if (normalizedAngle >= 22.5 && normalizedAngle < 67.5) position = 'bottom-right';
+  else if (normalizedAngle >= 67.5 && normalizedAngle < 112.5) position = 'bottom';
+  else if (normalizedAngle >= 112.5 && normalizedAngle < 157.5) position = 'bottom-left';
+  else if (normalizedAngle >= 157.5 && normalizedAngle < 202.5) position = 'left';
+  else if (normalizedAngle >= 202.5 && normalizedAngle < 247.5) position = 'top-left';
+  else if (normalizedAngle >= 247.5 && normalizedAngle < 292.5) position = 'top';
+  else position = 'top-right';
+
+  // Text content sits outside the circle
+  const textX = x + CYCLE_CONTENT_OFFSET * Math.cos(angleInRadians);
+  const textY = y - CYCLE_CONTENT_OFFSET * Math.sin(angleInRadians);
+
+  return { x, y, textX, textY, position };
+};
+
+// Text alignment for a step's content, so it reads away from the circle
+export const getCycleTextAlign = (position: CycleContentPosition): 'left' | 'center' | 'right' => {
+  switch (position) {
+    case 'left':
+    case 'top-left':
+    case 'bottom-left':
+      return 'right';
+    case 'right':
+    case 'top-right':
+    case 'bottom-right':
+      return 'left';
+    default:
+      return 'center';
+  }
+};
+
+// The circle fills the smaller side of the diagram size; unsized, it shrinks (never
+// grows) to fit the available width. Sizes arrive already fitted to the page, so
+// both go down to the fitting floor rather than the resize minimum
+export const getCycleScale = (size: DiagramSize | null, availableWidth?: number) => {
+  if (!size && !availableWidth) return 1;
+  const side = size
+    ? Math.min(size.width, size.height) - CONTAINER_PADDING * 2
+    : Math.min(CYCLE_SIZE, (availableWidth ?? 0) - CONTAINER_PADDING * 2);
+  return Math.min(CYCLE_MAX_SCALE, Math.max(CYCLE_FIT_MIN_SCALE, side / CYCLE_SIZE));
+};
+
+// Point on the circle halfway between a step and the next one (the first, after the last)
+export const getCycleAddButtonPosition = (
+  indexBefore: number,
+  total: number,
+  radius: number = CYCLE_RADIUS,
+  center: number = CYCLE_CENTER
+) => {
+  const midAngle = ((90 - (indexBefore + 0.5) * (360 / Math.max(total, 1))) * Math.PI) / 180;
+  return {
+    x: center + radius * Math.cos(midAngle),
+    y: center - radius * Math.sin(midAngle), // minus because y is flipped in the browser
+  };
+};
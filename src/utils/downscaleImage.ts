@@ -0,0 +1,50 @@
+/**
+ * Shrinks oversized photos before they are stored, so a 24 megapixel camera
+ * image doesn't end up in the document at full size.
+ */
+export const MAX_IMAGE_DIMENSION = 1600;
+
+interface DownscaleOptions {
+  maxDimension?: number;
+  // JPEG/WebP quality between 0 and 1
+  quality?: number;
+}
+
+// Vector and animated formats would lose too much by going through a canvas
+const SKIPPED_TYPES = ['image/svg+xml', 'image/gif'];
+
+const loadImageElement = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('The picture could not be read.'));
+  image.src = url;
+});
+
+// Returns the original blob when it's already small enough or can't be redrawn
+export const downscaleImage = async (
+  blob: Blob,
+  { maxDimension = MAX_IMAGE_DIMENSION, quality = 0.85 }: DownscaleOptions = {}
+): Promise<Blob> => {
+  if (SKIPPED_TYPES.includes(blob.type)) return blob;
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = await loadImageElement(url);
+    const scale = maxDimension / Math.max(image.naturalWidth, image.naturalHeight);
+    if (scale >= 1) return blob;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return blob;
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    // PNGs may have transparency, so only photos are re-encoded as JPEG
+    const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const resized = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+    return resized && resized.size < blob.size ? resized : blob;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,68 @@
+import { getConnectorSegments, getHierarchyScale, getTreeLayout } from './hierarchyLayout';
+import { MAX_SCALE, MIN_SCALE } from './listLayout';
+
+//     1
+//   2   3
+//  4 5  6
+const tree = [
+  { id: 1 },
+  { id: 2, parentId: 1 },
+  { id: 3, parentId: 1 },
+  { id: 4, parentId: 2 },
+  { id: 5, parentId: 2 },
+  { id: 6, parentId: 3 },
+];
+
+describe('getTreeLayout', () => {
+  it('packs leaves and centres parents over their children', () => {
+    const { positions, width, height } = getTreeLayout(tree);
+    expect(positions).toEqual([
+      { id: 1, x: 280, y: 0, depth: 0 },
+      { id: 2, x: 112, y: 296, depth: 1 },
+      { id: 4, x: 0, y: 592, depth: 2 },
+      { id: 5, x: 224, y: 592, depth: 2 },
+      { id: 3, x: 448, y: 296, depth: 1 },
+      { id: 6, x: 448, y: 592, depth: 2 },
+    ]);
+    expect(width).toBe(648);
+    expect(height).toBe(832);
+  });
+
+  it('connects each parent to its children', () => {
+    const { connectors } = getTreeLayout(tree);
+    expect(connectors[0]).toEqual({ from: { x: 212, y: 536 }, to: [{ x: 100, y: 592 }, { x: 324, y: 592 }] });
+    expect(getConnectorSegments(connectors[0])).toEqual([
+      { x1: 212, y1: 536, x2: 212, y2: 564 },
+      { x1: 100, y1: 564, x2: 324, y2: 564 },
+      { x1: 100, y1: 564, x2: 100, y2: 592 },
+      { x1: 324, y1: 564, x2: 324, y2: 592 },
+    ]);
+  });
+
+  it('leaves out collapsed branches', () => {
+    const collapsed = tree.map(node => (node.id === 2 ? { ...node, collapsed: true } : node));
+    const { positions, width } = getTreeLayout(collapsed);
+    expect(positions.map(position => position.id)).toEqual([1, 2, 3, 6]);
+    expect(width).toBe(424);
+  });
+
+  it('scales every measurement', () => {
+    const { positions, width, height } = getTreeLayout(tree, 0.5);
+    expect(positions[1]).toEqual({ id: 2, x: 56, y: 148, depth: 1 });
+    expect(width).toBe(324);
+    expect(height).toBe(416);
+  });
+});
+
+describe('getHierarchyScale', () => {
+  it('shrinks to the available width but never grows', () => {
+    expect(getHierarchyScale(tree, null)).toBe(1);
+    expect(getHierarchyScale(tree, null, 10000)).toBe(1);
+    expect(getHierarchyScale(tree, null, 400)).toBeLessThan(1);
+  });
+
+  it('stays within the scale limits', () => {
+    expect(getHierarchyScale(tree, { width: 100000, height: 100000 })).toBe(MAX_SCALE);
+    expect(getHierarchyScale(tree, { width: 50, height: 50 })).toBe(MIN_SCALE);
+  });
+});
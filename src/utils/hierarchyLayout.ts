@@ -0,0 +1,111 @@
+import type { DiagramSize } from '../hooks/useResizeDrag';
+import { CONTAINER_PADDING, MAX_SCALE, MIN_SCALE, NODE_GAP, NODE_WIDTH } from './listLayout';
+import { TreeNode, getChildren, getParentMap } from './nodeTree';
+
+/**
+ * Geometry of the hierarchy layout, shared by the component and the exporters.
+ * Cards are the list's cards at a fixed height, so every level lines up and the
+ * connectors and add buttons can be placed exactly. Values are at 100% scale.
+ */
+export const HIERARCHY_CARD_HEIGHT = 240;
+export const HIERARCHY_IMAGE_HEIGHT = 110;
+// Vertical space between levels, where the connectors run
+export const HIERARCHY_LEVEL_GAP = 56;
+
+export interface TreeNodePosition {
+  id: number;
+  // Top-left corner of the card
+  x: number;
+  y: number;
+  depth: number;
+}
+
+export interface TreeConnector {
+  // Centre of the parent's bottom edge and of each child's top edge
+  from: { x: number; y: number };
+  to: { x: number; y: number }[];
+}
+
+export interface TreeLayout {
+  // Visible nodes only, in reading order
+  positions: TreeNodePosition[];
+  connectors: TreeConnector[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Tidy tree: leaves are packed left to right a sibling gap apart, every parent is
+ * centred over its first and last child, and each level sits one card height plus
+ * a level gap below the one above. Subtrees never overlap, and the children of a
+ * collapsed node are left out.
+ */
+export const getTreeLayout = <T extends TreeNode>(nodes: T[], scale = 1): TreeLayout => {
+  const parents = getParentMap(nodes);
+  const cardWidth = NODE_WIDTH * scale;
+  const cardHeight = HIERARCHY_CARD_HEIGHT * scale;
+  const levelStep = cardHeight + HIERARCHY_LEVEL_GAP * scale;
+  const gap = NODE_GAP * scale;
+  const positions: TreeNodePosition[] = [];
+  const connectors: TreeConnector[] = [];
+  let nextLeft = 0;
+  let maxDepth = 0;
+
+  // Places a subtree and returns the centre of its root
+  const place = (node: T, depth: number): number => {
+    const position: TreeNodePosition = { id: node.id, x: 0, y: depth * levelStep, depth };
+    positions.push(position);
+    maxDepth = Math.max(maxDepth, depth);
+
+    const children = node.collapsed ? [] : getChildren(nodes, node.id, parents);
+    let centre: number;
+    if (children.length === 0) {
+      centre = nextLeft + cardWidth / 2;
+      nextLeft += cardWidth + gap;
+    } else {
+      const childCentres = children.map(child => place(child, depth + 1));
+      centre = (childCentres[0] + childCentres[childCentres.length - 1]) / 2;
+      connectors.push({
+        from: { x: centre, y: position.y + cardHeight },
+        to: childCentres.map(x => ({ x, y: position.y + levelStep })),
+      });
+    }
+    position.x = centre - cardWidth / 2;
+    return centre;
+  };
+
+  getChildren(nodes, undefined, parents).forEach(root => place(root, 0));
+
+  return {
+    positions,
+    connectors,
+    width: Math.max(nextLeft - gap, cardWidth),
+    height: (maxDepth + 1) * cardHeight + maxDepth * HIERARCHY_LEVEL_GAP * scale,
+  };
+};
+
+/**
+ * Scale for a tree: a resized diagram fits the tree into its size, keeping the cards'
+ * proportions; otherwise it shrinks (never grows) to fit the available width.
+ */
+export const getHierarchyScale = <T extends TreeNode>(nodes: T[], size: DiagramSize | null, availableWidth?: number) => {
+  const { width, height } = getTreeLayout(nodes);
+  let scale = 1;
+  if (size) {
+    scale = Math.min((size.width - CONTAINER_PADDING * 2) / width, (size.height - CONTAINER_PADDING * 2) / height);
+  } else if (availableWidth) {
+    scale = Math.min(1, (availableWidth - CONTAINER_PADDING * 2) / width);
+  }
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+};
+
+// Elbow connectors as straight segments: down from the parent, across, down to each child
+export const getConnectorSegments = ({ from, to }: TreeConnector) => {
+  const midY = (from.y + to[0].y) / 2;
+  const xs = [from.x, ...to.map(point => point.x)];
+  return [
+    { x1: from.x, y1: from.y, x2: from.x, y2: midY },
+    { x1: Math.min(...xs), y1: midY, x2: Math.max(...xs), y2: midY },
+    ...to.map(point => ({ x1: point.x, y1: midY, x2: point.x, y2: point.y })),
+  ];
+};
@@ -0,0 +1,84 @@
+/**
+ * Crop, zoom and focal point for card pictures.
+ *
+ * Pictures always cover their frame. The focal point follows CSS `object-position`
+ * semantics: 0 keeps the left/top edge in view, 1 the right/bottom edge, so the
+ * same crop renders identically in the DOM and in exports. Zoom enlarges the
+ * picture around the focal point.
+ */
+import type { CSSProperties } from 'react';
+
+export interface ImageCrop {
+  // 0-1 across the picture
+  focalX: number;
+  focalY: number;
+  // 1 fills the frame; larger values zoom in
+  zoom: number;
+  // Width / height of the picture frame; unset uses the layout's frame
+  aspect?: number;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+
+export const DEFAULT_IMAGE_CROP: ImageCrop = { focalX: 0.5, focalY: 0.5, zoom: 1 };
+
+export const ASPECT_PRESETS: { label: string; aspect?: number }[] = [
+  { label: 'Fit card' },
+  { label: '1:1', aspect: 1 },
+  { label: '4:3', aspect: 4 / 3 },
+  { label: '16:9', aspect: 16 / 9 },
+  { label: '3:4', aspect: 3 / 4 },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampImageCrop = (crop: ImageCrop): ImageCrop => ({
+  ...crop,
+  focalX: clamp(crop.focalX, 0, 1),
+  focalY: clamp(crop.focalY, 0, 1),
+  zoom: clamp(crop.zoom, MIN_ZOOM, MAX_ZOOM),
+});
+
+export const isDefaultImageCrop = (crop?: ImageCrop) =>
+  !crop || (crop.focalX === 0.5 && crop.focalY === 0.5 && crop.zoom === 1 && crop.aspect === undefined);
+
+// Inline styles for an <img> filling its frame with the crop applied
+export const getImageCropStyle = (crop: ImageCrop = DEFAULT_IMAGE_CROP): CSSProperties => {
+  const position = `${crop.focalX * 100}% ${crop.focalY * 100}%`;
+  return {
+    objectFit: 'cover',
+    objectPosition: position,
+    transform: crop.zoom !== 1 ? `scale(${crop.zoom})` : undefined,
+    transformOrigin: position,
+  };
+};
+
+/**
+ * Region of the source picture, in its own pixels, that shows in a frame of the
+ * given size. Exporters draw this rect to reproduce what the card displays.
+ */
+export const getCropRect = (
+  crop: ImageCrop = DEFAULT_IMAGE_CROP,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number
+): CropRect => {
+  const coverScale = Math.max(frameWidth / imageWidth, frameHeight / imageHeight) * crop.zoom;
+  const width = frameWidth / coverScale;
+  const height = frameHeight / coverScale;
+  return {
+    x: (imageWidth - width) * crop.focalX,
+    y: (imageHeight - height) * crop.focalY,
+    width,
+    height,
+  };
+};
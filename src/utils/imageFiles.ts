@@ -0,0 +1,68 @@
+/**
+ * Validation and extraction of pictures from file pickers, drops and pastes.
+ */
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml', 'image/bmp'];
+
+export const MAX_IMAGE_FILE_SIZE = 10 * 1024 * 1024;
+
+const IMAGE_URL_PATTERN = /^https?:\/\/\S+$/i;
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Reason a file can't be used as a picture, or null when it's fine
+export const validateImageFile = (file: File, maxSize = MAX_IMAGE_FILE_SIZE): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `"${file.name}" isn't a supported picture. Use JPEG, PNG, GIF, WebP, SVG or BMP.`;
+  }
+  if (file.size > maxSize) {
+    return `"${file.name}" is larger than ${formatMegabytes(maxSize)}.`;
+  }
+  return null;
+};
+
+// Splits files into usable pictures and the messages for the rest
+export const partitionImageFiles = (files: File[], maxSize = MAX_IMAGE_FILE_SIZE) => {
+  const valid: File[] = [];
+  const errors: string[] = [];
+  files.forEach(file => {
+    const error = validateImageFile(file, maxSize);
+    if (error) {
+      errors.push(error);
+    } else {
+      valid.push(file);
+    }
+  });
+  return { valid, errors };
+};
+
+// Candidate picture URL from pasted or dropped text: web links and image data URLs.
+// Links aren't guaranteed to be pictures; check them with `loadImage` first.
+export const getImageUrlFromText = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (/^data:image\/[a-z+.-]+;base64,/i.test(trimmed)) return trimmed;
+  return IMAGE_URL_PATTERN.test(trimmed) ? trimmed : null;
+};
+
+// Whether a drag carries something we might accept, before the data can be read
+export const hasDroppableImage = (dataTransfer: DataTransfer) =>
+  Array.from(dataTransfer.types).some(type => type === 'Files' || type === 'text/uri-list');
+
+// Files from a drop or paste, falling back to an image URL (e.g. an image dragged from another page)
+export const getImageSources = (dataTransfer: DataTransfer): { files: File[]; url: string | null } => {
+  const files = Array.from(dataTransfer.files);
+  if (files.length > 0) return { files, url: null };
+
+  const uriList = dataTransfer.getData('text/uri-list')
+    .split('\n')
+    .find(line => line && !line.startsWith('#'));
+  const url = getImageUrlFromText(uriList || dataTransfer.getData('text/plain') || '');
+  return { files: [], url };
+};
+
+// Resolves once the browser has loaded the URL as a picture
+export const loadImage = (url: string) => new Promise<void>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve();
+  image.onerror = () => reject(new Error("That link didn't load as a picture."));
+  image.src = url;
+});
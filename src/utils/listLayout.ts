@@ -0,0 +1,117 @@
+import type { DiagramSize } from '../hooks/useResizeDrag';
+import type { ListOrientation } from '../document/smartArtDocument';
+
+/**
+ * Geometry of the list layout, shared by the component and the exporters.
+ */
+
+// Card metrics at 100% scale; resizing the diagram scales all of them together
+export const NODE_WIDTH = 200;
+export const NODE_GAP = 24;
+export const NODE_MIN_HEIGHT = 304;
+export const NODE_PADDING = 8;
+export const IMAGE_HEIGHT = 150;
+export const CONTAINER_PADDING = 20;
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 2;
+export const DEFAULT_GRID_COLUMNS = 3;
+// Smallest scale an `auto` list shrinks its cards to before wrapping them into rows
+export const RESPONSIVE_MIN_SCALE = 0.75;
+// Below this available width an `auto` list stacks its cards in a single column
+export const NARROW_WIDTH = 480;
+
+// Width of the cards and gaps at 100% scale, without container padding
+export const getNaturalContentWidth = (nodeCount: number) =>
+  nodeCount * NODE_WIDTH + Math.max(nodeCount - 1, 0) * NODE_GAP;
+
+interface ListColumnsOptions {
+  // Cards per row in the `grid` orientation
+  columns?: number;
+  // Width the `wrap` orientation fits its rows into, including the container padding
+  availableWidth?: number;
+}
+
+/**
+ * Number of cards in each row: all of them for `horizontal` (and `auto`, before it is
+ * fitted to the page), one for `vertical`, the requested count for `grid`, and as many
+ * as fit at 100% scale for `wrap`. A `wrap` list with no width to fit into stays on
+ * one row.
+ */
+export const getListColumns = (
+  nodeCount: number,
+  orientation: ListOrientation = 'auto',
+  { columns = DEFAULT_GRID_COLUMNS, availableWidth }: ListColumnsOptions = {}
+) => {
+  const count = Math.max(nodeCount, 1);
+  switch (orientation) {
+    case 'vertical':
+      return 1;
+    case 'grid':
+      return Math.min(Math.max(Math.round(columns), 1), count);
+    case 'wrap': {
+      if (!availableWidth) return count;
+      const fit = Math.floor((availableWidth - CONTAINER_PADDING * 2 + NODE_GAP) / (NODE_WIDTH + NODE_GAP));
+      return Math.min(Math.max(fit, 1), count);
+    }
+    default:
+      return count;
+  }
+};
+
+/**
+ * Columns and scale for a list that hasn't been sized with the resize handles, fitted to
+ * `availableWidth`. An `auto` list keeps one row while its cards can shrink to
+ * `RESPONSIVE_MIN_SCALE`, then wraps into as many columns as fit at that scale, and
+ * stacks the cards in one column on narrow widths. `vertical`, `grid` and `wrap` keep
+ * their columns and only shrink; `horizontal` stays at full size. Cards never grow
+ * past 100% this way.
+ */
+export const fitListToWidth = (
+  nodeCount: number,
+  orientation: ListOrientation = 'auto',
+  { columns: gridColumns, availableWidth }: ListColumnsOptions & { availableWidth: number }
+) => {
+  const count = Math.max(nodeCount, 1);
+  if (orientation === 'horizontal') return { columns: count, scale: 1 };
+
+  const contentWidth = availableWidth - CONTAINER_PADDING * 2;
+  let columns: number;
+  if (orientation !== 'auto') {
+    columns = getListColumns(nodeCount, orientation, { columns: gridColumns, availableWidth });
+  } else if (availableWidth < NARROW_WIDTH) {
+    columns = 1;
+  } else if (getNaturalContentWidth(count) * RESPONSIVE_MIN_SCALE <= contentWidth) {
+    columns = count;
+  } else {
+    const fit = Math.floor((contentWidth + NODE_GAP * RESPONSIVE_MIN_SCALE) / ((NODE_WIDTH + NODE_GAP) * RESPONSIVE_MIN_SCALE));
+    columns = Math.min(Math.max(fit, 1), count);
+  }
+
+  const scale = Math.min(1, Math.max(MIN_SCALE, contentWidth / getNaturalContentWidth(columns)));
+  return { columns, scale };
+};
+
+export const getListRows = (nodeCount: number, columns: number) => Math.max(Math.ceil(nodeCount / columns), 1);
+
+// Height of `rows` rows of empty cards and the gaps between them at 100% scale
+export const getNaturalContentHeight = (rows: number) => rows * NODE_MIN_HEIGHT + (rows - 1) * NODE_GAP;
+
+/**
+ * Maps a diagram size onto card metrics. Width drives the overall scale (card width,
+ * gaps and font sizes); any extra or missing height is shared out between the card
+ * images of each row.
+ */
+export const getLayoutMetrics = (nodeCount: number, size: DiagramSize | null, columns = Math.max(nodeCount, 1)) => {
+  if (!size) {
+    return { scale: 1, imageHeight: IMAGE_HEIGHT, cardMinHeight: NODE_MIN_HEIGHT };
+  }
+
+  const rows = getListRows(nodeCount, columns);
+  const contentWidth = size.width - CONTAINER_PADDING * 2;
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, contentWidth / getNaturalContentWidth(columns)));
+  const naturalHeight = getNaturalContentHeight(rows) * scale + CONTAINER_PADDING * 2;
+  const imageHeight = Math.max(IMAGE_HEIGHT * scale * 0.5, IMAGE_HEIGHT * scale + (size.height - naturalHeight) / rows);
+  const cardMinHeight = NODE_MIN_HEIGHT * scale + (imageHeight - IMAGE_HEIGHT * scale);
+
+  return { scale, imageHeight, cardMinHeight };
+};
@@ -0,0 +1,100 @@
+import { markdownToCycleNodes, markdownToNodes, nodesToMarkdown } from './markdownOutline';
+
+describe('markdownToNodes', () => {
+  it('reads nested bullets as titles and body lines', () => {
+    expect(markdownToNodes('- Plan\n  - Set goals\n  - Pick dates\n- Do\n')).toEqual([
+      { id: 1, title: 'Plan', body: 'Set goals\nPick dates' },
+      { id: 2, title: 'Do', body: '' },
+    ]);
+  });
+
+  it('reads numbered lists, task boxes and tab-indented plain text', () => {
+    expect(markdownToNodes('1. Plan\n2) Do\n   - [x] Carry it out')).toEqual([
+      { id: 1, title: 'Plan', body: '' },
+      { id: 2, title: 'Do', body: 'Carry it out' },
+    ]);
+    expect(markdownToNodes('Plan\r\n\tSet goals\r\nDo')).toEqual([
+      { id: 1, title: 'Plan', body: 'Set goals' },
+      { id: 2, title: 'Do', body: '' },
+    ]);
+  });
+
+  it('skips a lone top heading over deeper sections', () => {
+    expect(markdownToNodes('# Quarterly plan\n\n## Plan\nSet goals\n\n## Do\n')).toEqual([
+      { id: 1, title: 'Plan', body: 'Set goals' },
+      { id: 2, title: 'Do', body: '' },
+    ]);
+  });
+
+  it('keeps top headings when there is more than one, or nothing below them', () => {
+    expect(markdownToNodes('# Plan\n## Goals\n# Do').map(node => node.title)).toEqual(['Plan', 'Do']);
+    expect(markdownToNodes('# Plan\nSet goals')).toEqual([{ id: 1, title: 'Plan', body: 'Set goals' }]);
+  });
+
+  it('starts a node for text before the first title', () => {
+    expect(markdownToNodes('Intro\n## Plan').map(node => node.title)).toEqual(['Intro', 'Plan']);
+  });
+
+  it('takes pictures from image links', () => {
+    expect(markdownToNodes('- Plan ![](a.png)\n- Do\n  - ![Team](<b.png>)\n  - Carry it out')).toEqual([
+      { id: 1, title: 'Plan', body: '', image: 'a.png' },
+      { id: 2, title: 'Do', body: 'Carry it out', image: 'b.png' },
+    ]);
+    expect(markdownToNodes('## ![Launch](launch.png "Rocket")')).toEqual([
+      { id: 1, title: 'Launch', body: '', image: 'launch.png' },
+    ]);
+  });
+
+  it('strips links, emphasis and code', () => {
+    expect(markdownToNodes('- **Plan** the [roadmap](https://example.com) with *care* and `code`')[0].title)
+      .toBe('Plan the roadmap with care and code');
+  });
+
+  it('keeps escaped characters literal', () => {
+    expect(markdownToNodes('- \\*not emphasis\\* and \\[not a link\\](x) \\\\ \\#1')[0].title)
+      .toBe('*not emphasis* and [not a link](x) \\ #1');
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(markdownToNodes('- rename snake_case_name to _italic_')[0].title)
+      .toBe('rename snake_case_name to italic');
+  });
+
+  it('ignores blank lines and rules', () => {
+    expect(markdownToNodes('\n---\n- Plan\n\n* * *\n')).toEqual([{ id: 1, title: 'Plan', body: '' }]);
+    expect(markdownToNodes(' \n')).toEqual([]);
+  });
+});
+
+describe('markdownToCycleNodes', () => {
+  it('calls the body `description`', () => {
+    expect(markdownToCycleNodes('- Plan\n  - Set goals')).toEqual([{ id: 1, title: 'Plan', description: 'Set goals' }]);
+  });
+});
+
+describe('nodesToMarkdown', () => {
+  const nodes = [
+    { id: 1, title: 'Plan *first*', body: 'Set goals\n\n- not a bullet\n# not a heading\n1. not numbered', image: 'my pic.png' },
+    { id: 2, title: 'snake_case [draft]', body: 'Back\\slash and `code`' },
+    { id: 3, title: 'Do', body: '' },
+  ];
+  const parsedNodes = [
+    { id: 1, title: 'Plan *first*', body: 'Set goals\n- not a bullet\n# not a heading\n1. not numbered', image: 'my%20pic.png' },
+    { id: 2, title: 'snake_case [draft]', body: 'Back\\slash and `code`' },
+    { id: 3, title: 'Do', body: '' },
+  ];
+
+  it('writes nested bullets', () => {
+    expect(nodesToMarkdown([{ title: 'Plan', body: 'Set goals' }, { title: 'Do', description: 'Carry it out' }]))
+      .toBe('- Plan\n  - Set goals\n- Do\n  - Carry it out\n');
+  });
+
+  it('writes a heading per node', () => {
+    expect(nodesToMarkdown([{ title: 'Plan', body: 'Set goals', image: 'a.png' }, { title: 'Do' }], { style: 'headings' }))
+      .toBe('## Plan\n\n![Plan](a.png)\n\nSet goals\n\n## Do\n');
+  });
+
+  it.each(['bullets', 'headings'] as const)('round-trips through markdownToNodes as %s', style => {
+    expect(markdownToNodes(nodesToMarkdown(nodes, { style }))).toEqual(parsedNodes);
+  });
+});
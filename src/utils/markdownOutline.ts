@@ -0,0 +1,156 @@
+/**
+ * Conversion between SmartArt nodes and Markdown or plain-text outlines.
+ *
+ * Parsing accepts Markdown headings, bullet and numbered lists, or plain text
+ * indented with spaces or tabs. The top level of the outline (the highest
+ * heading level if there are headings, otherwise the least indented lines)
+ * becomes node titles and everything below a title becomes its body, one line
+ * per item. An image link (`![alt](url)`) sets the node's picture. Like the Text
+ * Panel, text that appears before the first title starts a node of its own.
+ * A lone top heading above deeper ones (`# Title` over `##` sections) is taken
+ * as the document title and skipped.
+ */
+export interface MarkdownNode {
+  id: number;
+  title: string;
+  body: string;
+  image?: string;
+}
+
+export interface CycleMarkdownNode {
+  id: number;
+  title: string;
+  description: string;
+}
+
+export interface NodesToMarkdownOptions {
+  // `bullets` nests body lines under each title; `headings` writes a `##` section per node
+  style?: 'bullets' | 'headings';
+}
+
+interface ParsedLine {
+  indent: number;
+  headingLevel?: number;
+  text: string;
+  image?: string;
+}
+
+const HEADING = /^(#{1,6})(?:\s+(.*))?$/;
+// Bullets (-, *, +), numbered items (1. or 1)) and task-list boxes
+const LIST_MARKER = /^(?:[-*+]|\d+[.)])(?:\s+(?:\[[ xX]\]\s+)?|$)/;
+const IMAGE_LINK = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/;
+const TAB_WIDTH = 4;
+
+const ESCAPED = /\\([\\`*_{}[\]()#+\-.!>])/g;
+// Escaped characters are parked in the private use area while markup is stripped
+const PLACEHOLDER_BASE = 0xE000;
+
+// Drops inline Markdown that has no equivalent on a card: links, emphasis and code
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(ESCAPED, (_, char: string) => String.fromCharCode(PLACEHOLDER_BASE + char.charCodeAt(0)))
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    // Underscores only count at word edges, so snake_case survives
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, '$1$2')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/[\uE000-\uE0FF]/g, char => String.fromCharCode(char.charCodeAt(0) - PLACEHOLDER_BASE))
+    .trim();
+
+const parseLine = (raw: string): ParsedLine | null => {
+  const expanded = raw.replace(/\t/g, ' '.repeat(TAB_WIDTH));
+  const content = expanded.trim();
+  if (!content || /^(?:[-*_]\s*){3,}$/.test(content)) return null;
+
+  const indent = expanded.length - expanded.trimStart().length;
+  const heading = HEADING.exec(content);
+  let text = heading ? (heading[2] ?? '').replace(/(^|\s+)#+$/, '') : content.replace(/^>\s?/, '').replace(LIST_MARKER, '');
+
+  const imageMatch = IMAGE_LINK.exec(text);
+  let image: string | undefined;
+  if (imageMatch) {
+    image = imageMatch[2];
+    text = text.replace(IMAGE_LINK, '').trim() || (heading ? imageMatch[1] : '');
+  }
+
+  return { indent, headingLevel: heading ? heading[1].length : undefined, text: stripInlineMarkdown(text), image };
+};
+
+/**
+ * Parses a Markdown or indented plain-text outline into list nodes, numbered from 1.
+ */
+export const markdownToNodes = (markdown: string): MarkdownNode[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+    .map(parseLine)
+    .filter((line): line is ParsedLine => line !== null);
+  if (lines.length === 0) return [];
+
+  let headingLevels = lines.flatMap(line => (line.headingLevel ? [line.headingLevel] : []));
+  const topLevel = Math.min(...headingLevels);
+  if (lines[0].headingLevel === topLevel && headingLevels.filter(level => level === topLevel).length === 1
+    && headingLevels.length > 1) {
+    lines.shift();
+    headingLevels = headingLevels.slice(1);
+  }
+  const titleHeadingLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : undefined;
+  const titleIndent = Math.min(...lines.map(line => line.indent));
+  const isTitle = (line: ParsedLine) =>
+    titleHeadingLevel !== undefined ? line.headingLevel === titleHeadingLevel : line.indent === titleIndent;
+
+  const nodes: MarkdownNode[] = [];
+  const bodies: string[][] = [];
+
+  lines.forEach(line => {
+    if (isTitle(line) || nodes.length === 0) {
+      nodes.push({ id: nodes.length + 1, title: line.text, body: '', ...(line.image ? { image: line.image } : {}) });
+      bodies.push([]);
+      return;
+    }
+    const node = nodes[nodes.length - 1];
+    if (line.image && !node.image) node.image = line.image;
+    if (line.text) bodies[bodies.length - 1].push(line.text);
+  });
+
+  return nodes.map((node, index) => ({ ...node, body: bodies[index].join('\n') }));
+};
+
+// Same parse, shaped for CycleSmartArt, which calls the body `description`
+export const markdownToCycleNodes = (markdown: string): CycleMarkdownNode[] =>
+  markdownToNodes(markdown).map(({ id, title, body }) => ({ id, title, description: body }));
+
+// Keeps card text from being read back as Markdown syntax
+const escapeInline = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+const escapeLineStart = (text: string) =>
+  escapeInline(text)
+    .replace(/^([#>+-])(?=\s|$)/, '\\$1')
+    .replace(/^(\d+)([.)])(?=\s|$)/, '$1\\$2');
+
+/**
+ * Writes nodes (list nodes with `body` or cycle nodes with `description`) as
+ * Markdown that `markdownToNodes` reads back to the same titles, bodies and pictures.
+ */
+export const nodesToMarkdown = (
+  nodes: { title: string; body?: string; description?: string; image?: string }[],
+  { style = 'bullets' }: NodesToMarkdownOptions = {}
+): string => {
+  const sections = nodes.map(node => {
+    const bodyLines = (node.body ?? node.description ?? '').split('\n').filter(line => line.trim() !== '');
+    const image = node.image ? `![${node.title.replace(/[[\]]/g, '')}](${node.image.replace(/\s/g, '%20')})` : undefined;
+
+    if (style === 'headings') {
+      return [
+        `## ${escapeInline(node.title)}`,
+        ...(image ? ['', image] : []),
+        ...(bodyLines.length > 0 ? ['', ...bodyLines.map(escapeLineStart)] : []),
+      ].join('\n');
+    }
+    return [
+      `- ${escapeInline(node.title)}`,
+      ...(image ? [`  - ${image}`] : []),
+      ...bodyLines.map(line => `  - ${escapeInline(line)}`),
+    ].join('\n');
+  });
+
+  return `${sections.join(style === 'headings' ? '\n\n' : '\n')}\n`;
+};
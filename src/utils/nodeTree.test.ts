@@ -0,0 +1,115 @@
+import {
+  TreeNode,
+  getChildren,
+  getDepth,
+  getDescendantIds,
+  getParentMap,
+  getTreeNeighbour,
+  getTreeOrder,
+  getVisibleNodes,
+  indentNode,
+  moveAmongSiblings,
+  outdentNode,
+  removeTreeNode,
+  reparentNode,
+} from './nodeTree';
+
+//     1
+//   2   3
+//  4 5  6
+const tree: TreeNode[] = [
+  { id: 1 },
+  { id: 2, parentId: 1 },
+  { id: 3, parentId: 1 },
+  { id: 4, parentId: 2 },
+  { id: 5, parentId: 2 },
+  { id: 6, parentId: 3 },
+];
+
+// Array order as `id:parentId`, so a whole tree compares in one line
+const describeTree = (nodes: TreeNode[]) =>
+  nodes.map(node => (node.parentId === undefined ? `${node.id}` : `${node.id}:${node.parentId}`)).join(' ');
+
+const ids = (nodes: TreeNode[]) => nodes.map(node => node.id);
+
+describe('getParentMap', () => {
+  it('maps each node to its parent', () => {
+    expect(Array.from(getParentMap(tree))).toEqual([[1, undefined], [2, 1], [3, 1], [4, 2], [5, 2], [6, 3]]);
+  });
+
+  it('ignores parents that do not exist', () => {
+    expect(getParentMap([{ id: 1, parentId: 9 }]).get(1)).toBeUndefined();
+  });
+
+  it('breaks loops at the nodes inside them', () => {
+    const parents = getParentMap([
+      { id: 1, parentId: 2 },
+      { id: 2, parentId: 1 },
+      { id: 3, parentId: 1 },
+      { id: 4, parentId: 4 },
+    ]);
+    expect(Array.from(parents)).toEqual([[1, undefined], [2, undefined], [3, 1], [4, undefined]]);
+  });
+});
+
+describe('tree queries', () => {
+  it('lists children, descendants and depths', () => {
+    expect(ids(getChildren(tree, undefined))).toEqual([1]);
+    expect(ids(getChildren(tree, 2))).toEqual([4, 5]);
+    expect(Array.from(getDescendantIds(tree, 2))).toEqual([4, 5]);
+    expect(Array.from(getDescendantIds(tree, 1)).sort()).toEqual([2, 3, 4, 5, 6]);
+    expect(getDepth(tree, 6)).toBe(2);
+  });
+
+  it('reads the tree parents first, skipping collapsed branches only when drawing', () => {
+    const shuffled = [tree[5], tree[3], tree[0], tree[2], { ...tree[1], collapsed: true }, tree[4]];
+    expect(ids(getTreeOrder(shuffled))).toEqual([1, 3, 6, 2, 4, 5]);
+    expect(ids(getVisibleNodes(shuffled))).toEqual([1, 3, 6, 2]);
+  });
+});
+
+describe('tree edits', () => {
+  it('moves a node and its descendants under a new parent', () => {
+    expect(describeTree(reparentNode(tree, 3, 4))).toBe('1 2:1 4:2 3:4 5:2 6:3');
+    expect(describeTree(reparentNode(tree, 2, undefined))).toBe('1 3:1 4:2 5:2 6:3 2');
+  });
+
+  it('refuses to move a node under itself or a descendant', () => {
+    expect(reparentNode(tree, 2, 2)).toBe(tree);
+    expect(reparentNode(tree, 2, 5)).toBe(tree);
+  });
+
+  it('indents a node under its previous sibling', () => {
+    expect(describeTree(indentNode(tree, 3))).toBe('1 2:1 4:2 5:2 3:2 6:3');
+    expect(indentNode(tree, 2)).toBe(tree);
+  });
+
+  it('outdents a node to just after its parent', () => {
+    expect(describeTree(outdentNode(tree, 4))).toBe('1 2:1 4:1 3:1 5:2 6:3');
+    expect(outdentNode(tree, 1)).toBe(tree);
+  });
+
+  it('moves a node among its siblings', () => {
+    expect(describeTree(moveAmongSiblings(tree, 5, -1))).toBe('1 2:1 3:1 5:2 4:2 6:3');
+    expect(moveAmongSiblings(tree, 5, 1)).toBe(tree);
+  });
+
+  it('moves the children of a removed node up to its parent', () => {
+    expect(describeTree(removeTreeNode(tree, 2))).toBe('1 3:1 4:1 5:1 6:3');
+  });
+});
+
+describe('getTreeNeighbour', () => {
+  it('follows the drawn tree', () => {
+    expect(getTreeNeighbour(tree, 4, 'up')?.id).toBe(2);
+    expect(getTreeNeighbour(tree, 1, 'down')?.id).toBe(2);
+    expect(getTreeNeighbour(tree, 5, 'right')?.id).toBe(6);
+    expect(getTreeNeighbour(tree, 4, 'left')).toBeUndefined();
+  });
+
+  it('does not go into collapsed branches', () => {
+    const collapsed = tree.map(node => (node.id === 2 ? { ...node, collapsed: true } : node));
+    expect(getTreeNeighbour(collapsed, 2, 'down')).toBeUndefined();
+    expect(getTreeNeighbour(collapsed, 6, 'left')).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Parent/child structure of nodes, for the hierarchy layout.
+ *
+ * Nodes stay a flat array: each one names its parent with `parentId`, and siblings
+ * keep their array order. Parents that don't exist, or that would make a node its
+ * own ancestor, are ignored, so any array reads as a tree (a flat list is a row of
+ * top-level nodes).
+ */
+export interface TreeNode {
+  id: number;
+  parentId?: number;
+  collapsed?: boolean;
+}
+
+// Each node's effective parent; undefined for top-level nodes
+export const getParentMap = <T extends TreeNode>(nodes: T[]): Map<number, number | undefined> => {
+  const declared = new Map(nodes.map(node => [node.id, node.parentId] as const));
+  const resolved = new Map<number, number | undefined>();
+
+  nodes.forEach(node => {
+    let valid = node.parentId !== undefined && declared.has(node.parentId);
+    // Walk up the declared parents; reaching the node again means a loop
+    const seen = new Set<number>();
+    for (let ancestor = node.parentId; valid && ancestor !== undefined && !seen.has(ancestor); ancestor = declared.get(ancestor)) {
+      if (ancestor === node.id) valid = false;
+      seen.add(ancestor);
+    }
+    resolved.set(node.id, valid ? node.parentId : undefined);
+  });
+  return resolved;
+};
+
+// Children of `parentId` (top-level nodes for undefined), in sibling order
+export const getChildren = <T extends TreeNode>(
+  nodes: T[],
+  parentId: number | undefined,
+  parents = getParentMap(nodes)
+): T[] => nodes.filter(node => parents.get(node.id) === parentId);
+
+export const getDescendantIds = <T extends TreeNode>(nodes: T[], nodeId: number, parents = getParentMap(nodes)) => {
+  const descendants = new Set<number>();
+  const visit = (id: number) => {
+    getChildren(nodes, id, parents).forEach(child => {
+      descendants.add(child.id);
+      visit(child.id);
+    });
+  };
+  visit(nodeId);
+  return descendants;
+};
+
+export const getDepth = <T extends TreeNode>(nodes: T[], nodeId: number, parents = getParentMap(nodes)) => {
+  let depth = 0;
+  for (let parent = parents.get(nodeId); parent !== undefined; parent = parents.get(parent)) depth++;
+  return depth;
+};
+
+/**
+ * Nodes that aren't inside a collapsed branch, parents before their children and
+ * branches left to right: the reading order of the drawn tree.
+ */
+export const getVisibleNodes = <T extends TreeNode>(nodes: T[], parents = getParentMap(nodes)): T[] => {
+  const visible: T[] = [];
+  const visit = (parentId: number | undefined) => {
+    getChildren(nodes, parentId, parents).forEach(node => {
+      visible.push(node);
+      if (!node.collapsed) visit(node.id);
+    });
+  };
+  visit(undefined);
+  return visible;
+};
+
+// Every node in the reading order of the drawn tree, including collapsed branches
+export const getTreeOrder = <T extends TreeNode>(nodes: T[], parents = getParentMap(nodes)): T[] => {
+  const ordered: T[] = [];
+  const visit = (parentId: number | undefined) => {
+    getChildren(nodes, parentId, parents).forEach(node => {
+      ordered.push(node);
+      visit(node.id);
+    });
+  };
+  visit(undefined);
+  return ordered;
+};
+
+// Array index just past a node and all of its descendants; new last children go here
+export const getSubtreeEnd = <T extends TreeNode>(nodes: T[], nodeId: number, parents = getParentMap(nodes)) => {
+  const subtree = getDescendantIds(nodes, nodeId, parents).add(nodeId);
+  return nodes.reduce((end, node, index) => (subtree.has(node.id) ? index + 1 : end), 0);
+};
+
+// Copy of a node under `parentId`, or at the top level for undefined
+export const withParent = <T extends TreeNode>(node: T, parentId: number | undefined): T => {
+  const { parentId: _parentId, ...rest } = node;
+  return (parentId === undefined ? rest : { ...rest, parentId }) as T;
+};
+
+// Removes a node; its children move up to its parent
+export const removeTreeNode = <T extends TreeNode>(nodes: T[], nodeId: number): T[] => {
+  const parentId = getParentMap(nodes).get(nodeId);
+  return nodes
+    .filter(node => node.id !== nodeId)
+    .map(node => (node.parentId === nodeId ? withParent(node, parentId) : node));
+};
+
+/**
+ * Makes a node the last child of `parentId`, or the last top-level node for undefined,
+ * taking its descendants along. Moving a node under itself or one of its descendants
+ * leaves the nodes unchanged.
+ */
+export const reparentNode = <T extends TreeNode>(nodes: T[], nodeId: number, parentId: number | undefined): T[] => {
+  const parents = getParentMap(nodes);
+  const node = nodes.find(item => item.id === nodeId);
+  if (!node || parentId === nodeId || (parentId !== undefined && getDescendantIds(nodes, nodeId, parents).has(parentId))) {
+    return nodes;
+  }
+
+  const rest = nodes.filter(item => item.id !== nodeId);
+  const index = parentId === undefined ? rest.length : getSubtreeEnd(rest, parentId);
+  return [...rest.slice(0, index), withParent(node, parentId), ...rest.slice(index)];
+};
+
+// Moves a node up a level, to just after its parent
+export const outdentNode = <T extends TreeNode>(nodes: T[], nodeId: number): T[] => {
+  const parents = getParentMap(nodes);
+  const parentId = parents.get(nodeId);
+  const node = nodes.find(item => item.id === nodeId);
+  if (!node || parentId === undefined) return nodes;
+
+  const rest = nodes.filter(item => item.id !== nodeId);
+  const index = rest.findIndex(item => item.id === parentId) + 1;
+  return [...rest.slice(0, index), withParent(node, parents.get(parentId)), ...rest.slice(index)];
+};
+
+// Moves a node down a level, to be the last child of its previous sibling
+export const indentNode = <T extends TreeNode>(nodes: T[], nodeId: number): T[] => {
+  const parents = getParentMap(nodes);
+  const siblings = getChildren(nodes, parents.get(nodeId), parents);
+  const previous = siblings[siblings.findIndex(item => item.id === nodeId) - 1];
+  return previous ? reparentNode(nodes, nodeId, previous.id) : nodes;
+};
+
+// Swaps a node with its previous (-1) or next (1) sibling
+export const moveAmongSiblings = <T extends TreeNode>(nodes: T[], nodeId: number, offset: -1 | 1): T[] => {
+  const parents = getParentMap(nodes);
+  const siblings = getChildren(nodes, parents.get(nodeId), parents);
+  const sibling = siblings[siblings.findIndex(item => item.id === nodeId) + offset];
+  if (!sibling) return nodes;
+
+  const index = nodes.findIndex(item => item.id === nodeId);
+  const siblingIndex = nodes.findIndex(item => item.id === sibling.id);
+  const next = [...nodes];
+  [next[index], next[siblingIndex]] = [next[siblingIndex], next[index]];
+  return next;
+};
+
+/**
+ * Node to move to with the arrow keys in the drawn tree: the parent (up), the first
+ * child of an expanded node (down), or the neighbour on the same level (left/right).
+ */
+export const getTreeNeighbour = <T extends TreeNode>(
+  nodes: T[],
+  nodeId: number,
+  direction: 'up' | 'down' | 'left' | 'right'
+): T | undefined => {
+  const parents = getParentMap(nodes);
+  const node = nodes.find(item => item.id === nodeId);
+  if (!node) return undefined;
+
+  switch (direction) {
+    case 'up':
+      return nodes.find(item => item.id === parents.get(nodeId));
+    case 'down':
+      return node.collapsed ? undefined : getChildren(nodes, nodeId, parents)[0];
+    default: {
+      const depth = getDepth(nodes, nodeId, parents);
+      const level = getVisibleNodes(nodes, parents).filter(item => getDepth(nodes, item.id, parents) === depth);
+      return level[level.findIndex(item => item.id === nodeId) + (direction === 'left' ? -1 : 1)];
+    }
+  }
+};
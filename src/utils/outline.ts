@@ -0,0 +1,122 @@
+import { getDepth, getParentMap, getTreeOrder, withParent } from './nodeTree';
+
+/**
+ * Conversion between SmartArt nodes and the editable outline shown in the Text Panel.
+ *
+ * Each node becomes a level-0 line (its title) followed by one level-1 line per
+ * line of its body. Converting back groups every level-1 line under the nearest
+ * level-0 line above it, so indenting or outdenting a line moves text between
+ * cards the way Office's SmartArt text pane does.
+ *
+ * For the hierarchy layout, title lines also carry the depth of their card in the
+ * tree: each title's parent is the nearest title above it one level up.
+ */
+export interface OutlineNode {
+  id: number;
+  title: string;
+  body: string;
+  parentId?: number;
+}
+
+export interface OutlineLine {
+  // Stable React key for the line
+  key: string;
+  level: 0 | 1;
+  // Depth in the hierarchy of the card the line belongs to; 0 outside hierarchies
+  depth: number;
+  text: string;
+  // Node a title line belongs to; missing for lines that will create a new node
+  nodeId?: number;
+}
+
+let lineKeyCounter = 0;
+
+export const createLineKey = () => `line-${++lineKeyCounter}`;
+
+export const nodesToOutline = <T extends OutlineNode>(nodes: T[], hierarchical = false): OutlineLine[] => {
+  const parents = getParentMap(nodes);
+  return (hierarchical ? getTreeOrder(nodes, parents) : nodes).flatMap(node => {
+    const depth = hierarchical ? getDepth(nodes, node.id, parents) : 0;
+    return [
+      { key: createLineKey(), level: 0 as const, depth, text: node.title, nodeId: node.id },
+      ...(node.body === ''
+        ? []
+        : node.body.split('\n').map(text => ({ key: createLineKey(), level: 1 as const, depth, text }))),
+    ];
+  });
+};
+
+/**
+ * Rebuilds the node array from outline lines. Existing nodes are matched by id so
+ * their other fields (image, color, ...) survive; title lines without a known id
+ * become new nodes from `createNode`. The returned lines carry the ids assigned to
+ * those new nodes so later edits keep updating the same card.
+ *
+ * In a hierarchy, parents come from the title depths (a title can be at most one
+ * level below the one above it). Otherwise the outline is flat and nodes keep their
+ * parents; the children of a removed title move up to its parent, as when the card
+ * is deleted, so no node is left pointing at one that no longer exists.
+ */
+export const outlineToNodes = <T extends OutlineNode>(
+  lines: OutlineLine[],
+  prevNodes: T[],
+  createNode: (id: number) => T,
+  hierarchical = false,
+  // Ids for new titles; by default they count up from the highest id in `prevNodes`
+  allocateId?: () => number
+): { nodes: T[]; lines: OutlineLine[] } => {
+  const prevById = new Map(prevNodes.map(node => [node.id, node]));
+  const prevParents = getParentMap(prevNodes);
+  const usedIds = new Set<number>();
+  let nextId = prevNodes.reduce((max, node) => Math.max(max, node.id), 0) + 1;
+
+  const nodes: T[] = [];
+  const bodies: string[][] = [];
+  const nextLines: OutlineLine[] = [];
+  // Ids of the latest title at each depth, down to the current line's parent
+  const ancestors: number[] = [];
+
+  lines.forEach(line => {
+    // A body line with no title above it is treated as a title
+    const level = line.level === 1 && nodes.length > 0 ? 1 : 0;
+
+    if (level === 1) {
+      bodies[bodies.length - 1].push(line.text);
+      const depth = hierarchical ? ancestors.length - 1 : 0;
+      nextLines.push(line.depth === depth ? line : { ...line, depth });
+      return;
+    }
+
+    let id = line.nodeId;
+    if (id === undefined || usedIds.has(id)) {
+      id = allocateId ? allocateId() : nextId++;
+    }
+    usedIds.add(id);
+
+    const depth = hierarchical ? Math.min(line.depth, ancestors.length) : 0;
+    ancestors.length = depth;
+    const base = prevById.get(id) ?? createNode(id);
+    nodes.push(hierarchical ? withParent({ ...base, title: line.text }, ancestors[depth - 1]) : { ...base, title: line.text });
+    ancestors.push(id);
+    bodies.push([]);
+    nextLines.push(line.nodeId === id && line.level === 0 && line.depth === depth
+      ? line
+      : { ...line, level: 0, depth, nodeId: id });
+  });
+
+  // Flat outlines: parents that were removed hand their children to their own parent
+  const keptIds = new Set(nodes.map(node => node.id));
+  const resolveParent = (id: number) => {
+    let parentId = prevParents.get(id);
+    while (parentId !== undefined && !keptIds.has(parentId)) parentId = prevParents.get(parentId);
+    return parentId;
+  };
+
+  return {
+    nodes: nodes.map((node, index) => {
+      const withBody = { ...node, body: bodies[index].join('\n') };
+      return hierarchical ? withBody : withParent(withBody, resolveParent(node.id));
+    }),
+    lines: nextLines,
+  };
+};